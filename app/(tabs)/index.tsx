@@ -3,9 +3,10 @@
  * Retro 1980s calculator for checkbook balancing
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { StyleSheet, View, StatusBar, useWindowDimensions, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from 'expo-router';
 
 // Components
 import { Display } from '@/components/calculator/Display';
@@ -14,21 +15,71 @@ import { ReceiptTape } from '@/components/calculator/ReceiptTape';
 import { ErrorModal } from '@/components/calculator/ErrorModal';
 import { UndoRedoIndicator } from '@/components/calculator/UndoRedoIndicator';
 import { ModeSwitch } from '@/components/calculator/ModeSwitch';
+import { SettingsModal } from '@/components/settings/SettingsModal';
+import { MemoryRegistersModal } from '@/components/calculator/MemoryRegistersModal';
+import { ClipboardMenu } from '@/components/calculator/ClipboardMenu';
+import { TransactionForm } from '@/components/register/TransactionForm';
 
 // Hooks
 import { useUndoRedo } from '@/hooks/calculator/useUndoRedo';
+import { useSessionPersistence } from '@/hooks/calculator/useSessionPersistence';
+import { useSounds } from '@/hooks/calculator/useSounds';
 
 // Utils and constants
 import { CalculatorEngine } from '@/utils/calculator';
+import { getCurrency } from '@/utils/currency';
+import { formatExpressionText, formatNumberText, getNumberFormat } from '@/utils/numberFormat';
+import { setLanguage, t } from '@/utils/i18n';
+import { copyToClipboard, parsePastedNumbers, readClipboard } from '@/utils/clipboard';
+import { subscribeToStorageErrors } from '@/utils/errors';
+import {
+  evaluateExpression,
+  appendToExpression,
+  backspaceExpression,
+  clearExpressionEntry,
+  toggleExpressionSign,
+  pasteIntoExpression,
+} from '@/utils/expression';
+import { SCIENTIFIC_CONSTANTS } from '@/utils/scientific';
+import { createTransactionDraft } from '@/utils/register';
+import { getKeypad } from '@/utils/keypadLayout';
+import { Decimal } from '@/utils/decimal';
+import {
+  ANGLE_UNITS,
+  EMPTY_MEMORY,
+  SCIENTIFIC_FUNCTION_KEYS,
+  SCIENTIFIC_OPERATOR_KEYS,
+  DEFAULT_CURRENCY_CODE,
+  DEFAULT_KEY_BINDINGS,
+  DEFAULT_KEYPAD_LAYOUTS,
+} from '@/constants/calculator';
 import { RetroColors } from '@/constants/Colors';
 import {
-  loadSettings,
-  getHistory,
+  loadStoredSettings,
+  saveSettings,
+  getHistoryPage,
   saveCalculationToHistory,
   autoCleanupHistory,
   saveLastBalance,
+  getLastBalance,
+  getSession,
+  getMemory,
+  saveMemory,
+  saveRegisterTransaction,
 } from '@/utils/storage';
-import { CalculationHistory, AppSettings, CalculatorState, Operation } from '@/types/calculator';
+import {
+  CalculationHistory,
+  CalculationResult,
+  CalculatorErrorCode,
+  AppSettings,
+  CalculatorMode,
+  CalculatorState,
+  ChainStep,
+  MemoryState,
+  NewHistoryEntry,
+  NewRegisterTransaction,
+  Operation,
+} from '@/types/calculator';
 
 // Initial calculator state
 const INITIAL_CALCULATOR_STATE: CalculatorState = {
@@ -37,8 +88,32 @@ const INITIAL_CALCULATOR_STATE: CalculatorState = {
   previousValue: null,
   operation: null,
   waitingForOperand: false,
+  entryComplete: false,
   error: false,
-  errorMessage: '',
+  errorCode: null,
+  memory: EMPTY_MEMORY,
+  grandTotal: 0,
+  itemCount: 0,
+  chain: [],
+};
+
+// Reset the calculation after an error but keep memory and the grand total
+const clearedState = (prev: CalculatorState): CalculatorState => ({
+  ...INITIAL_CALCULATOR_STATE,
+  memory: prev.memory,
+  grandTotal: prev.grandTotal,
+});
+
+// Add an entered operand to the running chain, starting a new chain if none is open
+const extendChain = (prev: CalculatorState, operand: number, result: number): ChainStep[] => {
+  if (prev.previousValue === null || prev.operation === null) {
+    return [{ operation: null, operand, result }];
+  }
+
+  const chain: ChainStep[] = prev.chain.length > 0
+    ? prev.chain
+    : [{ operation: null, operand: prev.previousValue, result: prev.previousValue }];
+  return [...chain, { operation: prev.operation, operand, result }];
 };
 
 export default function CalculatorScreen() {
@@ -48,53 +123,174 @@ export default function CalculatorScreen() {
     lcdColor: 'amber',
     soundEnabled: true,
     retentionDays: 90,
-    currencySymbol: '$',
+    currency: DEFAULT_CURRENCY_CODE,
+    numberLocale: 'en-US',
+    digitGrouping: 'thousands',
     showModeWarning: true,
+    entryMode: 'immediate',
+    angleUnit: 'deg',
+    startupBehavior: 'resume',
+    language: 'en',
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    keypadLayouts: DEFAULT_KEYPAD_LAYOUTS,
   });
 
   const [history, setHistory] = useState<CalculationHistory[]>([]);
   const [historyLoading, setHistoryLoading] = useState(true);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [loadingMoreHistory, setLoadingMoreHistory] = useState(false);
   const [showModeWarning, setShowModeWarning] = useState(false);
   const [newMode, setNewMode] = useState<'checkbook' | 'scientific'>('checkbook');
+  const [showMemoryRegisters, setShowMemoryRegisters] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Mode picked in settings; the ModeSwitch notice waits until the settings sheet closes
+  const [pendingMode, setPendingMode] = useState<CalculatorMode | null>(null);
+  const [registerDraft, setRegisterDraft] = useState<NewRegisterTransaction | null>(null);
+  // An error outside the calculation (failed storage, rejected paste); shown in the error modal
+  // once no calculation error is showing
+  const [appError, setAppError] = useState<{ code: CalculatorErrorCode; detail?: string } | null>(
+    null
+  );
+  // Value offered by the copy and paste sheet, as a plain number and as shown
+  const [clipboardValue, setClipboardValue] = useState<{
+    raw: string;
+    formatted: string;
+    fromDisplay: boolean;
+  } | null>(null);
+  const [screenFocused, setScreenFocused] = useState(true);
 
   // Calculator state - inlined from useCalculator hook
   const [calculatorState, setCalculatorState] = useState<CalculatorState>(INITIAL_CALCULATOR_STATE);
 
   // Undo/Redo functionality
   const undoRedo = useUndoRedo(calculatorState);
+  const { clear: resetUndoRedo, restore: restoreUndoRedo } = undoRedo;
 
   // Get screen dimensions for responsive layout
   const { height: screenHeight } = useWindowDimensions();
 
+  // Last state recorded for undo/redo, and whether stored memory has been loaded
+  const prevStateRef = useRef<CalculatorState | null>(null);
+  const memoryLoadedRef = useRef(false);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  // Settings as loaded when they must not be saved back (store unreadable or from a newer
+  // version); cleared by the first change the user makes
+  const unsavableSettingsRef = useRef<AppSettings | null>(null);
+
+  // Snapshot the calculator and undo stack once the saved session has been restored
+  useSessionPersistence(calculatorState, undoRedo.stack, undoRedo.currentIndex, sessionLoaded);
+
   /**
    * Load settings and history on app start
    */
   useEffect(() => {
     const initialize = async () => {
       try {
-        const loadedSettings = await loadSettings();
+        const { settings: loadedSettings, status } = await loadStoredSettings();
+        unsavableSettingsRef.current = status === 'loaded' ? null : loadedSettings;
         setSettings(loadedSettings);
 
         // Auto-cleanup old history
         await autoCleanupHistory(loadedSettings.retentionDays);
 
-        // Load history
-        const loadedHistory = await getHistory();
-        setHistory(loadedHistory);
+        // Load the newest page of history; older days are paged in as the tape scrolls
+        const page = await getHistoryPage();
+        setHistory(page.entries);
+        setHistoryCursor(page.nextCursor);
+
+        const [memory, session, lastBalance] = await Promise.all([
+          getMemory(),
+          getSession(),
+          getLastBalance(),
+        ]);
+
+        if (loadedSettings.startupBehavior === 'resume' && session) {
+          // Pick up where the user left off, undo stack included
+          const saved = { ...INITIAL_CALCULATOR_STATE, ...session.calculatorState };
+          const restored = { ...(saved.error ? clearedState(saved) : saved), memory };
+          prevStateRef.current = restored;
+          restoreUndoRedo(session.undoStack, session.undoIndex);
+          setCalculatorState(restored);
+        } else {
+          // Start from the last checkbook balance, as the undo baseline so ⟲ can't undo past it
+          const restored = {
+            ...INITIAL_CALCULATOR_STATE,
+            memory,
+            display: lastBalance !== 0
+              ? CalculatorEngine.formatForDisplay(
+                  lastBalance,
+                  loadedSettings.mode,
+                  getCurrency(loadedSettings.currency)
+                )
+              : '0',
+            entryComplete: lastBalance !== 0,
+          };
+          prevStateRef.current = restored;
+          resetUndoRedo(restored);
+          setCalculatorState(restored);
+        }
       } catch (error) {
         console.error('Error initializing app:', error);
       } finally {
         setHistoryLoading(false);
+        memoryLoadedRef.current = true;
+        setSessionLoaded(true);
       }
     };
 
     initialize();
-  }, []);
+  }, [resetUndoRedo, restoreUndoRedo]);
+
+  const sounds = useSounds(settings.soundEnabled);
+
+  // Persist every settings change (keypad DRG included) once the stored settings have loaded,
+  // but never write back settings that were only stood in for or came from a newer version
+  useEffect(() => {
+    if (!sessionLoaded || settings === unsavableSettingsRef.current) return;
+    unsavableSettingsRef.current = null;
+    saveSettings(settings);
+  }, [settings, sessionLoaded]);
+
+  // Hardware keys only reach the keypad while the calculator is the screen in front
+  useFocusEffect(
+    useCallback(() => {
+      setScreenFocused(true);
+      return () => setScreenFocused(false);
+    }, [])
+  );
+
+  // Storage failures anywhere in the app surface in the error modal
+  useEffect(() => subscribeToStorageErrors(() => setAppError({ code: 'storage' })), []);
+
+  // Interface language is app-wide, so screens outside the calculator follow it too
+  useEffect(() => {
+    setLanguage(settings.language);
+  }, [settings.language]);
+
+  // Reload the newest page when coming back to the calculator, so lines imported into the tape show up
+  useFocusEffect(
+    useCallback(() => {
+      if (!sessionLoaded) return;
+
+      getHistoryPage().then((page) => {
+        setHistory(page.entries);
+        setHistoryCursor(page.nextCursor);
+      });
+    }, [sessionLoaded])
+  );
+
+  /**
+   * Persist memory whenever it changes (including undo/redo)
+   */
+  useEffect(() => {
+    if (memoryLoadedRef.current) {
+      saveMemory(calculatorState.memory);
+    }
+  }, [calculatorState.memory]);
 
   /**
    * Track calculator state changes for undo/redo
    */
-  const prevStateRef = useRef<CalculatorState | null>(null);
   useEffect(() => {
     if (prevStateRef.current === null) {
       prevStateRef.current = calculatorState;
@@ -104,7 +300,8 @@ export default function CalculatorScreen() {
     const stateChanged =
       prevStateRef.current.display !== calculatorState.display ||
       prevStateRef.current.operation !== calculatorState.operation ||
-      prevStateRef.current.previousValue !== calculatorState.previousValue;
+      prevStateRef.current.previousValue !== calculatorState.previousValue ||
+      prevStateRef.current.memory !== calculatorState.memory;
 
     if (stateChanged && !calculatorState.error) {
       undoRedo.pushState(calculatorState);
@@ -112,24 +309,116 @@ export default function CalculatorScreen() {
     }
   }, [calculatorState, undoRedo.pushState]);
 
+  const isAlgebraic = settings.entryMode === 'algebraic';
+  const currency = getCurrency(settings.currency);
+  const { numberLocale, digitGrouping } = settings;
+  const numberFormat = useMemo(
+    () => getNumberFormat({ numberLocale, digitGrouping }),
+    [numberLocale, digitGrouping]
+  );
+
+  /**
+   * Save a finished calculation to the tape (and the balance in checkbook mode)
+   * Operands come from the chain steps; algebraic expressions keep only the printed expression
+   */
+  const recordCalculation = (
+    expression: string,
+    result: number,
+    displayResult: string,
+    details: Partial<Pick<NewHistoryEntry, 'kind' | 'operation' | 'steps' | 'itemCount'>> = {}
+  ) => {
+    saveCalculationToHistory({
+      kind: 'calculation',
+      operation: null,
+      operands: details.steps?.map((step) => step.operand) ?? [],
+      ...details,
+      expression,
+      result,
+      displayResult,
+      mode: settings.mode,
+      currencySymbol: currency.symbol,
+      precision: CalculatorEngine.getDecimalPlacesForMode(settings.mode, currency),
+    })
+      .then((newItem) => {
+        if (newItem) {
+          sounds.playPrinter();
+          setHistory((prevHistory: CalculationHistory[]) => [newItem, ...prevHistory]);
+          if (settings.mode === 'checkbook') {
+            saveLastBalance(result);
+          }
+        }
+      })
+      .catch((error) => console.error('Error saving to history:', error));
+  };
+
+  /**
+   * Apply a key to the editable expression (algebraic entry)
+   * The expression string is the source of truth; display mirrors it while typing
+   */
+  const handleExpressionKey = (key: string) => {
+    setCalculatorState((prev: CalculatorState) => {
+      let source = prev.expression;
+
+      if (prev.error) {
+        source = '';
+      } else if (prev.waitingForOperand) {
+        // After "=", numbers start a new expression and operators continue from the result
+        source = /^[\d.(]$/.test(key)
+          ? ''
+          : CalculatorEngine.getDisplayDecimal(prev.display).toString();
+      }
+
+      const expression = appendToExpression(source, key, settings.mode, currency);
+      return {
+        ...clearedState(prev),
+        display: expression || '0',
+        expression,
+      };
+    });
+  };
+
+  /**
+   * Edit the expression source directly (algebraic backspace and clear entry)
+   */
+  const editExpression = (edit: (source: string) => string) => {
+    setCalculatorState((prev: CalculatorState) => {
+      if (prev.error || prev.waitingForOperand) {
+        return prev;
+      }
+
+      const expression = edit(prev.expression);
+      return {
+        ...prev,
+        display: expression || '0',
+        expression,
+      };
+    });
+  };
+
   /**
    * Handle number button press
    */
   const handleNumberPress = (digit: string) => {
+    if (isAlgebraic) {
+      handleExpressionKey(digit);
+      return;
+    }
+
     setCalculatorState((prev: CalculatorState) => {
       if (prev.error) {
         return {
-          ...INITIAL_CALCULATOR_STATE,
+          ...clearedState(prev),
           display: digit,
           waitingForOperand: false,
         };
       }
 
-      if (prev.waitingForOperand) {
+      if (prev.waitingForOperand || prev.entryComplete) {
         return {
           ...prev,
           display: digit,
           waitingForOperand: false,
+          entryComplete: false,
         };
       }
 
@@ -137,8 +426,7 @@ export default function CalculatorScreen() {
         ? digit
         : prev.display + digit;
 
-      const potentialValue = CalculatorEngine.getDisplayValue(potentialDisplay);
-      if (Math.abs(potentialValue) > 999999999.99) {
+      if (!CalculatorEngine.isValidEntry(potentialDisplay, settings.mode, currency)) {
         return prev;
       }
 
@@ -153,19 +441,28 @@ export default function CalculatorScreen() {
    * Handle decimal point press
    */
   const handleDecimal = () => {
+    // Whole-unit currencies (JPY, KRW) have no fractions to enter in checkbook mode
+    if (CalculatorEngine.getDecimalPlacesForMode(settings.mode, currency) === 0) return;
+
+    if (isAlgebraic) {
+      handleExpressionKey('.');
+      return;
+    }
+
     setCalculatorState((prev: CalculatorState) => {
       if (prev.error) {
         return {
-          ...INITIAL_CALCULATOR_STATE,
+          ...clearedState(prev),
           display: '0.',
         };
       }
 
-      if (prev.waitingForOperand) {
+      if (prev.waitingForOperand || prev.entryComplete) {
         return {
           ...prev,
           display: '0.',
           waitingForOperand: false,
+          entryComplete: false,
         };
       }
 
@@ -180,64 +477,327 @@ export default function CalculatorScreen() {
     });
   };
 
+  /**
+   * Apply a binary operator to the immediate-entry chain, calculating the pending one first
+   */
+  const applyOperator = (prev: CalculatorState, newOperation: Operation): CalculatorState => {
+    if (prev.error) {
+      return prev;
+    }
+
+    const currentValue = CalculatorEngine.getDisplayDecimal(prev.display);
+    const operatorSymbol = newOperation || '';
+
+    // If we have a previous value and operation, calculate first
+    if (prev.previousValue !== null && prev.operation && !prev.waitingForOperand) {
+      const calculation = CalculatorEngine.calculate(
+        prev.previousValue,
+        prev.operation,
+        currentValue,
+        settings.mode,
+        currency
+      );
+
+      if (calculation.error) {
+        return failedState(prev, calculation);
+      }
+
+      const { result } = calculation;
+
+      const displayResult = CalculatorEngine.formatForDisplay(result, settings.mode, currency);
+      const newExpression = `${displayResult} ${operatorSymbol}`;
+
+      return {
+        ...prev,
+        display: displayResult,
+        expression: newExpression,
+        previousValue: result,
+        operation: newOperation,
+        waitingForOperand: true,
+        entryComplete: false,
+        error: false,
+        errorCode: null,
+        itemCount: prev.itemCount + 1,
+        chain: extendChain(prev, currentValue.toNumber(), result),
+      };
+    }
+
+    // No previous value yet, store current value
+    const newExpression = `${prev.display} ${operatorSymbol}`;
+    return {
+      ...prev,
+      previousValue: currentValue.toNumber(),
+      expression: newExpression,
+      operation: newOperation,
+      waitingForOperand: true,
+      entryComplete: false,
+      error: false,
+      errorCode: null,
+      itemCount: prev.itemCount + (prev.waitingForOperand ? 0 : 1),
+      // Changing the operator or continuing from "=" keeps the open chain
+      chain: prev.waitingForOperand && prev.chain.length > 0
+        ? prev.chain
+        : [{ operation: null, operand: currentValue.toNumber(), result: currentValue.toNumber() }],
+    };
+  };
+
+  /**
+   * Put a value on the display as a finished entry, the way MR does
+   */
+  const enterValue = (prev: CalculatorState, value: Decimal): CalculatorState => ({
+    ...(prev.error ? clearedState(prev) : prev),
+    display: CalculatorEngine.formatForDisplay(value.toNumber(), settings.mode, currency),
+    waitingForOperand: false,
+    entryComplete: true,
+  });
+
   /**
    * Handle operator button press
    */
   const handleOperatorPress = (op: string) => {
-    const newOperation = op as Operation;
+    if (isAlgebraic) {
+      handleExpressionKey(op);
+      return;
+    }
+
+    const newOperation = (SCIENTIFIC_OPERATOR_KEYS[op] ?? op) as Operation;
+    setCalculatorState((prev: CalculatorState) => applyOperator(prev, newOperation));
+  };
+
+  /**
+   * Handle parenthesis press (algebraic entry only)
+   */
+  const handleParenthesis = (paren: '(' | ')') => {
+    handleExpressionKey(paren);
+  };
+
+  /**
+   * Handle percent press
+   * Immediate entry works like an adding machine: after + or − the entry becomes that percent of
+   * the running value (200 + 10 % → 200 + 20); otherwise it is divided by 100
+   */
+  const handlePercent = () => {
+    if (isAlgebraic) {
+      handleExpressionKey('%');
+      return;
+    }
+
+    setCalculatorState((prev: CalculatorState) => {
+      if (prev.error) return prev;
+
+      const currentValue = CalculatorEngine.getDisplayDecimal(prev.display);
+      const base = prev.previousValue !== null && (prev.operation === '+' || prev.operation === '-')
+        ? prev.previousValue
+        : 1;
+      const calculation = CalculatorEngine.calculate(
+        currentValue.times(base),
+        '÷',
+        100,
+        settings.mode,
+        currency
+      );
+
+      if (calculation.error) {
+        return failedState(prev, calculation);
+      }
+
+      return {
+        ...prev,
+        display: CalculatorEngine.formatForDisplay(calculation.result, settings.mode, currency),
+        waitingForOperand: false,
+        entryComplete: true,
+      };
+    });
+  };
+
+  /**
+   * Show a failed result as an error
+   * An overflow keeps the clamped maximum on the (hidden) display so "use max value" can restore it
+   */
+  const failedState = (prev: CalculatorState, failure: CalculationResult): CalculatorState => ({
+    ...prev,
+    error: true,
+    errorCode: failure.errorCode,
+    display: failure.errorCode === 'overflow' && failure.result !== 0
+      ? CalculatorEngine.formatForDisplay(failure.result, settings.mode, currency)
+      : '0',
+    expression: '',
+  });
+
+  /**
+   * Add a finished result to the grand total register
+   */
+  const addToGrandTotal = (grandTotal: number, result: number): CalculationResult => {
+    return CalculatorEngine.calculate(grandTotal, '+', result, settings.mode, currency);
+  };
+
+  /**
+   * Get the running value of the chain so far without ending it (◇ and *)
+   */
+  const getRunningTotal = (prev: CalculatorState): CalculationResult => {
+    const currentValue = CalculatorEngine.getDisplayDecimal(prev.display);
 
+    if (prev.previousValue !== null && prev.operation) {
+      return prev.waitingForOperand
+        ? { result: prev.previousValue, error: false, errorCode: null }
+        : CalculatorEngine.calculate(
+            prev.previousValue,
+            prev.operation,
+            currentValue,
+            settings.mode,
+            currency
+          );
+    }
+
+    return {
+      result: CalculatorEngine.roundToMode(currentValue, settings.mode, currency).toNumber(),
+      error: false,
+      errorCode: null,
+    };
+  };
+
+  /**
+   * Handle subtotal (◇) - print the running total to the tape and keep the chain open
+   */
+  const handleSubtotal = () => {
     setCalculatorState((prev: CalculatorState) => {
       if (prev.error) {
         return prev;
       }
 
-      const currentValue = CalculatorEngine.getDisplayValue(prev.display);
-      const operatorSymbol = newOperation || '';
-
-      // If we have a previous value and operation, calculate first
-      if (prev.previousValue !== null && prev.operation && !prev.waitingForOperand) {
-        const { result, error, errorMessage } = CalculatorEngine.calculate(
-          prev.previousValue,
-          prev.operation,
-          currentValue,
-          settings.mode
-        );
-
-        if (error) {
-          return {
-            ...prev,
-            error: true,
-            errorMessage,
-            display: '0',
-            expression: '',
-          };
-        }
+      const runningTotal = getRunningTotal(prev);
+      if (runningTotal.error) {
+        return failedState(prev, runningTotal);
+      }
 
-        const displayResult = CalculatorEngine.formatForDisplay(result, settings.mode);
-        const newExpression = `${displayResult} ${operatorSymbol}`;
+      const { result } = runningTotal;
 
-        return {
-          ...prev,
-          display: displayResult,
-          expression: newExpression,
-          previousValue: result,
-          operation: newOperation,
-          waitingForOperand: true,
-          error: false,
-          errorMessage: '',
-        };
+      const itemCount = prev.itemCount + (prev.waitingForOperand ? 0 : 1);
+      const chain = prev.waitingForOperand
+        ? prev.chain
+        : extendChain(prev, CalculatorEngine.getDisplayDecimal(prev.display).toNumber(), result);
+      const displayResult = CalculatorEngine.formatForDisplay(result, settings.mode, currency);
+      recordCalculation(`${displayResult} ◇`, result, displayResult, {
+        kind: 'subtotal',
+        steps: chain,
+        itemCount,
+      });
+
+      return {
+        ...prev,
+        display: displayResult,
+        expression: `${displayResult} ◇`,
+        previousValue: result,
+        // The next entry continues the chain with the same operator
+        operation: prev.operation ?? '+',
+        waitingForOperand: true,
+        entryComplete: false,
+        itemCount,
+        chain,
+      };
+    });
+  };
+
+  /**
+   * Handle total (*) - print the total, add it to GT and close the chain
+   */
+  const handleTotal = () => {
+    setCalculatorState((prev: CalculatorState) => {
+      if (prev.error) {
+        return prev;
+      }
+
+      const runningTotal = getRunningTotal(prev);
+      const { result } = runningTotal;
+      const entered = !prev.waitingForOperand;
+
+      // A finished "=" result is already in GT; only add chains that are still open
+      const grandTotal = prev.operation !== null || entered
+        ? addToGrandTotal(prev.grandTotal, result)
+        : { result: prev.grandTotal, error: false, errorCode: null };
+
+      if (runningTotal.error || grandTotal.error) {
+        return failedState(prev, runningTotal.error ? runningTotal : grandTotal);
       }
 
-      // No previous value yet, store current value
-      const newExpression = `${prev.display} ${operatorSymbol}`;
+      const itemCount = prev.itemCount + (entered ? 1 : 0);
+      const chain = entered
+        ? extendChain(prev, CalculatorEngine.getDisplayDecimal(prev.display).toNumber(), result)
+        : prev.chain;
+      const displayResult = CalculatorEngine.formatForDisplay(result, settings.mode, currency);
+      recordCalculation(`${displayResult} *`, result, displayResult, {
+        kind: 'total',
+        steps: chain,
+        itemCount,
+      });
+
       return {
         ...prev,
-        previousValue: currentValue,
-        expression: newExpression,
-        operation: newOperation,
+        display: displayResult,
+        expression: `${displayResult} *`,
+        previousValue: null,
+        operation: null,
         waitingForOperand: true,
+        entryComplete: false,
+        grandTotal: grandTotal.result,
+        itemCount: 0,
+        chain: [],
+      };
+    });
+  };
+
+  /**
+   * Handle GT - recall the grand total into the display
+   */
+  const handleGrandTotalRecall = () => {
+    setCalculatorState((prev: CalculatorState) => ({
+      ...(prev.error ? clearedState(prev) : prev),
+      display: CalculatorEngine.formatForDisplay(prev.grandTotal, settings.mode, currency),
+      waitingForOperand: false,
+      entryComplete: true,
+    }));
+  };
+
+  /**
+   * Evaluate the full algebraic expression with precedence
+   */
+  const handleAlgebraicEquals = () => {
+    setCalculatorState((prev: CalculatorState) => {
+      if (prev.error || prev.waitingForOperand || prev.expression === '') {
+        return prev;
+      }
+
+      const evaluation = evaluateExpression(
+        prev.expression,
+        settings.mode,
+        settings.angleUnit,
+        currency
+      );
+
+      if (evaluation.error) {
+        return { ...failedState(prev, evaluation), waitingForOperand: true };
+      }
+
+      const { result } = evaluation;
+      const grandTotal = addToGrandTotal(prev.grandTotal, result);
+      if (grandTotal.error) {
+        return { ...failedState(prev, grandTotal), waitingForOperand: true };
+      }
+
+      const displayResult = CalculatorEngine.formatForDisplay(result, settings.mode, currency);
+      recordCalculation(prev.expression, result, displayResult);
+
+      return {
+        ...prev,
+        grandTotal: grandTotal.result,
+        display: displayResult,
+        expression: `${prev.expression} = ${displayResult}`,
+        previousValue: result,
+        operation: null,
+        waitingForOperand: true,
+        entryComplete: false,
         error: false,
-        errorMessage: '',
+        errorCode: null,
       };
     });
   };
@@ -246,31 +806,32 @@ export default function CalculatorScreen() {
    * Handle equals button press and save to history
    */
   const handleEquals = () => {
+    if (isAlgebraic) {
+      handleAlgebraicEquals();
+      return;
+    }
+
     setCalculatorState((prev: CalculatorState) => {
       if (prev.error || prev.operation === null || prev.previousValue === null) {
         return prev;
       }
 
-      const currentValue = CalculatorEngine.getDisplayValue(prev.display);
-      const { result, error, errorMessage } = CalculatorEngine.calculate(
+      const currentValue = CalculatorEngine.getDisplayDecimal(prev.display);
+      const calculation = CalculatorEngine.calculate(
         prev.previousValue,
         prev.operation,
         currentValue,
-        settings.mode
+        settings.mode,
+        currency
       );
 
-      if (error) {
-        return {
-          ...prev,
-          error: true,
-          errorMessage,
-          display: '0',
-          expression: '',
-          waitingForOperand: true,
-        };
+      const { result } = calculation;
+      const grandTotal = calculation.error ? calculation : addToGrandTotal(prev.grandTotal, result);
+      if (grandTotal.error) {
+        return { ...failedState(prev, grandTotal), waitingForOperand: true };
       }
 
-      const displayResult = CalculatorEngine.formatForDisplay(result, settings.mode);
+      const displayResult = CalculatorEngine.formatForDisplay(result, settings.mode, currency);
       const fullExpression = `${prev.expression} ${prev.display} = ${displayResult}`;
 
       // Save to history asynchronously
@@ -278,19 +839,14 @@ export default function CalculatorScreen() {
         prev.previousValue,
         prev.operation,
         currentValue,
-        settings.currencySymbol
+        currency
       );
 
-      saveCalculationToHistory(expression, result, displayResult)
-        .then((newItem) => {
-          if (newItem) {
-            setHistory((prevHistory: CalculationHistory[]) => [newItem, ...prevHistory]);
-            if (settings.mode === 'checkbook') {
-              saveLastBalance(result);
-            }
-          }
-        })
-        .catch((error) => console.error('Error saving to history:', error));
+      const chain = extendChain(prev, currentValue.toNumber(), result);
+      recordCalculation(expression, result, displayResult, {
+        operation: prev.operation,
+        steps: chain,
+      });
 
       return {
         ...prev,
@@ -299,18 +855,210 @@ export default function CalculatorScreen() {
         previousValue: result,
         operation: null,
         waitingForOperand: true,
+        entryComplete: false,
         error: false,
-        errorMessage: '',
+        errorCode: null,
+        grandTotal: grandTotal.result,
+        itemCount: prev.itemCount + (prev.waitingForOperand ? 0 : 1),
+        chain,
+      };
+    });
+  };
+
+  /**
+   * Handle scientific function key (sin, log, x², n!, ...)
+   * Immediate entry applies it to the displayed value right away
+   */
+  const handleFunctionPress = (key: string) => {
+    if (isAlgebraic) {
+      handleExpressionKey(key);
+      return;
+    }
+
+    setCalculatorState((prev: CalculatorState) => {
+      if (prev.error) {
+        return prev;
+      }
+
+      const application = CalculatorEngine.applyFunction(
+        SCIENTIFIC_FUNCTION_KEYS[key],
+        CalculatorEngine.getDisplayDecimal(prev.display),
+        settings.mode,
+        settings.angleUnit
+      );
+
+      if (application.error) {
+        return failedState(prev, application);
+      }
+
+      const { result } = application;
+
+      return {
+        ...prev,
+        display: CalculatorEngine.formatForDisplay(result, settings.mode, currency),
+        waitingForOperand: false,
+        entryComplete: true,
       };
     });
   };
 
+  /**
+   * Handle constant key (π, e)
+   */
+  const handleConstantPress = (key: string) => {
+    if (isAlgebraic) {
+      handleExpressionKey(key);
+      return;
+    }
+
+    setCalculatorState((prev: CalculatorState) => ({
+      ...(prev.error ? clearedState(prev) : prev),
+      display: SCIENTIFIC_CONSTANTS[key as keyof typeof SCIENTIFIC_CONSTANTS]
+        .toFixed(CalculatorEngine.getDecimalPlacesForMode(settings.mode, currency)),
+      waitingForOperand: false,
+      entryComplete: true,
+    }));
+  };
+
+  /**
+   * Handle DRG key - cycle degrees, radians and grads
+   */
+  const handleAngleUnitToggle = () => {
+    setSettings((prev: AppSettings) => ({
+      ...prev,
+      angleUnit: ANGLE_UNITS[(ANGLE_UNITS.indexOf(prev.angleUnit) + 1) % ANGLE_UNITS.length],
+    }));
+  };
+
+  /**
+   * Update memory as part of calculator state so it takes part in undo/redo
+   * The displayed value becomes a finished entry, so the next digit starts a new number
+   */
+  const updateMemory = (
+    update: (memory: MemoryState, displayValue: string) => MemoryState | CalculationResult
+  ) => {
+    setCalculatorState((prev: CalculatorState) => {
+      if (prev.error) {
+        return prev;
+      }
+
+      const displayValue = CalculatorEngine.getDisplayDecimal(prev.display).toString();
+      const memory = update(prev.memory, displayValue);
+
+      if ('error' in memory) {
+        return failedState(prev, memory);
+      }
+
+      return {
+        ...prev,
+        memory,
+        waitingForOperand: false,
+        entryComplete: true,
+      };
+    });
+  };
+
+  /**
+   * Handle memory keys (MC, MR, M−, M+)
+   */
+  const handleMemoryPress = (key: string) => {
+    if (key === 'MR') {
+      setCalculatorState((prev: CalculatorState) => ({
+        ...(prev.error ? clearedState(prev) : prev),
+        display: CalculatorEngine.formatForDisplay(prev.memory.value, settings.mode, currency),
+        waitingForOperand: false,
+        entryComplete: true,
+      }));
+      return;
+    }
+
+    updateMemory((memory, displayValue) => {
+      if (key === 'MC') {
+        return { ...memory, value: 0 };
+      }
+
+      const calculation = CalculatorEngine.calculate(
+        memory.value,
+        key === 'M+' ? '+' : '-',
+        displayValue,
+        settings.mode,
+        currency
+      );
+      return calculation.error ? calculation : { ...memory, value: calculation.result };
+    });
+  };
+
+  /**
+   * Store the displayed value in a named register
+   */
+  const handleRegisterStore = (name: string) => {
+    updateMemory((memory, displayValue) => ({
+      ...memory,
+      registers: { ...memory.registers, [name]: Number(displayValue) },
+    }));
+  };
+
+  /**
+   * Recall a named register into the display
+   */
+  const handleRegisterRecall = (name: string) => {
+    setCalculatorState((prev: CalculatorState) => ({
+      ...(prev.error ? clearedState(prev) : prev),
+      display: CalculatorEngine.formatForDisplay(
+        prev.memory.registers[name] ?? 0,
+        settings.mode,
+        currency
+      ),
+      waitingForOperand: false,
+      entryComplete: true,
+    }));
+    setShowMemoryRegisters(false);
+  };
+
+  /**
+   * Remove a named register
+   */
+  const handleRegisterDelete = (name: string) => {
+    updateMemory((memory) => {
+      const { [name]: _removed, ...registers } = memory.registers;
+      return { ...memory, registers };
+    });
+  };
+
+  /**
+   * Handle REG - open the register form with the displayed amount
+   * Negative values default to a debit; an expression still being typed posts nothing
+   */
+  const handleRegisterPost = () => {
+    if (calculatorState.error) return;
+
+    const value = Decimal.parse(calculatorState.display) ?? Decimal.ZERO;
+    setRegisterDraft(
+      createTransactionDraft(
+        CalculatorEngine.roundToMode(value.abs(), 'checkbook', currency).toNumber(),
+        value.isNegative() ? 'withdrawal' : 'deposit'
+      )
+    );
+  };
+
+  const handleRegisterSave = async (transaction: NewRegisterTransaction) => {
+    // The form stays open with what was typed if the register couldn't be saved
+    if (await saveRegisterTransaction(transaction)) {
+      setRegisterDraft(null);
+    }
+  };
+
   /**
    * Handle backspace
    */
   const handleBackspace = () => {
+    if (isAlgebraic) {
+      editExpression(backspaceExpression);
+      return;
+    }
+
     setCalculatorState((prev: CalculatorState) => {
-      if (prev.error || prev.waitingForOperand) {
+      if (prev.error || prev.waitingForOperand || prev.entryComplete) {
         return prev;
       }
 
@@ -326,32 +1074,44 @@ export default function CalculatorScreen() {
    * Handle Clear (C) - Clear current input
    */
   const handleClear = () => {
+    if (isAlgebraic) {
+      editExpression(clearExpressionEntry);
+      return;
+    }
+
     setCalculatorState((prev: CalculatorState) => ({
       ...prev,
       display: '0',
       waitingForOperand: true,
       error: false,
-      errorMessage: '',
+      errorCode: null,
     }));
   };
 
   /**
-   * Handle All Clear (AC) - Reset everything
+   * Handle All Clear (AC) - Reset everything except memory, including the grand total
    */
   const handleAllClear = () => {
-    setCalculatorState(INITIAL_CALCULATOR_STATE);
+    setCalculatorState((prev: CalculatorState) => ({
+      ...INITIAL_CALCULATOR_STATE,
+      memory: prev.memory,
+    }));
   };
 
   /**
    * Handle positive/negative toggle
    */
   const handleNegative = () => {
+    if (isAlgebraic) {
+      editExpression(toggleExpressionSign);
+      return;
+    }
+
     setCalculatorState((prev: CalculatorState) => {
       if (prev.error) return prev;
 
-      const value = CalculatorEngine.getDisplayValue(prev.display);
-      const toggled = -value;
-      const display = toggled === 0 ? '0' : toggled.toString();
+      const value = CalculatorEngine.getDisplayDecimal(prev.display);
+      const display = value.isZero() ? '0' : value.negate().toString();
 
       return {
         ...prev,
@@ -397,29 +1157,179 @@ export default function CalculatorScreen() {
     }
   };
 
+  /**
+   * Apply a change from the settings sheet right away
+   * A new mode is held until the sheet closes, then goes through handleModeChange
+   */
+  const handleSettingsChange = (newSettings: AppSettings) => {
+    const { mode, ...rest } = newSettings;
+    setPendingMode(mode === settings.mode ? null : mode);
+    setSettings((prev: AppSettings) => ({ ...prev, ...rest }));
+
+    if (newSettings.retentionDays !== settings.retentionDays) {
+      autoCleanupHistory(newSettings.retentionDays).then(async (removed) => {
+        if (removed > 0) {
+          const page = await getHistoryPage();
+          setHistory(page.entries);
+          setHistoryCursor(page.nextCursor);
+        }
+      });
+    }
+  };
+
+  const handleSettingsClose = () => {
+    setShowSettings(false);
+    if (pendingMode) {
+      handleModeChange(pendingMode);
+      setPendingMode(null);
+    }
+  };
+
+  /**
+   * Reload stored data after a backup was restored from settings
+   */
+  const handleRestore = async () => {
+    const [{ settings: loadedSettings, status }, page, memory] = await Promise.all([
+      loadStoredSettings(),
+      getHistoryPage(),
+      getMemory(),
+    ]);
+    unsavableSettingsRef.current = status === 'loaded' ? null : loadedSettings;
+    setPendingMode(null);
+    setSettings(loadedSettings);
+    setHistory(page.entries);
+    setHistoryCursor(page.nextCursor);
+    setCalculatorState((prev: CalculatorState) => ({ ...prev, memory }));
+  };
+
   /**
    * Handle history item selection
    */
+  const handleLoadMoreHistory = async () => {
+    if (historyCursor === null || loadingMoreHistory) return;
+
+    setLoadingMoreHistory(true);
+    const page = await getHistoryPage(historyCursor);
+    setHistory((prevHistory: CalculationHistory[]) => [...prevHistory, ...page.entries]);
+    setHistoryCursor(page.nextCursor);
+    setLoadingMoreHistory(false);
+  };
+
   const handleHistoryItemSelect = (item: CalculationHistory) => {
-    setCalculatorState({
+    setCalculatorState((prev: CalculatorState) => ({
+      ...prev,
       display: item.displayResult,
       expression: item.expression,
       previousValue: null,
       operation: null,
+      chain: [],
       waitingForOperand: true,
+      entryComplete: false,
       error: false,
-      errorMessage: '',
+      errorCode: null,
+    }));
+  };
+
+  /**
+   * Offer the displayed value for copying, or a paste in its place
+   */
+  const handleDisplayLongPress = () => {
+    const { display, expression } = calculatorState;
+    setClipboardValue({
+      raw: Decimal.parse(display)?.toString() ?? display,
+      formatted: formatExpressionText(expression.includes('=') ? expression : display, numberFormat),
+      fromDisplay: true,
     });
   };
 
+  /**
+   * Offer a tape entry's result for copying
+   */
+  const handleHistoryItemLongPress = (item: CalculationHistory) => {
+    setClipboardValue({
+      raw: Decimal.from(item.result).toString(),
+      formatted: formatNumberText(item.displayResult, numberFormat),
+      fromDisplay: false,
+    });
+  };
+
+  /**
+   * Paste amounts from the clipboard: one becomes the entry, a column is added up as a chain
+   * Text that isn't a number is reported with the line it's on
+   */
+  const handlePaste = async () => {
+    const pasted = parsePastedNumbers(await readClipboard(), numberFormat, settings.mode, currency);
+
+    if (pasted.error) {
+      const detailKey = pasted.error === 'overflow' ? 'paste.tooLarge' : 'paste.invalidLine';
+      setAppError({
+        code: pasted.error,
+        detail: pasted.line === 0
+          ? t('paste.empty')
+          : t(detailKey, { line: pasted.line, text: pasted.text }),
+      });
+      return;
+    }
+
+    const { values } = pasted;
+
+    if (isAlgebraic) {
+      setCalculatorState((prev: CalculatorState) => {
+        // After "=" the pasted values start a new expression
+        const source = prev.error || prev.waitingForOperand ? '' : prev.expression;
+        const expression = pasteIntoExpression(source, values, settings.mode, currency);
+        return {
+          ...clearedState(prev),
+          display: expression || '0',
+          expression,
+        };
+      });
+      return;
+    }
+
+    setCalculatorState((prev: CalculatorState) =>
+      values.slice(1).reduce(
+        (state, value) => (state.error ? state : enterValue(applyOperator(state, '+'), value)),
+        enterValue(prev, values[0])
+      )
+    );
+  };
+
+  /**
+   * Handle error modal dismiss - clear the error but keep the grand total
+   */
+  const handleErrorDismiss = () => {
+    if (calculatorState.error) {
+      setCalculatorState(clearedState);
+    } else {
+      setAppError(null);
+    }
+  };
+
   /**
    * Handle error modal undo
    */
   const handleErrorUndo = () => {
-    handleAllClear();
+    handleErrorDismiss();
     handleUndo();
   };
 
+  /**
+   * Handle error modal "use max value" - continue from the largest displayable value
+   * failedState left it on the display with the overflowing result's sign
+   */
+  const handleErrorUseMaxValue = () => {
+    setCalculatorState((prev: CalculatorState) => ({
+      ...clearedState(prev),
+      display: prev.display,
+      entryComplete: true,
+    }));
+  };
+
+  const activeErrorCode = calculatorState.error
+    ? calculatorState.errorCode
+    : appError?.code ?? null;
+
   // Calculate responsive heights for 3-section layout
   const historyHeight = Math.max(screenHeight * 0.25, 120); // 25% of screen, min 120px
   const displayHeight = Platform.select({ web: 140, default: 120 }); // Fixed display height
@@ -476,8 +1386,13 @@ export default function CalculatorScreen() {
           <ReceiptTape
             history={history}
             onHistoryItemSelect={handleHistoryItemSelect}
+            onHistoryItemLongPress={handleHistoryItemLongPress}
             isLoading={historyLoading}
+            hasMore={historyCursor !== null}
+            isLoadingMore={loadingMoreHistory}
+            onLoadMore={handleLoadMoreHistory}
             mode={settings.mode}
+            numberFormat={numberFormat}
           />
         </View>
 
@@ -486,11 +1401,17 @@ export default function CalculatorScreen() {
           <Display
             value={calculatorState.display}
             expression={calculatorState.expression}
-            error={calculatorState.error}
-            errorMessage={calculatorState.errorMessage}
+            errorCode={calculatorState.errorCode}
             lcdColor={settings.lcdColor}
             mode={settings.mode}
-            currencySymbol={settings.currencySymbol}
+            currencyCode={currency.code}
+            numberFormat={numberFormat}
+            angleUnit={settings.angleUnit}
+            memoryActive={calculatorState.memory.value !== 0}
+            grandTotalActive={calculatorState.grandTotal !== 0}
+            itemCount={calculatorState.itemCount}
+            onSettingsPress={() => setShowSettings(true)}
+            onLongPress={handleDisplayLongPress}
           />
         </View>
 
@@ -498,35 +1419,114 @@ export default function CalculatorScreen() {
         <View style={styles.buttonSection}>
           <ButtonGrid
             mode={settings.mode}
+            entryMode={settings.entryMode}
+            layout={getKeypad(
+              settings.keypadLayouts[settings.mode],
+              settings.mode,
+              settings.entryMode
+            )}
             onNumberPress={handleNumberPress}
             onDecimalPress={handleDecimal}
             onOperatorPress={handleOperatorPress}
             onEqualsPress={handleEquals}
+            onParenthesisPress={handleParenthesis}
+            onPercentPress={handlePercent}
+            onFunctionPress={handleFunctionPress}
+            onConstantPress={handleConstantPress}
+            onAngleUnitToggle={handleAngleUnitToggle}
+            onMemoryPress={handleMemoryPress}
+            onMemoryRegistersPress={() => setShowMemoryRegisters(true)}
+            onSubtotalPress={handleSubtotal}
+            onTotalPress={handleTotal}
+            onGrandTotalPress={handleGrandTotalRecall}
+            onRegisterPress={handleRegisterPost}
             onClear={handleClear}
             onAllClear={handleAllClear}
             onBackspace={handleBackspace}
             onUndo={handleUndo}
             onRedo={handleRedo}
+            onKeyPress={() => sounds.playButtonTap()}
             onNegativeToggle={handleNegative}
             canUndo={undoRedo.canUndo()}
             canRedo={undoRedo.canRedo()}
+            decimalMark={numberFormat.decimal}
+            keyBindings={settings.keyBindings}
+            keyboardEnabled={
+              screenFocused &&
+              activeErrorCode === null &&
+              !showSettings &&
+              !showModeWarning &&
+              !showMemoryRegisters &&
+              clipboardValue === null &&
+              registerDraft === null
+            }
           />
         </View>
       </View>
 
       {/* Error Modal */}
       <ErrorModal
-        visible={calculatorState.error}
-        errorMessage={calculatorState.errorMessage}
-        onDismiss={handleAllClear}
-        onUndo={handleErrorUndo}
-        showUndoButton={true}
+        visible={activeErrorCode !== null}
+        errorCode={activeErrorCode}
+        detail={calculatorState.error ? undefined : appError?.detail}
+        onDismiss={handleErrorDismiss}
+        onUndo={calculatorState.error ? handleErrorUndo : undefined}
+        onClear={calculatorState.error ? handleErrorDismiss : undefined}
+        onUseMaxValue={
+          calculatorState.error && calculatorState.display !== '0'
+            ? handleErrorUseMaxValue
+            : undefined
+        }
+      />
+
+      {/* Copy and paste, from a long press on the display or a tape entry */}
+      <ClipboardMenu
+        visible={clipboardValue !== null}
+        preview={clipboardValue?.formatted ?? ''}
+        onCopyValue={() => copyToClipboard(clipboardValue?.raw ?? '')}
+        onCopyFormatted={() => copyToClipboard(clipboardValue?.formatted ?? '')}
+        onPaste={clipboardValue?.fromDisplay ? handlePaste : undefined}
+        onClose={() => setClipboardValue(null)}
+      />
+
+      {/* Named Memory Registers */}
+      <MemoryRegistersModal
+        visible={showMemoryRegisters}
+        registers={calculatorState.memory.registers}
+        currentValue={calculatorState.display}
+        mode={settings.mode}
+        currency={currency}
+        onStore={handleRegisterStore}
+        onRecall={handleRegisterRecall}
+        onDelete={handleRegisterDelete}
+        onClose={() => setShowMemoryRegisters(false)}
+      />
+
+      {/* Post display value to the checkbook register */}
+      <TransactionForm
+        visible={registerDraft !== null}
+        title={t('register.postTitle')}
+        transaction={registerDraft ?? createTransactionDraft()}
+        currency={currency}
+        decimalMark={numberFormat.decimal}
+        onSave={handleRegisterSave}
+        onClose={() => setRegisterDraft(null)}
+      />
+
+      {/* Settings */}
+      <SettingsModal
+        visible={showSettings}
+        settings={{ ...settings, mode: pendingMode ?? settings.mode }}
+        onSettingsChange={handleSettingsChange}
+        onRestore={handleRestore}
+        onClose={handleSettingsClose}
       />
 
       {/* Mode Switch Warning */}
       <ModeSwitch
         visible={showModeWarning}
         newMode={newMode}
+        currency={currency}
         onDismiss={() => {
           setShowModeWarning(false);
           setSettings((prev: AppSettings) => ({ ...prev, mode: newMode }));
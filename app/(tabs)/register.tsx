@@ -0,0 +1,257 @@
+/**
+ * Checkbook Register Screen
+ * Dated transactions with payee, check number, category and running balance
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, Text, FlatList, Pressable, StatusBar, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+// Components
+import { RegisterItem } from '@/components/register/RegisterItem';
+import { TransactionForm } from '@/components/register/TransactionForm';
+
+// Utils and constants
+import { CalculatorEngine } from '@/utils/calculator';
+import { getCurrency } from '@/utils/currency';
+import { getNumberFormat } from '@/utils/numberFormat';
+import {
+  createTransactionDraft,
+  getRegisterBalance,
+  withRunningBalances,
+} from '@/utils/register';
+import {
+  loadSettings,
+  getRegister,
+  saveRegisterTransaction,
+  updateRegisterTransaction,
+  deleteRegisterTransaction,
+} from '@/utils/storage';
+import { useTranslation } from '@/hooks/useTranslation';
+import { RetroColors } from '@/constants/Colors';
+import { NewRegisterTransaction, RegisterTransaction } from '@/types/calculator';
+import { DEFAULT_CURRENCY_CODE } from '@/constants/calculator';
+
+export default function RegisterScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const [transactions, setTransactions] = useState<RegisterTransaction[]>([]);
+  const [currency, setCurrency] = useState(getCurrency(DEFAULT_CURRENCY_CODE));
+  const [decimalMark, setDecimalMark] = useState('.');
+  const [isLoading, setIsLoading] = useState(true);
+  const [formVisible, setFormVisible] = useState(false);
+  const [editing, setEditing] = useState<RegisterTransaction | null>(null);
+  const [draft, setDraft] = useState<NewRegisterTransaction>(() => createTransactionDraft());
+
+  // Reload on focus so transactions posted from the calculator keypad show up
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+
+      const load = async () => {
+        const [settings, register] = await Promise.all([loadSettings(), getRegister()]);
+        if (active) {
+          setCurrency(getCurrency(settings.currency));
+          setDecimalMark(getNumberFormat(settings).decimal);
+          setTransactions(register);
+          setIsLoading(false);
+        }
+      };
+
+      load();
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
+  // Newest first, like the receipt tape
+  const entries = useMemo(() => withRunningBalances(transactions).reverse(), [transactions]);
+  const balance = getRegisterBalance(transactions);
+
+  const handleAdd = () => {
+    setEditing(null);
+    setDraft(createTransactionDraft());
+    setFormVisible(true);
+  };
+
+  // Reconciled transactions are locked
+  const handleEdit = (transaction: RegisterTransaction) => {
+    if (transaction.status === 'reconciled') return;
+
+    setEditing(transaction);
+    setDraft(transaction);
+    setFormVisible(true);
+  };
+
+  const handleSave = async (transaction: NewRegisterTransaction) => {
+    if (editing) {
+      const updated = { ...transaction, id: editing.id };
+      await updateRegisterTransaction(updated);
+      setTransactions((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } else {
+      const saved = await saveRegisterTransaction(transaction);
+      if (saved) {
+        setTransactions((prev) => [...prev, saved]);
+      }
+    }
+    setFormVisible(false);
+  };
+
+  const handleDelete = async () => {
+    if (!editing) return;
+    await deleteRegisterTransaction(editing.id);
+    setTransactions((prev) => prev.filter((item) => item.id !== editing.id));
+    setFormVisible(false);
+  };
+
+  const styles = StyleSheet.create({
+    safeArea: {
+      flex: 1,
+      backgroundColor: RetroColors.casingBeige,
+    },
+    container: {
+      flex: 1,
+      backgroundColor: RetroColors.casingBeige,
+      paddingHorizontal: 12,
+      paddingTop: 8,
+      paddingBottom: 8,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      backgroundColor: RetroColors.lcdBackground,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      marginBottom: 12,
+    },
+    headerLabel: {
+      fontSize: 12,
+      color: RetroColors.lcdAmber,
+      fontFamily: 'monospace',
+      letterSpacing: 1,
+    },
+    headerBalance: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: balance < 0 ? RetroColors.errorRed : RetroColors.lcdAmber,
+      fontFamily: 'monospace',
+    },
+    list: {
+      flex: 1,
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+    },
+    emptyText: {
+      fontSize: 12,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      fontStyle: 'italic',
+      textAlign: 'center',
+      marginTop: 24,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+    },
+    addButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      alignItems: 'center',
+    },
+    addButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <StatusBar
+        barStyle="dark-content"
+        backgroundColor={RetroColors.casingBeige}
+      />
+
+      <View style={styles.container}>
+        {/* Current balance */}
+        <View style={styles.header}>
+          <Text style={styles.headerLabel}>{t('register.balance')}</Text>
+          <Text style={styles.headerBalance}>
+            {CalculatorEngine.formatCurrency(balance, currency)}
+          </Text>
+        </View>
+
+        {/* Transactions */}
+        <FlatList
+          style={styles.list}
+          data={entries}
+          keyExtractor={(entry) => entry.id}
+          renderItem={({ item }) => (
+            <RegisterItem
+              entry={item}
+              currency={currency}
+              onPress={() => handleEdit(item)}
+            />
+          )}
+          ListEmptyComponent={
+            isLoading ? null : (
+              <Text style={styles.emptyText}>{t('register.empty')}</Text>
+            )
+          }
+        />
+
+        <View style={styles.actions}>
+          <Pressable style={styles.addButton} onPress={handleAdd}>
+            <Text style={styles.addButtonText}>{t('register.add')}</Text>
+          </Pressable>
+          <Pressable style={styles.addButton} onPress={() => router.push('/import')}>
+            <Text style={styles.addButtonText}>{t('register.import')}</Text>
+          </Pressable>
+          <Pressable style={styles.addButton} onPress={() => router.push('/reconcile')}>
+            <Text style={styles.addButtonText}>{t('register.reconcile')}</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      <TransactionForm
+        visible={formVisible}
+        title={editing ? t('register.editTitle') : t('register.newTitle')}
+        transaction={draft}
+        currency={currency}
+        decimalMark={decimalMark}
+        onSave={handleSave}
+        onDelete={editing ? handleDelete : undefined}
+        onClose={() => setFormVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
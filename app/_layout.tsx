@@ -4,6 +4,13 @@ import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useTranslation } from '@/hooks/useTranslation';
+import { STORAGE_BACKEND } from '@/constants/calculator';
+import { setStorageBackend } from '@/utils/storage';
+import { createStorageBackend } from '@/utils/storageBackends';
+
+// Pick the store before any screen loads history or settings
+setStorageBackend(createStorageBackend(STORAGE_BACKEND));
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -11,12 +18,15 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const { t } = useTranslation();
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="reconcile" options={{ title: t('nav.reconcile') }} />
+        <Stack.Screen name="import" options={{ title: t('nav.import') }} />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
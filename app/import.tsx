@@ -0,0 +1,647 @@
+/**
+ * Import Screen
+ * Load a bank file (QIF, OFX or CSV), preview every line with its errors and the balance impact, then commit
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  ScrollView,
+  Pressable,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { File } from 'expo-file-system';
+
+// Utils and constants
+import { CalculatorEngine } from '@/utils/calculator';
+import { getCurrency } from '@/utils/currency';
+import { Decimal } from '@/utils/decimal';
+import { formatDateOnly } from '@/utils/dateFormatter';
+import { getRegisterBalance } from '@/utils/register';
+import {
+  detectImportFormat,
+  getHistoryDuplicateKeys,
+  getRegisterDuplicateKeys,
+  markDuplicates,
+  parseImport,
+  summarizeImport,
+  toHistoryEntry,
+  toRegisterTransaction,
+} from '@/utils/bankImport';
+import {
+  loadSettings,
+  getRegister,
+  getHistory,
+  getCsvMapping,
+  saveCsvMapping,
+  saveRegisterTransactions,
+  importHistoryEntries,
+} from '@/utils/storage';
+import { useTranslation } from '@/hooks/useTranslation';
+import { RetroColors } from '@/constants/Colors';
+import { DEFAULT_CSV_MAPPING, DEFAULT_CURRENCY_CODE } from '@/constants/calculator';
+import {
+  CsvColumnMapping,
+  ImportFormat,
+  ImportLineError,
+  ImportParseResult,
+  ImportTarget,
+  ImportedTransaction,
+  RegisterTransaction,
+} from '@/types/calculator';
+
+type ImportStep = 'source' | 'preview';
+
+// Parsed transactions and errors interleaved in file order
+type PreviewLine =
+  | { kind: 'transaction'; line: number; transaction: ImportedTransaction }
+  | { kind: 'error'; line: number; error: ImportLineError };
+
+const FORMAT_OPTIONS: (ImportFormat | 'auto')[] = ['auto', 'qif', 'ofx', 'csv'];
+
+const DELIMITER_OPTIONS = [
+  [',', 'comma'],
+  [';', 'semicolon'],
+  ['\t', 'tab'],
+] as const;
+
+// Column fields of the CSV mapping, in the order they are shown
+const MAPPING_COLUMNS = [
+  'date',
+  'payee',
+  'amount',
+  'debit',
+  'credit',
+  'checkNumber',
+  'memo',
+] as const;
+
+export default function ImportScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const [step, setStep] = useState<ImportStep>('source');
+  const [target, setTarget] = useState<ImportTarget>('register');
+  const [formatChoice, setFormatChoice] = useState<ImportFormat | 'auto'>('auto');
+  const [mapping, setMapping] = useState<CsvColumnMapping>(DEFAULT_CSV_MAPPING);
+  const [text, setText] = useState('');
+  const [register, setRegister] = useState<RegisterTransaction[]>([]);
+  const [currency, setCurrency] = useState(getCurrency(DEFAULT_CURRENCY_CODE));
+  const [result, setResult] = useState<ImportParseResult | null>(null);
+  const [inputError, setInputError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const [settings, transactions, savedMapping] = await Promise.all([
+        loadSettings(),
+        getRegister(),
+        getCsvMapping(),
+      ]);
+      setCurrency(getCurrency(settings.currency));
+      setRegister(transactions);
+      setMapping(savedMapping);
+    };
+    load();
+  }, []);
+
+  const formatAmount = (value: number) => CalculatorEngine.formatCurrency(value, currency);
+
+  const detectedFormat = formatChoice === 'auto' ? detectImportFormat(text) : formatChoice;
+
+  const previewLines = useMemo((): PreviewLine[] => {
+    if (!result) return [];
+    return [
+      ...result.transactions.map(
+        (transaction): PreviewLine => ({ kind: 'transaction', line: transaction.line, transaction })
+      ),
+      ...result.errors.map((error): PreviewLine => ({ kind: 'error', line: error.line, error })),
+    ].sort((a, b) => a.line - b.line);
+  }, [result]);
+
+  const summary = summarizeImport(result?.transactions ?? []);
+
+  /**
+   * Let the user pick a bank file; its text replaces whatever was pasted
+   */
+  const handlePickFile = async () => {
+    try {
+      const picked = await File.pickFileAsync();
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (file) {
+        setText(await file.text());
+        setInputError('');
+      }
+    } catch (error) {
+      console.error('Error picking import file:', error);
+      setInputError(t('import.unreadableFile'));
+    }
+  };
+
+  const updateColumn = (key: keyof CsvColumnMapping, value: string) => {
+    const column = parseInt(value, 10);
+    setMapping((prev) => ({ ...prev, [key]: Number.isNaN(column) ? 0 : Math.max(0, column) }));
+  };
+
+  /**
+   * Parse the file and flag lines that are already in the register or tape
+   */
+  const handlePreview = async () => {
+    if (!text.trim()) {
+      setInputError(t('import.noText'));
+      return;
+    }
+
+    if (detectedFormat === 'csv') {
+      saveCsvMapping(mapping);
+    }
+
+    const parsed = parseImport(text, detectedFormat, mapping);
+    const existingKeys =
+      target === 'register'
+        ? getRegisterDuplicateKeys(register)
+        : getHistoryDuplicateKeys(await getHistory());
+
+    setInputError('');
+    setResult({ ...parsed, transactions: markDuplicates(parsed.transactions, existingKeys) });
+    setStep('preview');
+  };
+
+  /**
+   * Save the new lines to the register or tape; on failure the preview stays open with the error
+   */
+  const handleImport = async () => {
+    if (!result || summary.count === 0) return;
+
+    setIsImporting(true);
+    try {
+      const included = result.transactions.filter((item) => !item.duplicate);
+      const saved =
+        target === 'register'
+          ? (await saveRegisterTransactions(
+              included.map((item) => toRegisterTransaction(item, currency))
+            )).length
+          : await importHistoryEntries(included.map((item) => toHistoryEntry(item, currency)));
+      if (saved < included.length) {
+        throw new Error(`Saved ${saved} of ${included.length} imported lines`);
+      }
+      router.back();
+    } catch (error) {
+      console.error('Error importing bank lines:', error);
+      setInputError(t('import.saveFailed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    safeArea: {
+      flex: 1,
+      backgroundColor: RetroColors.casingBeige,
+    },
+    container: {
+      flex: 1,
+      backgroundColor: RetroColors.casingBeige,
+      paddingHorizontal: 12,
+      paddingTop: 8,
+      paddingBottom: 8,
+    },
+    scrollContent: {
+      paddingHorizontal: 12,
+      paddingTop: 8,
+      paddingBottom: 8,
+    },
+    lcd: {
+      backgroundColor: RetroColors.lcdBackground,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      marginBottom: 12,
+    },
+    lcdRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    lcdLabel: {
+      fontSize: 12,
+      color: RetroColors.lcdAmber,
+      fontFamily: 'monospace',
+      letterSpacing: 1,
+    },
+    lcdValue: {
+      fontSize: 14,
+      color: RetroColors.lcdAmber,
+      fontFamily: 'monospace',
+    },
+    label: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginBottom: 4,
+      marginTop: 10,
+    },
+    buttonGroup: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    optionButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      backgroundColor: RetroColors.buttonBeige,
+      alignItems: 'center',
+    },
+    optionButtonActive: {
+      backgroundColor: RetroColors.buttonBrown,
+    },
+    optionButtonText: {
+      fontSize: 11,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+    },
+    optionButtonTextActive: {
+      color: RetroColors.textLight,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    fileInput: {
+      minHeight: 140,
+      textAlignVertical: 'top',
+      fontSize: 11,
+    },
+    pickRow: {
+      flexDirection: 'row',
+      marginBottom: 8,
+    },
+    columnGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    columnField: {
+      width: 72,
+    },
+    hint: {
+      fontSize: 10,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      marginTop: 4,
+    },
+    inputError: {
+      fontSize: 12,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginTop: 12,
+      textAlign: 'center',
+    },
+    list: {
+      flex: 1,
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+    },
+    item: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: RetroColors.paperDots,
+    },
+    itemDuplicate: {
+      opacity: 0.45,
+    },
+    lineNumber: {
+      width: 36,
+      fontSize: 10,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+    },
+    itemText: {
+      flex: 1,
+      fontSize: 12,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    itemAmount: {
+      fontSize: 12,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    errorText: {
+      flex: 1,
+      fontSize: 12,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+    },
+    actionButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      alignItems: 'center',
+    },
+    actionButtonDisabled: {
+      opacity: 0.4,
+    },
+    actionButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  // Step 2: every line of the file, then the totals that would be added
+  if (step === 'preview' && result) {
+    const balance = getRegisterBalance(register);
+
+    return (
+      <SafeAreaView style={styles.safeArea} edges={['bottom']}>
+        <View style={styles.container}>
+          <View style={styles.lcd}>
+            <View style={styles.lcdRow}>
+              <Text style={styles.lcdLabel}>
+                {t('import.counts', {
+                  format: result.format.toUpperCase(),
+                  count: summary.count,
+                  duplicates: summary.duplicates,
+                  errors: result.errors.length,
+                })}
+              </Text>
+            </View>
+            <View style={styles.lcdRow}>
+              <Text style={styles.lcdLabel}>{t('import.deposits')}</Text>
+              <Text style={styles.lcdValue}>{formatAmount(summary.deposits)}</Text>
+            </View>
+            <View style={styles.lcdRow}>
+              <Text style={styles.lcdLabel}>{t('import.withdrawals')}</Text>
+              <Text style={styles.lcdValue}>{formatAmount(summary.withdrawals)}</Text>
+            </View>
+            {target === 'register' ? (
+              <>
+                <View style={styles.lcdRow}>
+                  <Text style={styles.lcdLabel}>{t('import.balanceNow')}</Text>
+                  <Text style={styles.lcdValue}>{formatAmount(balance)}</Text>
+                </View>
+                <View style={styles.lcdRow}>
+                  <Text style={styles.lcdLabel}>{t('import.afterImport')}</Text>
+                  <Text style={styles.lcdValue}>{formatAmount(Decimal.from(balance).plus(summary.net).toNumber())}</Text>
+                </View>
+              </>
+            ) : (
+              <View style={styles.lcdRow}>
+                <Text style={styles.lcdLabel}>{t('import.netChange')}</Text>
+                <Text style={styles.lcdValue}>{formatAmount(summary.net)}</Text>
+              </View>
+            )}
+          </View>
+
+          <FlatList
+            style={styles.list}
+            data={previewLines}
+            keyExtractor={(item, index) => `${item.kind}-${item.line}-${index}`}
+            renderItem={({ item }) =>
+              item.kind === 'error' ? (
+                <View style={styles.item}>
+                  <Text style={styles.lineNumber}>{t('import.line', { line: item.line })}</Text>
+                  <Text style={styles.errorText}>{item.error.message}</Text>
+                </View>
+              ) : (
+                <View style={[styles.item, item.transaction.duplicate && styles.itemDuplicate]}>
+                  <Text style={styles.lineNumber}>{t('import.line', { line: item.line })}</Text>
+                  <Text style={styles.itemText} numberOfLines={1}>
+                    {item.transaction.duplicate && `${t('import.duplicate')} `}
+                    {formatDateOnly(item.transaction.date)}{' '}
+                    {item.transaction.checkNumber && `#${item.transaction.checkNumber} `}
+                    {item.transaction.payee}
+                  </Text>
+                  <Text style={styles.itemAmount}>
+                    {item.transaction.amount > 0 ? '+' : '−'}
+                    {formatAmount(Math.abs(item.transaction.amount))}
+                  </Text>
+                </View>
+              )
+            }
+          />
+
+          {inputError !== '' && <Text style={styles.inputError}>{inputError}</Text>}
+
+          <View style={styles.actions}>
+            <Pressable
+              style={styles.actionButton}
+              onPress={() => {
+                setInputError('');
+                setStep('source');
+              }}
+            >
+              <Text style={styles.actionButtonText}>{t('import.back')}</Text>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.actionButton,
+                (summary.count === 0 || isImporting) && styles.actionButtonDisabled,
+              ]}
+              onPress={handleImport}
+              disabled={summary.count === 0 || isImporting}
+            >
+              <Text style={styles.actionButtonText}>
+                {t('import.import', { count: summary.count })}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Step 1: where the lines go, the file and how to read it
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <Text style={styles.label}>{t('import.target')}</Text>
+        <View style={styles.buttonGroup}>
+          {(['register', 'history'] as const).map((value) => (
+            <Pressable
+              key={value}
+              style={[styles.optionButton, target === value && styles.optionButtonActive]}
+              onPress={() => setTarget(value)}
+            >
+              <Text
+                style={[styles.optionButtonText, target === value && styles.optionButtonTextActive]}
+              >
+                {t(`import.target.${value}`)}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.label}>{t('import.format')}</Text>
+        <View style={styles.buttonGroup}>
+          {FORMAT_OPTIONS.map((value) => (
+            <Pressable
+              key={value}
+              style={[styles.optionButton, formatChoice === value && styles.optionButtonActive]}
+              onPress={() => setFormatChoice(value)}
+            >
+              <Text
+                style={[
+                  styles.optionButtonText,
+                  formatChoice === value && styles.optionButtonTextActive,
+                ]}
+              >
+                {value === 'auto' ? t('import.format.auto') : value.toUpperCase()}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        {formatChoice === 'auto' && text.trim() !== '' && (
+          <Text style={styles.hint}>
+            {t('import.detected', { format: detectedFormat.toUpperCase() })}
+          </Text>
+        )}
+
+        {detectedFormat === 'csv' && (
+          <>
+            <Text style={styles.label}>{t('import.columns')}</Text>
+            <View style={styles.columnGrid}>
+              {MAPPING_COLUMNS.map((key) => (
+                <View key={key} style={styles.columnField}>
+                  <Text style={styles.hint}>{t(`import.column.${key}`)}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={String(mapping[key])}
+                    onChangeText={(value) => updateColumn(key, value)}
+                    keyboardType="number-pad"
+                    maxLength={2}
+                  />
+                </View>
+              ))}
+            </View>
+            <Text style={styles.hint}>{t('import.columnsHint')}</Text>
+
+            <Text style={styles.label}>{t('import.dateFormat')}</Text>
+            <TextInput
+              style={styles.input}
+              value={mapping.dateFormat}
+              onChangeText={(dateFormat) => setMapping((prev) => ({ ...prev, dateFormat }))}
+              placeholder="MM/dd/yyyy"
+              placeholderTextColor={RetroColors.textGray}
+              autoCapitalize="none"
+            />
+
+            <Text style={styles.label}>{t('import.delimiter')}</Text>
+            <View style={styles.buttonGroup}>
+              {DELIMITER_OPTIONS.map(([value, name]) => (
+                <Pressable
+                  key={name}
+                  style={[
+                    styles.optionButton,
+                    mapping.delimiter === value && styles.optionButtonActive,
+                  ]}
+                  onPress={() => setMapping((prev) => ({ ...prev, delimiter: value }))}
+                >
+                  <Text
+                    style={[
+                      styles.optionButtonText,
+                      mapping.delimiter === value && styles.optionButtonTextActive,
+                    ]}
+                  >
+                    {t(`import.delimiter.${name}`)}
+                  </Text>
+                </Pressable>
+              ))}
+              <Pressable
+                style={[styles.optionButton, mapping.hasHeader && styles.optionButtonActive]}
+                onPress={() => setMapping((prev) => ({ ...prev, hasHeader: !prev.hasHeader }))}
+              >
+                <Text
+                  style={[
+                    styles.optionButtonText,
+                    mapping.hasHeader && styles.optionButtonTextActive,
+                  ]}
+                >
+                  {t('import.headerRow')}
+                </Text>
+              </Pressable>
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>{t('import.contents')}</Text>
+        {Platform.OS !== 'web' && (
+          <View style={styles.pickRow}>
+            <Pressable style={styles.actionButton} onPress={handlePickFile}>
+              <Text style={styles.actionButtonText}>{t('import.pickFile')}</Text>
+            </Pressable>
+          </View>
+        )}
+        <TextInput
+          style={[styles.input, styles.fileInput]}
+          value={text}
+          onChangeText={setText}
+          placeholder={t('import.placeholder')}
+          placeholderTextColor={RetroColors.textGray}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        {inputError !== '' && <Text style={styles.inputError}>{inputError}</Text>}
+
+        <View style={styles.actions}>
+          <Pressable style={styles.actionButton} onPress={handlePreview}>
+            <Text style={styles.actionButtonText}>{t('import.preview')}</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
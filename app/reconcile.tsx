@@ -0,0 +1,441 @@
+/**
+ * Reconciliation Screen
+ * Guided statement reconciliation: enter the statement, tick cleared items, lock them when it balances
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  ScrollView,
+  Pressable,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { format, isValid, parse } from 'date-fns';
+
+// Components
+import { ReconciliationReportView } from '@/components/register/ReconciliationReport';
+
+// Utils and constants
+import { CalculatorEngine } from '@/utils/calculator';
+import { getCurrency } from '@/utils/currency';
+import { formatDateOnly } from '@/utils/dateFormatter';
+import { getNumberFormat, parseAmount } from '@/utils/numberFormat';
+import {
+  buildReconciliationReport,
+  getClearedBalance,
+  getClearedIds,
+  getReconcilableTransactions,
+  getReconciledBalance,
+  getReconciliationDifference,
+} from '@/utils/register';
+import {
+  loadSettings,
+  getRegister,
+  getReconciliationReports,
+  setTransactionsCleared,
+  completeReconciliation,
+} from '@/utils/storage';
+import { useTranslation } from '@/hooks/useTranslation';
+import { RetroColors } from '@/constants/Colors';
+import { ClearStatus, ReconciliationReport, RegisterTransaction } from '@/types/calculator';
+import { DEFAULT_CURRENCY_CODE } from '@/constants/calculator';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+type ReconcileStep = 'statement' | 'tick' | 'done';
+
+export default function ReconcileScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const [transactions, setTransactions] = useState<RegisterTransaction[]>([]);
+  const [lastReport, setLastReport] = useState<ReconciliationReport | null>(null);
+  const [currency, setCurrency] = useState(getCurrency(DEFAULT_CURRENCY_CODE));
+  const [step, setStep] = useState<ReconcileStep>('statement');
+  const [dateInput, setDateInput] = useState(() => format(new Date(), DATE_FORMAT));
+  const [balanceInput, setBalanceInput] = useState('');
+  const [decimalMark, setDecimalMark] = useState('.');
+  const [statementDate, setStatementDate] = useState(0);
+  const [statementBalance, setStatementBalance] = useState(0);
+  const [inputError, setInputError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      const [settings, register, reports] = await Promise.all([
+        loadSettings(),
+        getRegister(),
+        getReconciliationReports(),
+      ]);
+      setCurrency(getCurrency(settings.currency));
+      setDecimalMark(getNumberFormat(settings).decimal);
+      setTransactions(register);
+      setLastReport(reports[0] ?? null);
+    };
+    load();
+  }, []);
+
+  const formatAmount = (value: number) => CalculatorEngine.formatCurrency(value, currency);
+
+  const difference = getReconciliationDifference(statementBalance, transactions, statementDate);
+  const isBalanced = difference === 0;
+
+  /**
+   * Validate the statement details and move on to ticking items
+   */
+  const handleStart = () => {
+    const parsedDate = parse(dateInput.trim(), DATE_FORMAT, new Date());
+    if (!isValid(parsedDate)) {
+      setInputError(t('reconcile.invalidDate'));
+      return;
+    }
+
+    const parsedBalance = parseAmount(balanceInput, decimalMark);
+    if (
+      !parsedBalance ||
+      !CalculatorEngine.isValidEntry(parsedBalance.toString(), 'checkbook', currency)
+    ) {
+      setInputError(t('reconcile.invalidBalance', { count: currency.minorUnits }));
+      return;
+    }
+
+    setInputError('');
+    setStatementDate(parsedDate.getTime());
+    setStatementBalance(parsedBalance.toNumber());
+    setStep('tick');
+  };
+
+  /**
+   * Tick or untick an item; the cleared mark is saved right away so the work survives leaving the screen
+   * The tick is taken back if it couldn't be saved
+   */
+  const handleToggle = async (transaction: RegisterTransaction) => {
+    const cleared = transaction.status === 'uncleared';
+    const markItem = (status: ClearStatus) =>
+      setTransactions((prev) =>
+        prev.map((item) => (item.id === transaction.id ? { ...item, status } : item))
+      );
+
+    markItem(cleared ? 'cleared' : 'uncleared');
+    if (!(await setTransactionsCleared([transaction.id], cleared))) {
+      markItem(transaction.status);
+    }
+  };
+
+  /**
+   * Lock the cleared items and save the report once the difference is zero
+   * The items locked are exactly the ones ticked in the report
+   */
+  const handleFinish = async () => {
+    if (!isBalanced) return;
+
+    const report = await completeReconciliation(
+      buildReconciliationReport(transactions, statementDate, statementBalance),
+      getClearedIds(transactions, statementDate)
+    );
+    if (report) {
+      setLastReport(report);
+      setTransactions(await getRegister());
+      setStep('done');
+    }
+  };
+
+  const styles = StyleSheet.create({
+    safeArea: {
+      flex: 1,
+      backgroundColor: RetroColors.casingBeige,
+    },
+    container: {
+      flex: 1,
+      backgroundColor: RetroColors.casingBeige,
+      paddingHorizontal: 12,
+      paddingTop: 8,
+      paddingBottom: 8,
+    },
+    scrollContent: {
+      paddingHorizontal: 12,
+      paddingTop: 8,
+      paddingBottom: 8,
+    },
+    lcd: {
+      backgroundColor: RetroColors.lcdBackground,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      marginBottom: 12,
+    },
+    lcdRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    lcdLabel: {
+      fontSize: 12,
+      color: RetroColors.lcdAmber,
+      fontFamily: 'monospace',
+      letterSpacing: 1,
+    },
+    lcdValue: {
+      fontSize: 14,
+      color: RetroColors.lcdAmber,
+      fontFamily: 'monospace',
+    },
+    difference: {
+      fontSize: 22,
+      fontWeight: 'bold',
+      color: isBalanced ? RetroColors.successGreen : RetroColors.errorRed,
+      fontFamily: 'monospace',
+    },
+    label: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginBottom: 4,
+      marginTop: 10,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    inputError: {
+      fontSize: 12,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginTop: 12,
+      textAlign: 'center',
+    },
+    list: {
+      flex: 1,
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+    },
+    item: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: RetroColors.paperDots,
+    },
+    checkbox: {
+      fontSize: 18,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    itemText: {
+      flex: 1,
+      fontSize: 12,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    itemAmount: {
+      fontSize: 12,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    emptyText: {
+      fontSize: 12,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      fontStyle: 'italic',
+      textAlign: 'center',
+      marginTop: 24,
+    },
+    reportTitle: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginTop: 20,
+      marginBottom: 6,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+    },
+    actionButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      alignItems: 'center',
+    },
+    actionButtonDisabled: {
+      opacity: 0.4,
+    },
+    actionButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  // Step 3: the saved report
+  if (step === 'done' && lastReport) {
+    return (
+      <SafeAreaView style={styles.safeArea} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <ReconciliationReportView report={lastReport} currency={currency} />
+          <View style={styles.actions}>
+            <Pressable style={styles.actionButton} onPress={() => router.back()}>
+              <Text style={styles.actionButtonText}>{t('reconcile.done')}</Text>
+            </Pressable>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  // Step 2: tick the items that appear on the statement
+  if (step === 'tick') {
+    const items = getReconcilableTransactions(transactions, statementDate);
+
+    return (
+      <SafeAreaView style={styles.safeArea} edges={['bottom']}>
+        <View style={styles.container}>
+          <View style={styles.lcd}>
+            <View style={styles.lcdRow}>
+              <Text style={styles.lcdLabel}>{t('reconcile.statement')}</Text>
+              <Text style={styles.lcdValue}>{formatAmount(statementBalance)}</Text>
+            </View>
+            <View style={styles.lcdRow}>
+              <Text style={styles.lcdLabel}>{t('reconcile.cleared')}</Text>
+              <Text style={styles.lcdValue}>
+                {formatAmount(getClearedBalance(transactions, statementDate))}
+              </Text>
+            </View>
+            <View style={styles.lcdRow}>
+              <Text style={styles.lcdLabel}>{t('reconcile.difference')}</Text>
+              <Text style={styles.difference}>{formatAmount(difference)}</Text>
+            </View>
+          </View>
+
+          <FlatList
+            style={styles.list}
+            data={items}
+            keyExtractor={(item) => item.id}
+            renderItem={({ item }) => (
+              <Pressable style={styles.item} onPress={() => handleToggle(item)}>
+                <Text style={styles.checkbox}>{item.status === 'cleared' ? '☑' : '☐'}</Text>
+                <Text style={styles.itemText} numberOfLines={1}>
+                  {formatDateOnly(item.date)} {item.checkNumber && `#${item.checkNumber} `}
+                  {item.payee}
+                </Text>
+                <Text style={styles.itemAmount}>
+                  {item.type === 'deposit' ? '+' : '−'}
+                  {formatAmount(item.amount)}
+                </Text>
+              </Pressable>
+            )}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>{t('reconcile.empty')}</Text>
+            }
+          />
+
+          <View style={styles.actions}>
+            <Pressable style={styles.actionButton} onPress={() => setStep('statement')}>
+              <Text style={styles.actionButtonText}>{t('reconcile.back')}</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.actionButton, !isBalanced && styles.actionButtonDisabled]}
+              onPress={handleFinish}
+              disabled={!isBalanced}
+            >
+              <Text style={styles.actionButtonText}>{t('reconcile.finish')}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Step 1: statement date and ending balance
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.lcd}>
+          <View style={styles.lcdRow}>
+            <Text style={styles.lcdLabel}>{t('reconcile.openingBalance')}</Text>
+            <Text style={styles.lcdValue}>{formatAmount(getReconciledBalance(transactions))}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.label}>{t('reconcile.endingDate')}</Text>
+        <TextInput
+          style={styles.input}
+          value={dateInput}
+          onChangeText={setDateInput}
+          placeholder={t('reconcile.datePlaceholder')}
+          placeholderTextColor={RetroColors.textGray}
+          maxLength={10}
+        />
+
+        <Text style={styles.label}>
+          {t('reconcile.endingBalance', { symbol: currency.symbol })}
+        </Text>
+        <TextInput
+          style={styles.input}
+          value={balanceInput}
+          onChangeText={setBalanceInput}
+          placeholder={`0${decimalMark}00`}
+          placeholderTextColor={RetroColors.textGray}
+          keyboardType="numbers-and-punctuation"
+        />
+
+        {inputError !== '' && <Text style={styles.inputError}>{inputError}</Text>}
+
+        <View style={styles.actions}>
+          <Pressable style={styles.actionButton} onPress={handleStart}>
+            <Text style={styles.actionButtonText}>{t('reconcile.start')}</Text>
+          </Pressable>
+        </View>
+
+        {lastReport && (
+          <>
+            <Text style={styles.reportTitle}>{t('reconcile.lastReport')}</Text>
+            <ReconciliationReportView report={lastReport} currency={currency} />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
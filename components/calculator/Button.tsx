@@ -1,6 +1,7 @@
 /**
  * Retro 3D calculator button component
  * Features 1980s styling with raised/pressed effects
+ * A long press runs the key's second function, whose label is printed small above the caption
  */
 
 import React, { useState } from 'react';
@@ -13,30 +14,53 @@ import {
   Platform,
 } from 'react-native';
 import { RetroColors } from '@/constants/Colors';
-import { BUTTON_SIZE, BUTTON_GAP } from '@/constants/calculator';
+import { BUTTON_SIZE, BUTTON_GAP, BUTTON_HEIGHT_COMPACT_RATIO } from '@/constants/calculator';
 import { BUTTON_TYPES, BUTTON_CATEGORIES } from '@/constants/calculator';
 
 interface ButtonProps {
   label: string;
+  caption?: string; // Printed on the key instead of the label (the locale's decimal mark)
   onPress: () => void;
+  onLongPress?: () => void; // Second function
+  legend?: string; // Second function's label, printed small above the caption
   disabled?: boolean;
   type?: string;
+  compact?: boolean; // Shorter keys for the taller scientific keypad
+  depressed?: boolean; // Held down from a hardware keyboard
+  columns?: number; // Keys per row, for sizing
+}
+
+/**
+ * Width and height of a key on a keypad with the given number of columns
+ * Also sizes the gaps left by empty spaces in a custom keypad
+ */
+export function useButtonSize(columns: number = 5, compact: boolean = false) {
+  const { width: screenWidth } = useWindowDimensions();
+
+  // Calculate responsive button size with minimum fallback
+  const width = Math.max(
+    Math.min((screenWidth * 0.9) / columns, BUTTON_SIZE),
+    50 // minimum 50px to prevent invisible buttons on web
+  );
+
+  return { width, height: compact ? width * BUTTON_HEIGHT_COMPACT_RATIO : width };
 }
 
 export const Button: React.FC<ButtonProps> = ({
   label,
+  caption = label,
   onPress,
+  onLongPress,
+  legend,
   disabled = false,
   type,
+  compact = false,
+  depressed = false,
+  columns = 5,
 }) => {
-  const [pressed, setPressed] = useState(false);
-  const { width: screenWidth } = useWindowDimensions();
-
-  // Calculate responsive button size with minimum fallback
-  const responsiveButtonSize = Math.max(
-    Math.min(screenWidth * 0.18, BUTTON_SIZE),
-    50 // minimum 50px to prevent invisible buttons on web
-  );
+  const [touched, setTouched] = useState(false);
+  const pressed = touched || depressed;
+  const { width: responsiveButtonSize, height: buttonHeight } = useButtonSize(columns, compact);
 
   // Determine button category
   const buttonType = type || BUTTON_CATEGORIES[label as keyof typeof BUTTON_CATEGORIES] || BUTTON_TYPES.NUMBER;
@@ -101,7 +125,7 @@ export const Button: React.FC<ButtonProps> = ({
 
   const containerStyle: ViewStyle = {
     width: responsiveButtonSize,
-    height: responsiveButtonSize,
+    height: buttonHeight,
     marginRight: BUTTON_GAP / 2,
     marginLeft: BUTTON_GAP / 2,
     marginBottom: BUTTON_GAP,
@@ -137,23 +161,44 @@ export const Button: React.FC<ButtonProps> = ({
 
   const textStyle = {
     color: colors.textColor,
-    fontSize: Math.max(responsiveButtonSize * 0.4, 16),
+    // Multi-character labels (sin⁻¹, 10ˣ) need a smaller face to fit on one line
+    fontSize: caption.length > 2
+      ? Math.max(buttonHeight * 0.32, 12)
+      : Math.max(buttonHeight * 0.4, 16),
     fontWeight: 'bold' as const,
     fontFamily: 'monospace',
   };
 
+  const legendStyle = {
+    position: 'absolute' as const,
+    top: 1,
+    left: 0,
+    right: 0,
+    textAlign: 'center' as const,
+    color: colors.textColor,
+    opacity: 0.7,
+    fontSize: Math.max(buttonHeight * 0.18, 8),
+    fontFamily: 'monospace',
+  };
+
   return (
     <View style={containerStyle}>
       <Pressable
         style={buttonStyle}
         onPress={onPress}
-        onPressIn={() => setPressed(true)}
-        onPressOut={() => setPressed(false)}
+        onLongPress={onLongPress}
+        onPressIn={() => setTouched(true)}
+        onPressOut={() => setTouched(false)}
         disabled={disabled}
         android_ripple={{ color: 'rgba(0,0,0,0.1)' }}
       >
+        {legend && (
+          <Text style={legendStyle} numberOfLines={1}>
+            {legend}
+          </Text>
+        )}
         <Text style={textStyle} numberOfLines={1}>
-          {label}
+          {caption}
         </Text>
       </Pressable>
     </View>
@@ -1,49 +1,137 @@
 /**
  * Calculator button grid component
  * Displays buttons in a responsive grid layout
+ * Keys bound on a hardware keyboard press the matching button, which is drawn depressed
+ * A custom layout replaces the built-in keypad; its keys for the other entry style are disabled
+ * Second functions run on a long press, or on the next key after SHIFT
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { StyleSheet, View } from 'react-native';
-import { Button } from './Button';
-import { CHECKBOOK_LAYOUT, BUTTON_GAP } from '@/constants/calculator';
-import { CalculatorMode } from '@/types/calculator';
+import { Button, useButtonSize } from './Button';
+import { KeyboardInput } from './KeyboardInput';
+import {
+  BUTTON_LAYOUTS,
+  BUTTON_GAP,
+  MAX_FULL_SIZE_ROWS,
+  SCIENTIFIC_FUNCTION_KEYS,
+  SCIENTIFIC_OPERATOR_KEYS,
+} from '@/constants/calculator';
+import { CalculatorMode, EntryMode, KeyBindings, KeypadLayout } from '@/types/calculator';
+import { isKeyAvailable } from '@/utils/keypadLayout';
 
 interface ButtonGridProps {
   mode: CalculatorMode;
+  entryMode?: EntryMode;
+  layout?: KeypadLayout; // The built-in keypad for the mode when not given
   onNumberPress: (digit: string) => void;
   onDecimalPress: () => void;
   onOperatorPress: (op: string) => void;
   onEqualsPress: () => void;
+  onParenthesisPress?: (paren: '(' | ')') => void;
+  onPercentPress?: () => void;
+  onFunctionPress?: (key: string) => void;
+  onConstantPress?: (key: string) => void;
+  onAngleUnitToggle?: () => void;
+  onNegativeToggle?: () => void;
+  onMemoryPress?: (key: string) => void;
+  onMemoryRegistersPress?: () => void;
+  onSubtotalPress?: () => void;
+  onTotalPress?: () => void;
+  onGrandTotalPress?: () => void;
+  onRegisterPress?: () => void;
   onClear: () => void;
   onAllClear: () => void;
   onBackspace: () => void;
   onUndo: () => void;
   onRedo: () => void;
+  onKeyPress?: (label: string) => void; // Any key, before it is handled (key click sound)
   canUndo?: boolean;
   canRedo?: boolean;
+  decimalMark?: string; // Printed on the "." key
+  keyBindings?: KeyBindings;
+  keyboardEnabled?: boolean; // Off while something else has the user's attention
 }
 
 export const ButtonGrid: React.FC<ButtonGridProps> = ({
   mode,
+  entryMode = 'immediate',
+  layout,
   onNumberPress,
   onDecimalPress,
   onOperatorPress,
   onEqualsPress,
+  onParenthesisPress,
+  onPercentPress,
+  onFunctionPress,
+  onConstantPress,
+  onAngleUnitToggle,
+  onNegativeToggle,
+  onMemoryPress,
+  onMemoryRegistersPress,
+  onSubtotalPress,
+  onTotalPress,
+  onGrandTotalPress,
+  onRegisterPress,
   onClear,
   onAllClear,
   onBackspace,
   onUndo,
   onRedo,
+  onKeyPress,
   canUndo = false,
   canRedo = false,
+  decimalMark = '.',
+  keyBindings = {},
+  keyboardEnabled = false,
 }) => {
-  const buttonLayout = CHECKBOOK_LAYOUT; // Only checkbook mode now
+  const [keyboardPressed, setKeyboardPressed] = useState<string | null>(null);
+  const [shifted, setShifted] = useState(false);
+  const buttonLayout = layout?.rows ?? BUTTON_LAYOUTS[mode][entryMode];
+  const secondaryKeys = layout?.secondary ?? {};
+  const isCompact = buttonLayout.length > MAX_FULL_SIZE_ROWS;
+  const columns = Math.max(...buttonLayout.map((row) => row.length));
+  const buttonSize = useButtonSize(columns, isCompact);
+
+  // Second function of a key, if it has one that works in this entry style
+  const getSecondary = (label: string): string | undefined => {
+    const secondary = secondaryKeys[label];
+    return secondary && isKeyAvailable(secondary, entryMode) ? secondary : undefined;
+  };
 
   const handleButtonPress = (label: string) => {
-    const numValue = parseInt(label);
-    if (!isNaN(numValue)) {
+    if (label === 'SHIFT') {
+      onKeyPress?.(label);
+      setShifted((current) => !current);
+      return;
+    }
+
+    if (shifted) {
+      setShifted(false);
+      pressKey(getSecondary(label) ?? label);
+    } else {
+      pressKey(label);
+    }
+  };
+
+  const handleLongPress = (label: string) => {
+    setShifted(false);
+    pressKey(getSecondary(label) ?? label);
+  };
+
+  const pressKey = (label: string) => {
+    onKeyPress?.(label);
+
+    // Single digits only - labels like "10ˣ" and "1/x" are functions
+    if (/^\d$/.test(label)) {
       onNumberPress(label);
+    } else if (/^0+$/.test(label)) {
+      // "00" and "000" type their zeros one at a time
+      [...label].forEach(onNumberPress);
+    } else if (label in SCIENTIFIC_FUNCTION_KEYS) {
+      onFunctionPress?.(label);
+    } else if (label in SCIENTIFIC_OPERATOR_KEYS) {
+      onOperatorPress(label);
     } else {
       switch (label) {
         case '.':
@@ -58,6 +146,44 @@ export const ButtonGrid: React.FC<ButtonGridProps> = ({
         case '=':
           onEqualsPress();
           break;
+        case '(':
+        case ')':
+          onParenthesisPress?.(label);
+          break;
+        case '%':
+          onPercentPress?.();
+          break;
+        case 'π':
+        case 'e':
+          onConstantPress?.(label);
+          break;
+        case 'DRG':
+          onAngleUnitToggle?.();
+          break;
+        case '±':
+          onNegativeToggle?.();
+          break;
+        case 'MC':
+        case 'MR':
+        case 'M−':
+        case 'M+':
+          onMemoryPress?.(label);
+          break;
+        case 'M▾':
+          onMemoryRegistersPress?.();
+          break;
+        case '◇':
+          onSubtotalPress?.();
+          break;
+        case '*':
+          onTotalPress?.();
+          break;
+        case 'GT':
+          onGrandTotalPress?.();
+          break;
+        case 'REG':
+          onRegisterPress?.();
+          break;
         case 'C':
           onClear();
           break;
@@ -80,6 +206,23 @@ export const ButtonGrid: React.FC<ButtonGridProps> = ({
     }
   };
 
+  // Bound keys only press buttons that are on the current keypad, or second functions of them
+  // (so Delete still clears the entry when C is only on the ← key)
+  const handleKeyboardDown = (label: string) => {
+    if (!isKeyAvailable(label, entryMode)) return;
+
+    if (buttonLayout.some((row) => row.includes(label))) {
+      setKeyboardPressed(label);
+      handleButtonPress(label);
+    } else if (buttonLayout.some((row) => row.some((key) => getSecondary(key) === label))) {
+      pressKey(label);
+    }
+  };
+
+  const handleKeyboardUp = (label: string) => {
+    setKeyboardPressed((current) => (current === label ? null : current));
+  };
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -95,23 +238,41 @@ export const ButtonGrid: React.FC<ButtonGridProps> = ({
       // Removed flex: 0 which was collapsing buttons on web
       // Button component handles its own sizing internally
     },
+    // Empty space in a custom keypad, as wide as a key and its margins
+    gap: {
+      width: buttonSize.width + BUTTON_GAP,
+      height: buttonSize.height + BUTTON_GAP,
+    },
   });
 
   return (
     <View style={styles.container}>
+      <KeyboardInput
+        bindings={keyBindings}
+        enabled={keyboardEnabled}
+        onKeyDown={handleKeyboardDown}
+        onKeyUp={handleKeyboardUp}
+      />
       {buttonLayout.map((row, rowIndex) => (
         <View key={`row-${rowIndex}`} style={styles.row}>
           {row.map((label, colIndex) => {
-            // Skip empty button placeholders
+            // Empty spaces keep the keys after them in their columns
             if (label === '') {
-              return <View key={`empty-${rowIndex}-${colIndex}`} style={styles.buttonWrapper} />;
+              return <View key={`empty-${rowIndex}-${colIndex}`} style={styles.gap} />;
             }
             return (
               <View key={`button-${label}-${rowIndex}`} style={styles.buttonWrapper}>
                 <Button
                   label={label}
+                  caption={label === '.' ? decimalMark : label}
+                  compact={isCompact}
+                  columns={columns}
+                  depressed={keyboardPressed === label || (label === 'SHIFT' && shifted)}
+                  legend={getSecondary(label)}
                   onPress={() => handleButtonPress(label)}
+                  onLongPress={getSecondary(label) ? () => handleLongPress(label) : undefined}
                   disabled={
+                    !isKeyAvailable(label, entryMode) ||
                     (label === '⟲' && !canUndo) ||
                     (label === '⟳' && !canRedo)
                   }
@@ -0,0 +1,160 @@
+/**
+ * Clipboard menu, opened by a long press on the display or a tape entry
+ * Copies the value as a plain number or as shown, and pastes amounts into the display
+ */
+
+import React from 'react';
+import { StyleSheet, Modal, View, Text, Pressable, Platform } from 'react-native';
+import { RetroColors } from '@/constants/Colors';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ClipboardMenuProps {
+  visible: boolean;
+  preview: string; // The value as shown, printed at the top of the sheet
+  onCopyValue: () => void;
+  onCopyFormatted: () => void;
+  onPaste?: () => void; // Only the display takes pasted values
+  onClose: () => void;
+}
+
+export const ClipboardMenu: React.FC<ClipboardMenuProps> = ({
+  visible,
+  preview,
+  onCopyValue,
+  onCopyFormatted,
+  onPaste,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+
+  // Every option closes the sheet after running
+  const select = (action: () => void) => () => {
+    onClose();
+    action();
+  };
+
+  const styles = StyleSheet.create({
+    centeredView: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalView: {
+      backgroundColor: RetroColors.casingBeige,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      paddingBottom: 32,
+      borderTopWidth: 3,
+      borderTopColor: RetroColors.casingBrown,
+      gap: 10,
+    },
+    preview: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      fontSize: 16,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      textAlign: 'right',
+      marginBottom: 6,
+    },
+    option: {
+      backgroundColor: RetroColors.buttonGray,
+      borderRadius: 6,
+      paddingVertical: 12,
+      alignItems: 'center',
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+    },
+    optionText: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    hint: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+    },
+    closeButton: {
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      paddingHorizontal: 24,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      marginTop: 6,
+      alignItems: 'center',
+    },
+    closeButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.preview} numberOfLines={1}>
+            {preview}
+          </Text>
+
+          <Pressable style={styles.option} onPress={select(onCopyValue)}>
+            <Text style={styles.optionText}>{t('clipboard.copyValue')}</Text>
+          </Pressable>
+          <Pressable style={styles.option} onPress={select(onCopyFormatted)}>
+            <Text style={styles.optionText}>{t('clipboard.copyFormatted')}</Text>
+          </Pressable>
+          {onPaste && (
+            <>
+              <Pressable style={styles.option} onPress={select(onPaste)}>
+                <Text style={styles.optionText}>{t('clipboard.paste')}</Text>
+              </Pressable>
+              <Text style={styles.hint}>{t('clipboard.pasteHint')}</Text>
+            </>
+          )}
+
+          <Pressable style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>{t('clipboard.cancel')}</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ClipboardMenu;
@@ -1,37 +1,63 @@
 /**
  * LCD-style display component
- * Shows current calculation and error messages
+ * Shows current calculation, or a short error for the error code
+ * The ⚙ key in the annunciator row opens settings; a long press on the readout opens copy and paste
  */
 
 import React, { useMemo } from 'react';
-import { View, Text, useWindowDimensions, Platform } from 'react-native';
+import { View, Text, Pressable, useWindowDimensions, Platform } from 'react-native';
 import { RetroColors, AmberLcdPalette, GreenLcdPalette } from '@/constants/Colors';
-import { LcdColor, CalculatorMode } from '@/types/calculator';
+import {
+  LcdColor,
+  CalculatorErrorCode,
+  CalculatorMode,
+  AngleUnit,
+  NumberFormat,
+} from '@/types/calculator';
+import { formatExpressionText, PLAIN_NUMBER_FORMAT } from '@/utils/numberFormat';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface DisplayProps {
   value: string;
   expression?: string;
-  error: boolean;
-  errorMessage: string;
+  errorCode: CalculatorErrorCode | null;
   lcdColor?: LcdColor;
   mode?: CalculatorMode;
-  currencySymbol?: string;
+  currencyCode?: string;
+  numberFormat?: NumberFormat;
+  angleUnit?: AngleUnit;
+  memoryActive?: boolean;
+  grandTotalActive?: boolean;
+  itemCount?: number;
+  onSettingsPress?: () => void;
+  onLongPress?: () => void;
 }
 
 export const Display: React.FC<DisplayProps> = ({
   value,
   expression = '',
-  error,
-  errorMessage,
+  errorCode,
   lcdColor = 'amber',
   mode = 'checkbook',
-  currencySymbol = '$',
+  currencyCode = 'USD',
+  numberFormat = PLAIN_NUMBER_FORMAT,
+  angleUnit = 'deg',
+  memoryActive = false,
+  grandTotalActive = false,
+  itemCount = 0,
+  onSettingsPress,
+  onLongPress,
 }) => {
+  const { t } = useTranslation();
   const { width: screenWidth } = useWindowDimensions();
+  const error = errorCode !== null;
 
   // Show current value while typing, only show full expression after equals
   // Expression with "=" means calculation is complete, otherwise show current input
-  const displayContent = expression && expression.includes('=') ? expression : value;
+  const displayContent = formatExpressionText(
+    expression && expression.includes('=') ? expression : value,
+    numberFormat
+  );
 
   // Calculate font size based on screen width and content length
   const baseFontSize = Math.min(screenWidth * 0.1, 48);
@@ -39,7 +65,7 @@ export const Display: React.FC<DisplayProps> = ({
 
   const lcdPalette = lcdColor === 'amber' ? AmberLcdPalette : GreenLcdPalette;
 
-  const displayText = error ? errorMessage : displayContent;
+  const displayText = errorCode ? t(`error.display.${errorCode}`) : displayContent;
 
   // Memoize styles to prevent recreation on every render
   const styles = useMemo(() => ({
@@ -83,6 +109,25 @@ export const Display: React.FC<DisplayProps> = ({
       }),
       letterSpacing: 1,
     } as const,
+    annunciatorRow: {
+      flexDirection: 'row' as const,
+      gap: 8,
+      minHeight: 12,
+    },
+    annunciator: {
+      color: lcdPalette.display,
+      fontSize: 10,
+      fontFamily: 'monospace',
+      fontWeight: 'bold' as const,
+    },
+    settingsKey: {
+      marginLeft: 'auto' as const,
+    },
+    settingsKeyText: {
+      color: lcdPalette.display,
+      fontSize: 14,
+      opacity: 0.6,
+    },
     modeLabel: {
       color: lcdPalette.display,
       fontSize: 10,
@@ -94,16 +139,38 @@ export const Display: React.FC<DisplayProps> = ({
 
   return (
     <View style={styles.container}>
-      <Text
-        style={styles.displayText}
-        numberOfLines={2}
-        adjustsFontSizeToFit
-      >
-        {displayText}
-      </Text>
+      {/* LCD annunciators */}
+      <View style={styles.annunciatorRow}>
+        {memoryActive && <Text style={styles.annunciator}>M</Text>}
+        {grandTotalActive && <Text style={styles.annunciator}>GT</Text>}
+        {itemCount > 0 && (
+          <Text style={styles.annunciator}>#{String(itemCount).padStart(3, '0')}</Text>
+        )}
+        {onSettingsPress && (
+          <Pressable
+            style={styles.settingsKey}
+            onPress={onSettingsPress}
+            accessibilityLabel={t('display.settings')}
+            hitSlop={10}
+          >
+            <Text style={styles.settingsKeyText}>⚙</Text>
+          </Pressable>
+        )}
+      </View>
+      <Pressable onLongPress={onLongPress} disabled={!onLongPress || error}>
+        <Text
+          style={styles.displayText}
+          numberOfLines={2}
+          adjustsFontSizeToFit
+        >
+          {displayText}
+        </Text>
+      </Pressable>
       {!error && (
         <Text style={styles.modeLabel}>
-          {mode === 'checkbook' ? 'CHECKBOOK' : 'SCIENTIFIC'}
+          {mode === 'checkbook'
+            ? t('display.mode.checkbook', { currency: currencyCode })
+            : t('display.mode.scientific', { angle: angleUnit.toUpperCase() })}
         </Text>
       )}
     </View>
@@ -1,28 +1,43 @@
 /**
  * Error modal component
- * Displays user-friendly error messages with action buttons
+ * Displays user-friendly error messages with the recovery actions for the error's code
  */
 
 import React, { useEffect } from 'react';
 import { StyleSheet, Modal, View, Text, Pressable, Dimensions, Platform } from 'react-native';
 import { RetroColors } from '@/constants/Colors';
-import { ERROR_MESSAGE_TIMEOUT } from '@/constants/calculator';
+import { ERROR_MESSAGE_TIMEOUT, ERROR_RECOVERY_ACTIONS } from '@/constants/calculator';
+import { CalculatorErrorCode, ErrorRecoveryAction } from '@/types/calculator';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const ERROR_EMOJIS: Record<CalculatorErrorCode, string> = {
+  divideByZero: '⚠️',
+  overflow: '🚫',
+  domain: '∅',
+  invalidInput: 'ℹ️',
+  storage: '💾',
+};
 
 interface ErrorModalProps {
   visible: boolean;
-  errorMessage: string;
-  onDismiss: () => void;
+  errorCode: CalculatorErrorCode | null;
+  detail?: string; // Extra line under the message, e.g. which pasted line was rejected
+  onDismiss: () => void; // OK button, back button and auto-dismiss
   onUndo?: () => void;
-  showUndoButton?: boolean;
+  onClear?: () => void;
+  onUseMaxValue?: () => void;
 }
 
 export const ErrorModal: React.FC<ErrorModalProps> = ({
   visible,
-  errorMessage,
+  errorCode,
+  detail,
   onDismiss,
   onUndo,
-  showUndoButton = true,
+  onClear,
+  onUseMaxValue,
 }) => {
+  const { t } = useTranslation();
   const windowHeight = Dimensions.get('window').height;
 
   useEffect(() => {
@@ -36,13 +51,19 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
     }
   }, [visible, onDismiss]);
 
-  // Extract error type emoji and format message
-  const getErrorEmoji = () => {
-    if (errorMessage.includes('divide')) return '⚠️';
-    if (errorMessage.includes('large')) return '🚫';
-    return 'ℹ️';
+  const handlers: Record<ErrorRecoveryAction, (() => void) | undefined> = {
+    undo: onUndo,
+    clear: onClear,
+    useMaxValue: onUseMaxValue,
+    dismiss: onDismiss,
   };
 
+  // Only the actions this screen can carry out are shown; OK is left when none of them apply
+  const available = errorCode
+    ? ERROR_RECOVERY_ACTIONS[errorCode].filter((action) => handlers[action])
+    : [];
+  const actions: ErrorRecoveryAction[] = available.length > 0 ? available : ['dismiss'];
+
   const styles = StyleSheet.create({
     centeredView: {
       flex: 1,
@@ -95,8 +116,17 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
       textAlign: 'center',
       lineHeight: 20,
     },
+    detailText: {
+      fontSize: 13,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      marginTop: -12,
+      marginBottom: 24,
+      textAlign: 'center',
+    },
     buttonContainer: {
       flexDirection: 'row',
+      flexWrap: 'wrap',
       justifyContent: 'center',
       gap: 12,
     },
@@ -124,7 +154,7 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
         },
       }),
     },
-    undoButton: {
+    secondaryButton: {
       backgroundColor: RetroColors.buttonOrange,
     },
     buttonText: {
@@ -151,26 +181,32 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
     >
       <View style={styles.centeredView}>
         <View style={styles.modalView}>
-          <Text style={styles.emoji}>{getErrorEmoji()}</Text>
-          <Text style={styles.errorText}>Error</Text>
-          <Text style={styles.messageText}>{errorMessage}</Text>
+          {errorCode && (
+            <>
+              <Text style={styles.emoji}>{ERROR_EMOJIS[errorCode]}</Text>
+              <Text style={styles.errorText}>{t('error.title')}</Text>
+              <Text style={styles.messageText}>{t(`error.${errorCode}`)}</Text>
+              {detail && <Text style={styles.detailText}>{detail}</Text>}
+            </>
+          )}
 
           <View style={styles.buttonContainer}>
-            {showUndoButton && onUndo && (
+            {actions.map((action) => (
               <Pressable
-                style={[styles.button, styles.undoButton]}
-                onPress={onUndo}
+                key={action}
+                style={[
+                  styles.button,
+                  (action === 'undo' || action === 'useMaxValue') && styles.secondaryButton,
+                ]}
+                onPress={handlers[action]}
               >
-                <Text style={styles.buttonText}>UNDO</Text>
+                <Text style={styles.buttonText}>{t(`error.action.${action}`)}</Text>
               </Pressable>
-            )}
-            <Pressable style={styles.button} onPress={onDismiss}>
-              <Text style={styles.buttonText}>OK</Text>
-            </Pressable>
+            ))}
           </View>
 
           <Text style={styles.timerText}>
-            This message will close automatically in {ERROR_MESSAGE_TIMEOUT / 1000} seconds.
+            {t('error.autoClose', { count: ERROR_MESSAGE_TIMEOUT / 1000 })}
           </Text>
         </View>
       </View>
@@ -0,0 +1,335 @@
+/**
+ * Export history modal
+ * Pick a format and date range, then share the file (or download it on web)
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Dimensions,
+  Platform,
+} from 'react-native';
+import { isValid, parse, subDays } from 'date-fns';
+import { RetroColors } from '@/constants/Colors';
+import { NumberFormat } from '@/types/calculator';
+import { getHistory } from '@/utils/storage';
+import {
+  buildHistoryExport,
+  filterHistoryByDate,
+  shareExportFile,
+  ExportDateRange,
+  ExportFormat,
+} from '@/utils/export';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+type RangePreset = 'all' | 'today' | 'week' | 'month' | 'custom';
+
+const RANGE_PRESETS: RangePreset[] = ['all', 'today', 'week', 'month', 'custom'];
+
+interface ExportModalProps {
+  visible: boolean;
+  numberFormat?: NumberFormat; // How printed values (expression, displayResult) are written
+  onClose: () => void;
+}
+
+export const ExportModal: React.FC<ExportModalProps> = ({ visible, numberFormat, onClose }) => {
+  const { t } = useTranslation();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [preset, setPreset] = useState<RangePreset>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [message, setMessage] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const windowHeight = Dimensions.get('window').height;
+
+  useEffect(() => {
+    if (visible) {
+      setMessage('');
+    }
+  }, [visible]);
+
+  // Returns null when a custom date can't be parsed
+  const getRange = (): ExportDateRange | null => {
+    const now = Date.now();
+    switch (preset) {
+      case 'today':
+        return { from: now };
+      case 'week':
+        return { from: subDays(now, 6).getTime() };
+      case 'month':
+        return { from: subDays(now, 29).getTime() };
+      case 'custom': {
+        const range: ExportDateRange = {};
+        for (const [text, bound] of [
+          [from, 'from'],
+          [to, 'to'],
+        ] as const) {
+          if (!text.trim()) continue;
+          const date = parse(text.trim(), DATE_FORMAT, new Date());
+          if (!isValid(date)) return null;
+          range[bound] = date.getTime();
+        }
+        return range;
+      }
+      default:
+        return {};
+    }
+  };
+
+  const handleExport = async () => {
+    const range = getRange();
+    if (!range) {
+      setMessage(t('export.invalidDate'));
+      return;
+    }
+
+    setIsExporting(true);
+    const history = await getHistory();
+    if (filterHistoryByDate(history, range).length === 0) {
+      setMessage(t('export.empty'));
+      setIsExporting(false);
+      return;
+    }
+
+    const shared = await shareExportFile(buildHistoryExport(history, exportFormat, range, numberFormat));
+    setIsExporting(false);
+    if (shared) {
+      onClose();
+    } else {
+      setMessage(t('export.shareUnavailable'));
+    }
+  };
+
+  const styles = StyleSheet.create({
+    centeredView: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalView: {
+      backgroundColor: RetroColors.casingBeige,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      paddingBottom: 32,
+      maxHeight: windowHeight * 0.8,
+      borderTopWidth: 3,
+      borderTopColor: RetroColors.casingBrown,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginBottom: 4,
+      marginTop: 10,
+    },
+    buttonGroup: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    optionButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      backgroundColor: RetroColors.buttonBeige,
+      alignItems: 'center',
+    },
+    optionButtonActive: {
+      backgroundColor: RetroColors.buttonBrown,
+    },
+    optionButtonText: {
+      fontSize: 11,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+    },
+    optionButtonTextActive: {
+      color: RetroColors.textLight,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    rowField: {
+      flex: 1,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    message: {
+      fontSize: 12,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginTop: 12,
+      textAlign: 'center',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 16,
+    },
+    actionButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      alignItems: 'center',
+    },
+    actionButtonDisabled: {
+      opacity: 0.5,
+    },
+    actionButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.title}>{t('export.title')}</Text>
+
+          <Text style={styles.label}>{t('export.format')}</Text>
+          <View style={styles.buttonGroup}>
+            {(['csv', 'json'] as const).map((value) => (
+              <Pressable
+                key={value}
+                style={[styles.optionButton, exportFormat === value && styles.optionButtonActive]}
+                onPress={() => setExportFormat(value)}
+              >
+                <Text
+                  style={[
+                    styles.optionButtonText,
+                    exportFormat === value && styles.optionButtonTextActive,
+                  ]}
+                >
+                  {value.toUpperCase()}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.label}>{t('export.range')}</Text>
+          <View style={styles.buttonGroup}>
+            {RANGE_PRESETS.map((value) => (
+              <Pressable
+                key={value}
+                style={[styles.optionButton, preset === value && styles.optionButtonActive]}
+                onPress={() => setPreset(value)}
+              >
+                <Text
+                  style={[
+                    styles.optionButtonText,
+                    preset === value && styles.optionButtonTextActive,
+                  ]}
+                >
+                  {t(`export.range.${value}`)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {preset === 'custom' && (
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>{t('export.from')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={from}
+                  onChangeText={setFrom}
+                  placeholder={t('export.datePlaceholder')}
+                  placeholderTextColor={RetroColors.textGray}
+                  maxLength={10}
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>{t('export.to')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={to}
+                  onChangeText={setTo}
+                  placeholder={t('export.datePlaceholder')}
+                  placeholderTextColor={RetroColors.textGray}
+                  maxLength={10}
+                />
+              </View>
+            </View>
+          )}
+
+          {message !== '' && <Text style={styles.message}>{message}</Text>}
+
+          <View style={styles.actions}>
+            <Pressable style={styles.actionButton} onPress={onClose}>
+              <Text style={styles.actionButtonText}>{t('export.cancel')}</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.actionButton, isExporting && styles.actionButtonDisabled]}
+              onPress={handleExport}
+              disabled={isExporting}
+            >
+              <Text style={styles.actionButtonText}>
+                {Platform.OS === 'web' ? t('export.download') : t('export.share')}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ExportModal;
@@ -3,30 +3,66 @@
  * Displays a single calculation entry in the receipt tape
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { StyleSheet, View, Text, Pressable } from 'react-native';
-import { CalculationHistory } from '@/types/calculator';
+import {
+  CalculationHistory,
+  CalculatorMode,
+  HistoryEntryKind,
+  NumberFormat,
+} from '@/types/calculator';
 import { RetroColors } from '@/constants/Colors';
+import { CalculatorEngine } from '@/utils/calculator';
+import { Decimal } from '@/utils/decimal';
 import { formatHistoryTimestamp } from '@/utils/dateFormatter';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  formatExpressionText,
+  formatNumberText,
+  PLAIN_NUMBER_FORMAT,
+} from '@/utils/numberFormat';
+
+// Printed after the result, like the symbols on an adding machine tape
+const KIND_MARKERS: Record<HistoryEntryKind, string> = {
+  calculation: '',
+  subtotal: ' ◇',
+  total: ' *',
+};
 
 interface HistoryItemProps {
   item: CalculationHistory;
   onPress: () => void;
+  onLongPress?: () => void;
   isColorCoded?: boolean;
   isAddition?: boolean;
+  mode?: CalculatorMode;
+  numberFormat?: NumberFormat;
 }
 
 export const HistoryItem: React.FC<HistoryItemProps> = ({
   item,
   onPress,
+  onLongPress,
   isColorCoded = false,
   isAddition = false,
+  mode = 'checkbook',
+  numberFormat = PLAIN_NUMBER_FORMAT,
 }) => {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+  const steps = item.steps ?? [];
+  // Steps print at the precision the entry was calculated with (its currency's minor units)
+  const formatStep = (value: number) =>
+    formatNumberText(
+      CalculatorEngine.formatForDisplay(Decimal.from(value).toFixed(item.precision), mode),
+      numberFormat
+    );
   const backgroundColor = isColorCoded
     ? isAddition
       ? 'rgba(144, 238, 144, 0.1)' // Light green
       : 'rgba(255, 182, 193, 0.1)' // Light red
     : RetroColors.paperWhite;
+  const isTotalLine = item.kind !== 'calculation';
 
   const styles = StyleSheet.create({
     container: {
@@ -36,6 +72,12 @@ export const HistoryItem: React.FC<HistoryItemProps> = ({
       borderBottomWidth: 1,
       borderBottomColor: RetroColors.paperDots,
       marginHorizontal: 8,
+      // Totals get a ruled line above them, as on a printed tape
+      ...(isTotalLine && {
+        borderTopWidth: 1,
+        borderTopColor: RetroColors.textGray,
+        borderStyle: 'dashed' as const,
+      }),
     },
     pressable: {
       padding: 8,
@@ -50,6 +92,7 @@ export const HistoryItem: React.FC<HistoryItemProps> = ({
       fontSize: 12,
       color: RetroColors.textDark,
       fontFamily: 'monospace',
+      fontWeight: isTotalLine ? 'bold' : 'normal',
       flex: 1,
     },
     result: {
@@ -59,6 +102,11 @@ export const HistoryItem: React.FC<HistoryItemProps> = ({
       fontFamily: 'monospace',
       marginLeft: 8,
     },
+    footer: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
     timestamp: {
       fontSize: 10,
       color: RetroColors.textGray,
@@ -66,24 +114,83 @@ export const HistoryItem: React.FC<HistoryItemProps> = ({
       marginTop: 2,
       fontStyle: 'italic',
     },
+    stepsToggle: {
+      fontSize: 10,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      marginTop: 2,
+    },
+    steps: {
+      marginTop: 6,
+      paddingTop: 4,
+      borderTopWidth: 1,
+      borderTopColor: RetroColors.paperDots,
+      borderStyle: 'dashed',
+    },
+    stepRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    stepEntry: {
+      fontSize: 11,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    stepResult: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+    },
   });
 
   return (
     <Pressable
       style={styles.container}
       onPress={onPress}
+      onLongPress={onLongPress}
       android_ripple={{ color: 'rgba(0,0,0,0.1)' }}
     >
       <View style={styles.pressable}>
         <View style={styles.row}>
           <Text style={styles.expression} numberOfLines={1}>
-            {item.expression}
+            {item.itemCount !== undefined && item.kind !== 'calculation'
+              ? t(`tape.${item.kind}`, { count: item.itemCount })
+              : formatExpressionText(item.expression, numberFormat)}
+          </Text>
+          <Text style={styles.result}>
+            {formatNumberText(item.displayResult, numberFormat)}
+            {KIND_MARKERS[item.kind]}
           </Text>
-          <Text style={styles.result}>{item.displayResult}</Text>
         </View>
-        <Text style={styles.timestamp}>
-          {formatHistoryTimestamp(item.timestamp)}
-        </Text>
+        <View style={styles.footer}>
+          <Text style={styles.timestamp}>
+            {formatHistoryTimestamp(item.timestamp)}
+          </Text>
+          {steps.length > 0 && (
+            <Pressable onPress={() => setExpanded((prev) => !prev)} hitSlop={8}>
+              <Text style={styles.stepsToggle}>
+                {expanded ? '▾' : '▸'} {t('tape.steps', { count: steps.length })}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Every step of the chain, one tape line each with its running result */}
+        {expanded && (
+          <View style={styles.steps}>
+            {steps.map((step, index) => (
+              <View key={index} style={styles.stepRow}>
+                <Text style={styles.stepEntry}>
+                  {(step.operation ?? ' ').padEnd(3)}
+                  {formatStep(step.operand)}
+                </Text>
+                <Text style={styles.stepResult}>
+                  {formatStep(step.result)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
       </View>
     </Pressable>
   );
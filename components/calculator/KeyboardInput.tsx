@@ -0,0 +1,123 @@
+/**
+ * Hardware keyboard input for the keypad
+ * On web, listens for key presses on the page; on tablets, a hidden text field that never shows
+ * the on-screen keyboard receives the keys instead
+ * Android only passes typed characters and Enter to apps this way, so Backspace, Escape and
+ * shortcuts with Ctrl work on web and iPad only
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet, TextInput, Platform } from 'react-native';
+import { KEY_RELEASE_DELAY } from '@/constants/calculator';
+import { KeyBindings } from '@/types/calculator';
+import { findKeyBinding, KeyStroke } from '@/utils/keyboard';
+
+interface KeyboardInputProps {
+  bindings: KeyBindings;
+  enabled: boolean; // Off while a modal or another screen is in front of the keypad
+  onKeyDown: (label: string) => void;
+  onKeyUp: (label: string) => void;
+}
+
+// Typing into a text field must not press keypad keys
+function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable)
+  );
+}
+
+export const KeyboardInput: React.FC<KeyboardInputProps> = ({
+  bindings,
+  enabled,
+  onKeyDown,
+  onKeyUp,
+}) => {
+  // Handlers change every render; the listeners read the latest ones
+  const handlersRef = useRef({ bindings, onKeyDown, onKeyUp });
+  handlersRef.current = { bindings, onKeyDown, onKeyUp };
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !enabled || typeof document === 'undefined') {
+      return;
+    }
+
+    // Keys held down, by physical key, so key-up releases the label even if a modifier was let go first
+    const held = new Map<string, string>();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+
+      const label = findKeyBinding(handlersRef.current.bindings, event);
+      if (!label) return;
+
+      event.preventDefault();
+      held.set(event.code, label);
+      handlersRef.current.onKeyDown(label);
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const label = held.get(event.code);
+      if (label) {
+        held.delete(event.code);
+        handlersRef.current.onKeyUp(label);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('keyup', handleKeyUp);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+      held.forEach((label) => handlersRef.current.onKeyUp(label));
+    };
+  }, [enabled]);
+
+  if (Platform.OS === 'web' || !enabled) {
+    return null;
+  }
+
+  // Native platforms report no key-up, so the keypad key is released after a short delay
+  const press = (stroke: KeyStroke) => {
+    const label = findKeyBinding(bindings, stroke);
+    if (label) {
+      onKeyDown(label);
+      setTimeout(() => handlersRef.current.onKeyUp(label), KEY_RELEASE_DELAY);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    hidden: {
+      position: 'absolute',
+      width: 1,
+      height: 1,
+      opacity: 0,
+    },
+  });
+
+  return (
+    <TextInput
+      style={styles.hidden}
+      value=""
+      autoFocus
+      showSoftInputOnFocus={false}
+      caretHidden
+      autoCorrect={false}
+      autoCapitalize="none"
+      submitBehavior="submit"
+      onKeyPress={
+        Platform.OS === 'ios' ? (event) => press({ key: event.nativeEvent.key }) : undefined
+      }
+      // Android sends hardware keys as text rather than key presses
+      onChangeText={
+        Platform.OS === 'android'
+          ? (text) => [...text].forEach((key) => press({ key }))
+          : undefined
+      }
+      onSubmitEditing={Platform.OS === 'android' ? () => press({ key: 'Enter' }) : undefined}
+    />
+  );
+};
+
+export default KeyboardInput;
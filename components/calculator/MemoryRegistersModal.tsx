@@ -0,0 +1,241 @@
+/**
+ * Named memory registers modal
+ * Store the displayed value under a name, recall it later, or clear it
+ */
+
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Dimensions,
+  Platform,
+} from 'react-native';
+import { RetroColors } from '@/constants/Colors';
+import { CalculatorEngine } from '@/utils/calculator';
+import { CalculatorMode, CurrencyInfo } from '@/types/calculator';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface MemoryRegistersModalProps {
+  visible: boolean;
+  registers: Record<string, number>;
+  currentValue: string;
+  mode: CalculatorMode;
+  currency?: CurrencyInfo; // Minor units for checkbook mode
+  onStore: (name: string) => void;
+  onRecall: (name: string) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+export const MemoryRegistersModal: React.FC<MemoryRegistersModalProps> = ({
+  visible,
+  registers,
+  currentValue,
+  mode,
+  currency,
+  onStore,
+  onRecall,
+  onDelete,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const windowHeight = Dimensions.get('window').height;
+  const names = Object.keys(registers).sort();
+
+  const handleStore = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onStore(trimmed);
+    setName('');
+  };
+
+  const styles = StyleSheet.create({
+    centeredView: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalView: {
+      backgroundColor: RetroColors.casingBeige,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      paddingBottom: 32,
+      maxHeight: windowHeight * 0.8,
+      borderTopWidth: 3,
+      borderTopColor: RetroColors.casingBrown,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    storeRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 16,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    registerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.5)',
+      borderRadius: 6,
+      borderLeftWidth: 4,
+      borderLeftColor: RetroColors.casingBrown,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      marginBottom: 8,
+      gap: 8,
+    },
+    registerName: {
+      flex: 1,
+      fontSize: 13,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    registerValue: {
+      fontSize: 13,
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    emptyText: {
+      fontSize: 12,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      fontStyle: 'italic',
+      textAlign: 'center',
+      marginVertical: 12,
+    },
+    smallButton: {
+      backgroundColor: RetroColors.buttonGray,
+      borderRadius: 4,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      borderWidth: 2,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+    },
+    smallButtonText: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    closeButton: {
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      paddingHorizontal: 24,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      marginTop: 16,
+      alignItems: 'center',
+    },
+    closeButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.title}>{t('memory.title')}</Text>
+
+          {/* Store current display value under a name */}
+          <View style={styles.storeRow}>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('memory.namePlaceholder')}
+              placeholderTextColor={RetroColors.textGray}
+              maxLength={16}
+              onSubmitEditing={handleStore}
+            />
+            <Pressable style={styles.smallButton} onPress={handleStore}>
+              <Text style={styles.smallButtonText}>
+                {t('memory.store', { value: currentValue })}
+              </Text>
+            </Pressable>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {names.length === 0 && (
+              <Text style={styles.emptyText}>{t('memory.empty')}</Text>
+            )}
+            {names.map((registerName) => (
+              <View key={registerName} style={styles.registerRow}>
+                <Text style={styles.registerName} numberOfLines={1}>
+                  {registerName}
+                </Text>
+                <Text style={styles.registerValue}>
+                  {CalculatorEngine.formatForDisplay(registers[registerName], mode, currency)}
+                </Text>
+                <Pressable style={styles.smallButton} onPress={() => onRecall(registerName)}>
+                  <Text style={styles.smallButtonText}>{t('memory.recall')}</Text>
+                </Pressable>
+                <Pressable style={styles.smallButton} onPress={() => onDelete(registerName)}>
+                  <Text style={styles.smallButtonText}>{t('memory.clear')}</Text>
+                </Pressable>
+              </View>
+            ))}
+          </ScrollView>
+
+          <Pressable style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>{t('memory.close')}</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default MemoryRegistersModal;
@@ -7,19 +7,24 @@ import React, { useEffect } from 'react';
 import { StyleSheet, Modal, View, Text, Pressable, Dimensions, Platform } from 'react-native';
 import { RetroColors } from '@/constants/Colors';
 import { MODE_SWITCH_TIMEOUT } from '@/constants/calculator';
-import { CalculatorMode } from '@/types/calculator';
+import { CalculatorMode, CurrencyInfo } from '@/types/calculator';
+import { CalculatorEngine } from '@/utils/calculator';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface ModeSwitchProps {
   visible: boolean;
   newMode: CalculatorMode;
+  currency: CurrencyInfo;
   onDismiss: () => void;
 }
 
 export const ModeSwitch: React.FC<ModeSwitchProps> = ({
   visible,
   newMode,
+  currency,
   onDismiss,
 }) => {
+  const { t } = useTranslation();
   const windowHeight = Dimensions.get('window').height;
 
   useEffect(() => {
@@ -34,21 +39,29 @@ export const ModeSwitch: React.FC<ModeSwitchProps> = ({
   }, [visible, onDismiss]);
 
   const getModeInfo = () => {
+    const places = CalculatorEngine.getDecimalPlacesForMode(newMode, currency);
+    const example = (value: string) =>
+      t('modeSwitch.example', {
+        value,
+        rounded: CalculatorEngine.roundToMode(value, newMode, currency).toString(),
+      });
+
     if (newMode === 'checkbook') {
       return {
         emoji: '💰',
-        title: 'Switched to Checkbook Mode',
-        description:
-          'Numbers will be rounded to 2 decimal places (US cents: $0.00)',
-        example: 'Example: 1.234 becomes 1.23',
+        title: t('modeSwitch.checkbookTitle'),
+        description: t('modeSwitch.checkbookDescription', {
+          count: places,
+          zero: CalculatorEngine.formatCurrency(0, currency),
+        }),
+        example: example('1.234'),
       };
     } else {
       return {
         emoji: '🔬',
-        title: 'Switched to Scientific Mode',
-        description:
-          'Numbers will show up to 8 decimal places for precise calculations.',
-        example: 'Example: 1.234567891234 becomes 1.23456789',
+        title: t('modeSwitch.scientificTitle'),
+        description: t('modeSwitch.scientificDescription', { count: places }),
+        example: example('1.234567891234'),
       };
     }
   };
@@ -180,16 +193,16 @@ export const ModeSwitch: React.FC<ModeSwitchProps> = ({
           <Text style={styles.description}>{modeInfo.description}</Text>
 
           <View style={styles.exampleContainer}>
-            <Text style={styles.exampleLabel}>EXAMPLE:</Text>
+            <Text style={styles.exampleLabel}>{t('modeSwitch.exampleLabel')}</Text>
             <Text style={styles.exampleText}>{modeInfo.example}</Text>
           </View>
 
           <Pressable style={styles.button} onPress={onDismiss}>
-            <Text style={styles.buttonText}>OK - I UNDERSTAND</Text>
+            <Text style={styles.buttonText}>{t('modeSwitch.confirm')}</Text>
           </Pressable>
 
           <Text style={styles.timerText}>
-            This message will close automatically in {MODE_SWITCH_TIMEOUT / 1000} seconds.
+            {t('modeSwitch.autoClose', { count: MODE_SWITCH_TIMEOUT / 1000 })}
           </Text>
         </View>
       </View>
@@ -2,41 +2,59 @@
  * Receipt tape component
  * Displays calculation history in thermal printer paper aesthetic
  * Latest calculation at top, swipe DOWN to see older calculations
+ * Older days are loaded a page at a time as the end of the tape is reached
+ * The header's export button writes the history out as CSV or JSON
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   StyleSheet,
   View,
   FlatList,
   Text,
   ActivityIndicator,
+  Pressable,
   useWindowDimensions,
   Platform,
 } from 'react-native';
-import { CalculationHistory } from '@/types/calculator';
+import { CalculationHistory, NumberFormat } from '@/types/calculator';
 import { RetroColors } from '@/constants/Colors';
 import { HistoryItem } from './HistoryItem';
+import { ExportModal } from './ExportModal';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface ReceiptTapeProps {
   history: CalculationHistory[];
   onHistoryItemSelect: (item: CalculationHistory) => void;
+  onHistoryItemLongPress?: (item: CalculationHistory) => void;
   isLoading?: boolean;
+  hasMore?: boolean; // Older pages are still in storage
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
   mode?: 'checkbook' | 'scientific';
+  numberFormat?: NumberFormat;
 }
 
 export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
   history,
   onHistoryItemSelect,
+  onHistoryItemLongPress,
   isLoading = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   mode = 'checkbook',
+  numberFormat,
 }) => {
+  const { t, language } = useTranslation();
   const { height: windowHeight } = useWindowDimensions();
+  const [showExport, setShowExport] = useState(false);
   const maxHeight = Math.min(windowHeight * 0.35, 300);
 
   // Determine if entry is an addition or subtraction (for color coding in checkbook mode)
-  const isAddition = useCallback((expression: string): boolean => {
-    return expression.includes('+') && !expression.includes('-');
+  // Totals and algebraic entries have no final operator, so they go by the sign of the result
+  const isAddition = useCallback((item: CalculationHistory): boolean => {
+    return item.operation ? item.operation === '+' : item.result >= 0;
   }, []);
 
   const renderItem = useCallback(
@@ -44,21 +62,30 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
       <HistoryItem
         item={item}
         onPress={() => onHistoryItemSelect(item)}
+        onLongPress={onHistoryItemLongPress && (() => onHistoryItemLongPress(item))}
         isColorCoded={mode === 'checkbook'}
-        isAddition={isAddition(item.expression)}
+        isAddition={isAddition(item)}
+        mode={mode}
+        numberFormat={numberFormat}
       />
     ),
-    [mode, onHistoryItemSelect, isAddition]
+    [mode, numberFormat, onHistoryItemSelect, onHistoryItemLongPress, isAddition]
   );
 
-  const renderEmpty = useCallback(() => (
+  const renderEmpty = () => (
     <View style={styles.emptyContainer}>
-      <Text style={styles.emptyText}>No calculations yet</Text>
+      <Text style={styles.emptyText}>{t('tape.empty')}</Text>
       <Text style={styles.emptySubtext}>
-        Start by entering numbers and operations
+        {t('tape.emptyHint')}
       </Text>
     </View>
-  ), []);
+  );
+
+  const handleEndReached = useCallback(() => {
+    if (hasMore && !isLoadingMore) {
+      onLoadMore?.();
+    }
+  }, [hasMore, isLoadingMore, onLoadMore]);
 
   const styles = StyleSheet.create({
     container: {
@@ -83,6 +110,8 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
       }),
     },
     header: {
+      flexDirection: 'row',
+      alignItems: 'center',
       backgroundColor: RetroColors.casingBrown,
       paddingVertical: 6,
       paddingHorizontal: 12,
@@ -90,6 +119,7 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
       borderBottomColor: RetroColors.casingDark,
     },
     headerText: {
+      flex: 1,
       color: RetroColors.textLight,
       fontSize: 10,
       fontWeight: 'bold',
@@ -97,6 +127,21 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
       textAlign: 'center',
       letterSpacing: 2,
     },
+    exportButton: {
+      position: 'absolute',
+      right: 8,
+      paddingHorizontal: 6,
+      paddingVertical: 2,
+      borderRadius: 3,
+      borderWidth: 1,
+      borderColor: RetroColors.textLight,
+    },
+    exportButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 9,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
     flatList: {
       flex: 1,
     },
@@ -124,6 +169,10 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
       justifyContent: 'center',
       alignItems: 'center',
     },
+    loadingMore: {
+      paddingVertical: 8,
+      alignItems: 'center',
+    },
     footer: {
       backgroundColor: RetroColors.paperWhite,
       paddingVertical: 8,
@@ -144,8 +193,16 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerText}>
-          {'⚙ CALCULATION HISTORY ⚙'}
+          {t('tape.title')}
         </Text>
+        <Pressable
+          style={styles.exportButton}
+          onPress={() => setShowExport(true)}
+          accessibilityLabel={t('tape.exportLabel')}
+          hitSlop={8}
+        >
+          <Text style={styles.exportButtonText}>{t('tape.export')}</Text>
+        </Pressable>
       </View>
 
       {isLoading ? (
@@ -158,7 +215,17 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
           data={history}
           renderItem={renderItem}
           keyExtractor={(item) => item.id}
+          extraData={language}
           ListEmptyComponent={renderEmpty}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <View style={styles.loadingMore}>
+                <ActivityIndicator size="small" color={RetroColors.casingBrown} />
+              </View>
+            ) : null
+          }
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
           scrollEnabled={history.length > 3}
           showsVerticalScrollIndicator={true}
           scrollIndicatorInsets={{ right: 1 }}
@@ -170,10 +237,16 @@ export const ReceiptTape: React.FC<ReceiptTapeProps> = ({
       {!isLoading && history.length > 0 && (
         <View style={styles.footer}>
           <Text style={styles.footerText}>
-            {'↓ Swipe DOWN to view older calculations ↓'}
+            {t('tape.swipeHint')}
           </Text>
         </View>
       )}
+
+      <ExportModal
+        visible={showExport}
+        numberFormat={numberFormat}
+        onClose={() => setShowExport(false)}
+      />
     </View>
   );
 };
@@ -0,0 +1,136 @@
+/**
+ * Reconciliation report component
+ * Printed summary of a balanced statement with outstanding checks and deposits in transit
+ */
+
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { ReconciliationItem, ReconciliationReport, CurrencyInfo } from '@/types/calculator';
+import { RetroColors } from '@/constants/Colors';
+import { CalculatorEngine } from '@/utils/calculator';
+import { formatDateOnly, formatFullDate } from '@/utils/dateFormatter';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ReconciliationReportViewProps {
+  report: ReconciliationReport;
+  currency: CurrencyInfo;
+}
+
+export const ReconciliationReportView: React.FC<ReconciliationReportViewProps> = ({
+  report,
+  currency,
+}) => {
+  const { t } = useTranslation();
+  const format = (value: number) => CalculatorEngine.formatCurrency(value, currency);
+
+  const styles = StyleSheet.create({
+    paper: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      padding: 12,
+    },
+    title: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+    },
+    subtitle: {
+      fontSize: 10,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    sectionTitle: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginTop: 10,
+      paddingTop: 6,
+      borderTopWidth: 1,
+      borderTopColor: RetroColors.paperDots,
+      borderStyle: 'dashed',
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    text: {
+      fontSize: 11,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    itemText: {
+      flex: 1,
+      fontSize: 11,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    none: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      fontStyle: 'italic',
+    },
+  });
+
+  const renderItems = (items: ReconciliationItem[]) => {
+    if (items.length === 0) {
+      return <Text style={styles.none}>{t('report.none')}</Text>;
+    }
+
+    return items.map((item) => (
+      <View key={item.id} style={styles.row}>
+        <Text style={styles.itemText} numberOfLines={1}>
+          {formatDateOnly(item.date)} {item.checkNumber && `#${item.checkNumber} `}
+          {item.payee}
+        </Text>
+        <Text style={styles.text}>{format(item.amount)}</Text>
+      </View>
+    ));
+  };
+
+  return (
+    <View style={styles.paper}>
+      <Text style={styles.title}>
+        {t('report.title', { date: formatDateOnly(report.statementDate).toUpperCase() })}
+      </Text>
+      <Text style={styles.subtitle}>
+        {t('report.reconciled', { date: formatFullDate(report.reconciledAt) })}
+      </Text>
+
+      <View style={styles.row}>
+        <Text style={styles.text}>{t('report.openingBalance')}</Text>
+        <Text style={styles.text}>{format(report.openingBalance)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.text}>{t('report.clearedItems')}</Text>
+        <Text style={styles.text}>{report.clearedCount}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.text}>{t('report.statementBalance')}</Text>
+        <Text style={styles.text}>{format(report.statementBalance)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.text}>{t('report.registerBalance')}</Text>
+        <Text style={styles.text}>{format(report.registerBalance)}</Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('report.outstandingChecks')}</Text>
+      {renderItems(report.outstandingChecks)}
+
+      <Text style={styles.sectionTitle}>{t('report.depositsInTransit')}</Text>
+      {renderItems(report.depositsInTransit)}
+    </View>
+  );
+};
+
+export default ReconciliationReportView;
@@ -0,0 +1,118 @@
+/**
+ * Register item component
+ * One line of the checkbook register with its running balance
+ */
+
+import React from 'react';
+import { StyleSheet, View, Text, Pressable } from 'react-native';
+import { ClearStatus, RegisterEntry, CurrencyInfo } from '@/types/calculator';
+import { RetroColors } from '@/constants/Colors';
+import { CalculatorEngine } from '@/utils/calculator';
+import { formatDateOnly } from '@/utils/dateFormatter';
+import { formatCategory } from '@/utils/register';
+
+// Cleared column of a paper register: ✓ ticked against a statement, R reconciled and locked
+const STATUS_MARKS: Record<ClearStatus, string> = {
+  uncleared: ' ',
+  cleared: '✓',
+  reconciled: 'R',
+};
+
+interface RegisterItemProps {
+  entry: RegisterEntry;
+  currency: CurrencyInfo;
+  onPress: () => void;
+}
+
+export const RegisterItem: React.FC<RegisterItemProps> = ({
+  entry,
+  currency,
+  onPress,
+}) => {
+  const isDeposit = entry.type === 'deposit';
+  const format = (value: number) => CalculatorEngine.formatCurrency(value, currency);
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: isDeposit ? 'rgba(144, 238, 144, 0.1)' : 'rgba(255, 182, 193, 0.1)',
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: RetroColors.paperDots,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: 8,
+    },
+    status: {
+      width: 14,
+      fontSize: 12,
+      fontWeight: 'bold',
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+    },
+    payee: {
+      flex: 1,
+      fontSize: 13,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    amount: {
+      fontSize: 13,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    detail: {
+      flex: 1,
+      fontSize: 10,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      marginTop: 2,
+    },
+    balance: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      marginTop: 2,
+    },
+  });
+
+  const details = [
+    formatDateOnly(entry.date),
+    entry.checkNumber && `#${entry.checkNumber}`,
+    formatCategory(entry.category),
+    entry.memo,
+  ].filter(Boolean);
+
+  return (
+    <Pressable
+      style={styles.container}
+      onPress={onPress}
+      disabled={entry.status === 'reconciled'}
+      android_ripple={{ color: 'rgba(0,0,0,0.1)' }}
+    >
+      <View style={styles.row}>
+        <Text style={styles.status}>{STATUS_MARKS[entry.status]}</Text>
+        <Text style={styles.payee} numberOfLines={1}>
+          {entry.payee}
+        </Text>
+        <Text style={styles.amount}>
+          {isDeposit ? '+' : '−'}
+          {format(entry.amount)}
+        </Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.detail} numberOfLines={1}>
+          {details.join(' · ')}
+        </Text>
+        <Text style={styles.balance}>{format(entry.balance)}</Text>
+      </View>
+    </Pressable>
+  );
+};
+
+export default RegisterItem;
@@ -0,0 +1,386 @@
+/**
+ * Register transaction form
+ * Add or edit a checkbook register line: date, payee, check number, category, memo and amount
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Dimensions,
+  Platform,
+} from 'react-native';
+import { format, isValid, parse } from 'date-fns';
+import { RetroColors } from '@/constants/Colors';
+import { REGISTER_CATEGORIES } from '@/constants/calculator';
+import { CalculatorEngine } from '@/utils/calculator';
+import { Decimal } from '@/utils/decimal';
+import { parseAmount } from '@/utils/numberFormat';
+import { formatCategory } from '@/utils/register';
+import { CurrencyInfo, NewRegisterTransaction, TransactionType } from '@/types/calculator';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+interface TransactionFormProps {
+  visible: boolean;
+  title: string;
+  transaction: NewRegisterTransaction; // Initial values
+  currency: CurrencyInfo;
+  decimalMark?: string; // Shown in the amount and accepted when typed
+  onSave: (transaction: NewRegisterTransaction) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export const TransactionForm: React.FC<TransactionFormProps> = ({
+  visible,
+  title,
+  transaction,
+  currency,
+  decimalMark = '.',
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [type, setType] = useState<TransactionType>(transaction.type);
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState('');
+  const [payee, setPayee] = useState('');
+  const [checkNumber, setCheckNumber] = useState('');
+  const [category, setCategory] = useState('');
+  const [memo, setMemo] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const windowHeight = Dimensions.get('window').height;
+
+  // Reset the fields each time the form opens
+  useEffect(() => {
+    if (!visible) return;
+    setType(transaction.type);
+    setAmount(
+      transaction.amount > 0
+        ? Decimal.from(transaction.amount).toFixed(currency.minorUnits).replace('.', decimalMark)
+        : ''
+    );
+    setDate(format(transaction.date, DATE_FORMAT));
+    setPayee(transaction.payee);
+    setCheckNumber(transaction.checkNumber);
+    setCategory(transaction.category);
+    setMemo(transaction.memo);
+    setValidationError('');
+  }, [visible, transaction, currency, decimalMark]);
+
+  const handleSave = () => {
+    const parsedDate = parse(date.trim(), DATE_FORMAT, new Date());
+    if (!isValid(parsedDate)) {
+      setValidationError(t('transaction.invalidDate'));
+      return;
+    }
+
+    const parsedAmount = parseAmount(amount, decimalMark);
+    if (
+      !parsedAmount ||
+      parsedAmount.isNegative() ||
+      parsedAmount.isZero() ||
+      !CalculatorEngine.isValidEntry(parsedAmount.toString(), 'checkbook', currency)
+    ) {
+      setValidationError(t('transaction.invalidAmount', { count: currency.minorUnits }));
+      return;
+    }
+
+    if (!payee.trim()) {
+      setValidationError(t('transaction.noPayee'));
+      return;
+    }
+
+    onSave({
+      date: parsedDate.getTime(),
+      payee: payee.trim(),
+      checkNumber: checkNumber.trim(),
+      memo: memo.trim(),
+      category,
+      type,
+      amount: parsedAmount.toNumber(),
+      status: transaction.status,
+    });
+  };
+
+  const styles = StyleSheet.create({
+    centeredView: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalView: {
+      backgroundColor: RetroColors.casingBeige,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      paddingBottom: 32,
+      maxHeight: windowHeight * 0.9,
+      borderTopWidth: 3,
+      borderTopColor: RetroColors.casingBrown,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginBottom: 4,
+      marginTop: 10,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    rowField: {
+      flex: 1,
+    },
+    wideField: {
+      flex: 2,
+    },
+    buttonGroup: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    optionButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      backgroundColor: RetroColors.buttonBeige,
+      alignItems: 'center',
+    },
+    typeButton: {
+      flex: 1,
+    },
+    optionButtonActive: {
+      backgroundColor: RetroColors.buttonBrown,
+    },
+    optionButtonText: {
+      fontSize: 11,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+    },
+    optionButtonTextActive: {
+      color: RetroColors.textLight,
+    },
+    validationError: {
+      fontSize: 12,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginTop: 12,
+      textAlign: 'center',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 16,
+    },
+    actionButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      alignItems: 'center',
+    },
+    deleteButton: {
+      backgroundColor: RetroColors.errorRed,
+    },
+    actionButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.title}>{title}</Text>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {/* Deposit or withdrawal */}
+            <View style={styles.buttonGroup}>
+              {(['deposit', 'withdrawal'] as const).map((value) => (
+                <Pressable
+                  key={value}
+                  style={[
+                    styles.optionButton,
+                    styles.typeButton,
+                    type === value && styles.optionButtonActive,
+                  ]}
+                  onPress={() => setType(value)}
+                >
+                  <Text
+                    style={[
+                      styles.optionButtonText,
+                      type === value && styles.optionButtonTextActive,
+                    ]}
+                  >
+                    {t(`transaction.type.${value}`)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>{t('transaction.amount', { symbol: currency.symbol })}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={amount}
+                  onChangeText={setAmount}
+                  placeholder={`0${decimalMark}00`}
+                  placeholderTextColor={RetroColors.textGray}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>{t('transaction.date')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={date}
+                  onChangeText={setDate}
+                  placeholder={t('transaction.datePlaceholder')}
+                  placeholderTextColor={RetroColors.textGray}
+                  maxLength={10}
+                />
+              </View>
+            </View>
+
+            <View style={styles.row}>
+              <View style={styles.wideField}>
+                <Text style={styles.label}>{t('transaction.payee')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={payee}
+                  onChangeText={setPayee}
+                  placeholder={t(`transaction.payee.${type}`)}
+                  placeholderTextColor={RetroColors.textGray}
+                  maxLength={40}
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>{t('transaction.checkNumber')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={checkNumber}
+                  onChangeText={setCheckNumber}
+                  placeholder="—"
+                  placeholderTextColor={RetroColors.textGray}
+                  keyboardType="number-pad"
+                  maxLength={8}
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>{t('transaction.category')}</Text>
+            <View style={styles.buttonGroup}>
+              {REGISTER_CATEGORIES.map((name) => (
+                <Pressable
+                  key={name}
+                  style={[styles.optionButton, category === name && styles.optionButtonActive]}
+                  onPress={() => setCategory(name)}
+                >
+                  <Text
+                    style={[
+                      styles.optionButtonText,
+                      category === name && styles.optionButtonTextActive,
+                    ]}
+                  >
+                    {formatCategory(name)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={styles.label}>{t('transaction.memo')}</Text>
+            <TextInput
+              style={styles.input}
+              value={memo}
+              onChangeText={setMemo}
+              placeholder={t('transaction.optional')}
+              placeholderTextColor={RetroColors.textGray}
+              maxLength={80}
+            />
+
+            {validationError !== '' && (
+              <Text style={styles.validationError}>{validationError}</Text>
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {onDelete && (
+              <Pressable style={[styles.actionButton, styles.deleteButton]} onPress={onDelete}>
+                <Text style={styles.actionButtonText}>{t('transaction.delete')}</Text>
+              </Pressable>
+            )}
+            <Pressable style={styles.actionButton} onPress={onClose}>
+              <Text style={styles.actionButtonText}>{t('transaction.cancel')}</Text>
+            </Pressable>
+            <Pressable style={styles.actionButton} onPress={handleSave}>
+              <Text style={styles.actionButtonText}>{t('transaction.save')}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TransactionForm;
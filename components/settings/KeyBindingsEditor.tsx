@@ -0,0 +1,164 @@
+/**
+ * Keyboard shortcut editor for the settings sheet
+ * Lists each hardware key with the keypad key it presses; new bindings pair a typed key
+ * combination with a key picked from the keypad
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, Pressable } from 'react-native';
+import { RetroColors } from '@/constants/Colors';
+import { DEFAULT_KEY_BINDINGS, KEYPAD_LABELS } from '@/constants/calculator';
+import { KeyBindings } from '@/types/calculator';
+import { normalizeKeyCombo } from '@/utils/keyboard';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface KeyBindingsEditorProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+export const KeyBindingsEditor: React.FC<KeyBindingsEditorProps> = ({ bindings, onChange }) => {
+  const { t } = useTranslation();
+  const [comboText, setComboText] = useState('');
+  const [target, setTarget] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const handleAdd = () => {
+    const combo = normalizeKeyCombo(comboText);
+    if (!combo) {
+      setMessage(t('settings.keyboard.invalidKey', { key: comboText.trim() }));
+      return;
+    }
+    if (!target) {
+      setMessage(t('settings.keyboard.noTarget'));
+      return;
+    }
+
+    onChange({ ...bindings, [combo]: target });
+    setComboText('');
+    setTarget(null);
+    setMessage('');
+  };
+
+  const handleRemove = (combo: string) => {
+    const { [combo]: _removed, ...rest } = bindings;
+    onChange(rest);
+  };
+
+  const styles = StyleSheet.create({
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+      marginBottom: 10,
+    },
+    chip: {
+      paddingVertical: 6,
+      paddingHorizontal: 8,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      backgroundColor: RetroColors.buttonBeige,
+    },
+    chipActive: {
+      backgroundColor: RetroColors.buttonBrown,
+    },
+    chipText: {
+      fontSize: 11,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+    },
+    chipTextActive: {
+      color: RetroColors.textLight,
+    },
+    hint: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      marginBottom: 6,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      fontFamily: 'monospace',
+      fontSize: 13,
+      color: RetroColors.textDark,
+      marginBottom: 8,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    button: {
+      flex: 1,
+      paddingVertical: 8,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      backgroundColor: RetroColors.buttonBeige,
+      alignItems: 'center',
+    },
+    message: {
+      fontSize: 11,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginBottom: 8,
+    },
+  });
+
+  return (
+    <View>
+      <Text style={styles.hint}>{t('settings.keyboard.removeHint')}</Text>
+      <View style={styles.grid}>
+        {Object.entries(bindings).map(([combo, label]) => (
+          <Pressable key={combo} style={styles.chip} onPress={() => handleRemove(combo)}>
+            <Text style={styles.chipText}>
+              {combo} → {label} ✕
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <TextInput
+        style={styles.input}
+        value={comboText}
+        onChangeText={setComboText}
+        placeholder={t('settings.keyboard.keyPlaceholder')}
+        placeholderTextColor={RetroColors.textGray}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <Text style={styles.hint}>{t('settings.keyboard.pickTarget')}</Text>
+      <View style={styles.grid}>
+        {KEYPAD_LABELS.map((label) => (
+          <Pressable
+            key={label}
+            style={[styles.chip, target === label && styles.chipActive]}
+            onPress={() => setTarget(label)}
+          >
+            <Text style={[styles.chipText, target === label && styles.chipTextActive]}>
+              {label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {message !== '' && <Text style={styles.message}>{message}</Text>}
+
+      <View style={styles.buttonRow}>
+        <Pressable style={styles.button} onPress={handleAdd}>
+          <Text style={styles.chipText}>{t('settings.keyboard.add')}</Text>
+        </Pressable>
+        <Pressable style={styles.button} onPress={() => onChange({ ...DEFAULT_KEY_BINDINGS })}>
+          <Text style={styles.chipText}>{t('settings.keyboard.reset')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+export default KeyBindingsEditor;
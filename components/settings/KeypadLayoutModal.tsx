@@ -0,0 +1,673 @@
+/**
+ * Keypad layout editor
+ * Keys are dragged from the palette (or tapped, then a space tapped) onto a resizable grid and
+ * saved as a named layout for the mode; saving or picking a layout puts it on the keypad
+ * In second-function editing, a key dropped on a grid key becomes that key's second function
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Animated,
+  PanResponder,
+  Dimensions,
+  Platform,
+  StyleProp,
+  ViewStyle,
+  TextStyle,
+} from 'react-native';
+import { RetroColors } from '@/constants/Colors';
+import {
+  BUTTON_LAYOUTS,
+  DEFAULT_SECONDARY_KEYS,
+  KEYPAD_PALETTES,
+  MAX_LAYOUT_COLUMNS,
+  MAX_LAYOUT_ROWS,
+} from '@/constants/calculator';
+import { CalculatorMode, EntryMode, KeypadLayout, ModeKeypadLayouts } from '@/types/calculator';
+import {
+  findMissingKeys,
+  isKeyAvailable,
+  isSecondaryKey,
+  placeKey,
+  resizeKeypad,
+} from '@/utils/keypadLayout';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// Movement (in points) under which a touch on a key counts as a tap rather than a drag
+const TAP_SLOP = 6;
+
+interface CellRect {
+  row: number;
+  column: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DraggableKeyProps {
+  label: string;
+  legend?: string; // Second function, printed small above the label
+  style: StyleProp<ViewStyle>;
+  textStyle: StyleProp<TextStyle>;
+  legendStyle?: StyleProp<TextStyle>;
+  onTap: (label: string) => void;
+  onDragStart: (label: string, x: number, y: number) => void;
+  onDragMove: (x: number, y: number) => void;
+  onDragEnd: (label: string, x: number, y: number) => void; // x/y are NaN when cancelled
+}
+
+const DraggableKey: React.FC<DraggableKeyProps> = (props) => {
+  // The responder is created once; its handlers read the latest props
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (_, gesture) =>
+        propsRef.current.onDragStart(propsRef.current.label, gesture.x0, gesture.y0),
+      onPanResponderMove: (_, gesture) => propsRef.current.onDragMove(gesture.moveX, gesture.moveY),
+      onPanResponderRelease: (_, gesture) => {
+        const { label, onTap, onDragEnd } = propsRef.current;
+        if (Math.abs(gesture.dx) + Math.abs(gesture.dy) < TAP_SLOP) {
+          onDragEnd(label, NaN, NaN);
+          onTap(label);
+        } else {
+          onDragEnd(label, gesture.moveX, gesture.moveY);
+        }
+      },
+      onPanResponderTerminate: () => propsRef.current.onDragEnd(propsRef.current.label, NaN, NaN),
+    })
+  ).current;
+
+  return (
+    <View style={props.style} {...responder.panHandlers}>
+      {props.legend && (
+        <Text style={props.legendStyle} numberOfLines={1}>
+          {props.legend}
+        </Text>
+      )}
+      <Text style={props.textStyle} numberOfLines={1}>
+        {props.label}
+      </Text>
+    </View>
+  );
+};
+
+interface KeypadLayoutModalProps {
+  visible: boolean;
+  mode: CalculatorMode;
+  entryMode: EntryMode;
+  layouts: ModeKeypadLayouts;
+  onChange: (layouts: ModeKeypadLayouts) => void;
+  onClose: () => void;
+}
+
+export const KeypadLayoutModal: React.FC<KeypadLayoutModalProps> = ({
+  visible,
+  mode,
+  entryMode,
+  layouts,
+  onChange,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const windowHeight = Dimensions.get('window').height;
+  const standardLayout: KeypadLayout = {
+    rows: BUTTON_LAYOUTS[mode][entryMode],
+    secondary: DEFAULT_SECONDARY_KEYS,
+  };
+  const [rows, setRows] = useState<string[][]>(standardLayout.rows);
+  const [secondary, setSecondary] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<'keys' | 'secondary'>('keys');
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [dragLabel, setDragLabel] = useState<string | null>(null);
+  const dragPosition = useRef(new Animated.ValueXY()).current;
+  const cellRefs = useRef<Record<string, View | null>>({});
+  const cellRects = useRef<CellRect[]>([]);
+
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const placed = new Set(rows.flat());
+  const missing = findMissingKeys(rows);
+
+  // Start from the layout on the keypad each time the editor opens; saving while open must not
+  // reset the draft, so the layouts are read through a ref
+  const openingRef = useRef({ layouts, standardLayout });
+  openingRef.current = { layouts, standardLayout };
+
+  useEffect(() => {
+    if (!visible) return;
+    const { layouts: current, standardLayout: standard } = openingRef.current;
+    const active = current.active;
+    const layout = active === null ? standard : current.saved[active] ?? standard;
+    setRows(layout.rows);
+    setSecondary(layout.secondary ?? {});
+    setName(active ?? '');
+    setEditing('keys');
+    setSelected(null);
+    setMessage(null);
+  }, [visible]);
+
+  const showLayout = (layout: KeypadLayout) => {
+    setRows(layout.rows);
+    setSecondary(layout.secondary ?? {});
+  };
+
+  const loadLayout = (layoutName: string | null) => {
+    showLayout(layoutName === null ? standardLayout : layouts.saved[layoutName]);
+    setName(layoutName ?? '');
+    setMessage(null);
+    onChange({ ...layouts, active: layoutName });
+  };
+
+  const handleResize = (rowCount: number, columns: number) => {
+    if (rowCount < 1 || rowCount > MAX_LAYOUT_ROWS) return;
+    if (columns < 1 || columns > MAX_LAYOUT_COLUMNS) return;
+    setRows((prev) => resizeKeypad(prev, rowCount, columns));
+  };
+
+  // Give a grid key a second function, or take it away with null
+  const assignSecondary = (label: string, secondaryLabel: string | null) => {
+    if (label === '' || label === 'SHIFT' || secondaryLabel === label) return;
+
+    const { [label]: _previous, ...rest } = secondary;
+    if (secondaryLabel === null) {
+      setSecondary(rest);
+    } else if (isSecondaryKey(secondaryLabel, mode)) {
+      setSecondary({ ...rest, [label]: secondaryLabel });
+    }
+  };
+
+  const handleCellPress = (row: number, column: number) => {
+    if (editing === 'secondary') {
+      assignSecondary(rows[row][column], selected);
+      setSelected(null);
+    } else if (selected) {
+      setRows((prev) => placeKey(prev, row, column, selected));
+      setSelected(null);
+    } else if (rows[row][column] !== '') {
+      setRows((prev) => placeKey(prev, row, column, ''));
+    }
+  };
+
+  const handlePaletteTap = (label: string) => {
+    setSelected((current) => (current === label ? null : label));
+  };
+
+  // Cell positions are measured when a drag starts, so scrolling since the last drag is accounted for
+  const handleDragStart = (label: string, x: number, y: number) => {
+    cellRects.current = [];
+    Object.entries(cellRefs.current).forEach(([id, cell]) => {
+      const [row, column] = id.split('-').map(Number);
+      cell?.measureInWindow((cellX, cellY, width, height) => {
+        cellRects.current.push({ row, column, x: cellX, y: cellY, width, height });
+      });
+    });
+    dragPosition.setValue({ x, y });
+    setDragLabel(label);
+  };
+
+  const handleDragMove = (x: number, y: number) => {
+    dragPosition.setValue({ x, y });
+  };
+
+  const handleDragEnd = (label: string, x: number, y: number) => {
+    setDragLabel(null);
+    const cell = cellRects.current.find(
+      (rect) => x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height
+    );
+    if (cell && editing === 'secondary') {
+      assignSecondary(rows[cell.row][cell.column], label);
+    } else if (cell) {
+      setRows((prev) => placeKey(prev, cell.row, cell.column, label));
+    }
+    if (cell) {
+      setSelected(null);
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setMessage({ text: t('layout.noName'), error: true });
+      return;
+    }
+    if (missing.length > 0) return;
+
+    // Second functions of keys taken off the grid go with them
+    const kept = Object.entries(secondary).filter(([label]) => placed.has(label));
+    onChange({
+      active: trimmed,
+      saved: { ...layouts.saved, [trimmed]: { rows, secondary: Object.fromEntries(kept) } },
+    });
+    setName(trimmed);
+    setMessage({ text: t('layout.saved', { name: trimmed }), error: false });
+  };
+
+  const handleDelete = () => {
+    const trimmed = name.trim();
+    const { [trimmed]: _removed, ...saved } = layouts.saved;
+    onChange({ active: layouts.active === trimmed ? null : layouts.active, saved });
+    showLayout(standardLayout);
+    setName('');
+    setMessage(null);
+  };
+
+  const dragHandlers = {
+    onDragStart: handleDragStart,
+    onDragMove: handleDragMove,
+    onDragEnd: handleDragEnd,
+  };
+
+  const styles = StyleSheet.create({
+    centeredView: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalView: {
+      backgroundColor: RetroColors.casingBeige,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      paddingBottom: 32,
+      maxHeight: windowHeight * 0.9,
+      borderTopWidth: 3,
+      borderTopColor: RetroColors.casingBrown,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: RetroColors.textLight,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+      marginBottom: 12,
+    },
+    chip: {
+      minWidth: 40,
+      paddingVertical: 6,
+      paddingHorizontal: 8,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      backgroundColor: RetroColors.buttonBeige,
+      alignItems: 'center',
+    },
+    chipActive: {
+      backgroundColor: RetroColors.buttonBrown,
+    },
+    chipPlaced: {
+      opacity: 0.4,
+    },
+    chipText: {
+      fontSize: 12,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+    },
+    chipTextActive: {
+      color: RetroColors.textLight,
+    },
+    sizeRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    sizeControl: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    sizeLabel: {
+      fontSize: 12,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+    },
+    grid: {
+      alignSelf: 'center',
+      backgroundColor: RetroColors.casingBrown,
+      borderRadius: 6,
+      padding: 4,
+      gap: 4,
+      marginBottom: 6,
+    },
+    gridRow: {
+      flexDirection: 'row',
+      gap: 4,
+    },
+    cell: {
+      width: 46,
+      height: 34,
+    },
+    cellKey: {
+      flex: 1,
+      borderRadius: 4,
+      backgroundColor: RetroColors.buttonBeige,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    cellLegend: {
+      position: 'absolute',
+      top: 0,
+      fontSize: 8,
+      fontFamily: 'monospace',
+      color: RetroColors.textGray,
+    },
+    cellUnavailable: {
+      backgroundColor: RetroColors.buttonGray,
+      opacity: 0.6,
+    },
+    cellEmpty: {
+      flex: 1,
+      borderRadius: 4,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: RetroColors.buttonBeige,
+    },
+    cellEmptySelected: {
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    hint: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    message: {
+      fontSize: 11,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      color: RetroColors.textDark,
+      marginBottom: 8,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 8,
+    },
+    smallButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonGray,
+      borderRadius: 4,
+      paddingVertical: 8,
+      alignItems: 'center',
+      borderWidth: 2,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+    },
+    smallButtonDisabled: {
+      opacity: 0.4,
+    },
+    closeButton: {
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      paddingHorizontal: 24,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      marginTop: 8,
+      alignItems: 'center',
+    },
+    closeButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+    // Follows the finger while a key is dragged
+    dragKey: {
+      position: 'absolute',
+      left: -23,
+      top: -17,
+      width: 46,
+      height: 34,
+      borderRadius: 4,
+      backgroundColor: RetroColors.buttonBrown,
+      justifyContent: 'center',
+      alignItems: 'center',
+      opacity: 0.9,
+    },
+  });
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.title}>{t('layout.title')}</Text>
+
+          <ScrollView showsVerticalScrollIndicator={false} scrollEnabled={dragLabel === null}>
+            {/* Saved layouts for this mode; picking one puts it on the keypad */}
+            <View style={styles.chipRow}>
+              {[null, ...Object.keys(layouts.saved)].map((layoutName) => (
+                <Pressable
+                  key={layoutName ?? ''}
+                  style={[styles.chip, layouts.active === layoutName && styles.chipActive]}
+                  onPress={() => loadLayout(layoutName)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      layouts.active === layoutName && styles.chipTextActive,
+                    ]}
+                  >
+                    {layoutName ?? t('settings.keypad.standard')}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <View style={styles.sizeRow}>
+              {([
+                [t('layout.rows'), rows.length, (count: number) => handleResize(count, columnCount)],
+                [t('layout.columns'), columnCount, (count: number) => handleResize(rows.length, count)],
+              ] as const).map(([label, count, resize]) => (
+                <View key={label} style={styles.sizeControl}>
+                  <Text style={styles.sizeLabel}>{label}</Text>
+                  <Pressable style={styles.chip} onPress={() => resize(count - 1)}>
+                    <Text style={styles.chipText}>−</Text>
+                  </Pressable>
+                  <Text style={styles.sizeLabel}>{count}</Text>
+                  <Pressable style={styles.chip} onPress={() => resize(count + 1)}>
+                    <Text style={styles.chipText}>+</Text>
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+
+            {/* Arrange keys, or give keys second functions */}
+            <View style={styles.chipRow}>
+              {([
+                ['keys', t('layout.editKeys')],
+                ['secondary', t('layout.editSecondary')],
+              ] as const).map(([option, label]) => (
+                <Pressable
+                  key={option}
+                  style={[styles.chip, editing === option && styles.chipActive]}
+                  onPress={() => {
+                    setEditing(option);
+                    setSelected(null);
+                  }}
+                >
+                  <Text style={[styles.chipText, editing === option && styles.chipTextActive]}>
+                    {label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <View style={styles.grid}>
+              {rows.map((row, rowIndex) => (
+                <View key={`row-${rowIndex}`} style={styles.gridRow}>
+                  {row.map((label, colIndex) => (
+                    <View
+                      key={`cell-${rowIndex}-${colIndex}`}
+                      ref={(cell) => {
+                        cellRefs.current[`${rowIndex}-${colIndex}`] = cell;
+                      }}
+                      style={styles.cell}
+                    >
+                      {label === '' ? (
+                        <Pressable
+                          style={[styles.cellEmpty, selected !== null && styles.cellEmptySelected]}
+                          onPress={() => handleCellPress(rowIndex, colIndex)}
+                        />
+                      ) : (
+                        <DraggableKey
+                          label={label}
+                          legend={secondary[label]}
+                          style={[
+                            styles.cellKey,
+                            !isKeyAvailable(label, entryMode) && styles.cellUnavailable,
+                          ]}
+                          textStyle={styles.chipText}
+                          legendStyle={styles.cellLegend}
+                          onTap={() => handleCellPress(rowIndex, colIndex)}
+                          {...dragHandlers}
+                        />
+                      )}
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              {t(editing === 'keys' ? 'layout.gridHint' : 'layout.secondaryHint')}
+            </Text>
+            {rows.flat().some((label) => label !== '' && !isKeyAvailable(label, entryMode)) && (
+              <Text style={styles.hint}>{t('layout.otherEntryStyle')}</Text>
+            )}
+            {missing.length > 0 && (
+              <Text style={styles.message}>
+                {t('layout.missing', { count: missing.length, keys: missing.join(' ') })}
+              </Text>
+            )}
+
+            {/* Palette of every key the mode supports; keys already on the grid are dimmed */}
+            {editing === 'keys' && <Text style={styles.hint}>{t('layout.paletteHint')}</Text>}
+            <View style={styles.chipRow}>
+              {KEYPAD_PALETTES[mode]
+                .filter((label) => editing === 'keys' || isSecondaryKey(label, mode))
+                .map((label) => (
+                  <DraggableKey
+                    key={label}
+                    label={label}
+                    style={[
+                      styles.chip,
+                      selected === label && styles.chipActive,
+                      editing === 'keys' && placed.has(label) && styles.chipPlaced,
+                    ]}
+                    textStyle={[styles.chipText, selected === label && styles.chipTextActive]}
+                    onTap={handlePaletteTap}
+                    {...dragHandlers}
+                  />
+                ))}
+            </View>
+
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('layout.namePlaceholder')}
+              placeholderTextColor={RetroColors.textGray}
+              maxLength={24}
+            />
+            {message && (
+              <Text style={message.error ? styles.message : styles.hint}>{message.text}</Text>
+            )}
+
+            <View style={styles.buttonRow}>
+              <Pressable
+                style={[styles.smallButton, missing.length > 0 && styles.smallButtonDisabled]}
+                onPress={handleSave}
+                disabled={missing.length > 0}
+              >
+                <Text style={styles.chipText}>{t('layout.save')}</Text>
+              </Pressable>
+              <Pressable style={styles.smallButton} onPress={() => showLayout(standardLayout)}>
+                <Text style={styles.chipText}>{t('layout.reset')}</Text>
+              </Pressable>
+              <Pressable
+                style={[
+                  styles.smallButton,
+                  !(name.trim() in layouts.saved) && styles.smallButtonDisabled,
+                ]}
+                onPress={handleDelete}
+                disabled={!(name.trim() in layouts.saved)}
+              >
+                <Text style={styles.chipText}>{t('layout.delete')}</Text>
+              </Pressable>
+            </View>
+          </ScrollView>
+
+          <Pressable style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>{t('layout.close')}</Text>
+          </Pressable>
+        </View>
+
+        {dragLabel !== null && (
+          <Animated.View
+            pointerEvents="none"
+            style={[styles.dragKey, { transform: dragPosition.getTranslateTransform() }]}
+          >
+            <Text style={[styles.chipText, styles.chipTextActive]}>{dragLabel}</Text>
+          </Animated.View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+export default KeypadLayoutModal;
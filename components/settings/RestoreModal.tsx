@@ -0,0 +1,376 @@
+/**
+ * Restore backup modal
+ * Load a backup file, show what it would replace, then merge or overwrite
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Dimensions,
+  Platform,
+} from 'react-native';
+import { File } from 'expo-file-system';
+import { RetroColors } from '@/constants/Colors';
+import { CalculatorEngine } from '@/utils/calculator';
+import { formatFullDate } from '@/utils/dateFormatter';
+import {
+  getRestorePreview,
+  restoreBackup,
+  validateBackup,
+  BackupFile,
+  RestorePreview,
+} from '@/utils/backup';
+import { CurrencyInfo, RestoreMode } from '@/types/calculator';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface RestoreModalProps {
+  visible: boolean;
+  currency: CurrencyInfo;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+export const RestoreModal: React.FC<RestoreModalProps> = ({
+  visible,
+  currency,
+  onRestored,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [text, setText] = useState('');
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const windowHeight = Dimensions.get('window').height;
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setText('');
+    setBackup(null);
+    setPreview(null);
+    setMode('merge');
+    setMessage('');
+  }, [visible]);
+
+  const formatAmount = (value: number) => CalculatorEngine.formatCurrency(value, currency);
+
+  const handlePickFile = async () => {
+    try {
+      const picked = await File.pickFileAsync(undefined, 'application/json');
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (file) {
+        setText(await file.text());
+        setMessage('');
+      }
+    } catch (error) {
+      console.error('Error picking backup file:', error);
+      setMessage(t('restore.unreadableFile'));
+    }
+  };
+
+  const handleCheck = async () => {
+    const result = validateBackup(text.trim());
+    if (!result.backup) {
+      setMessage(result.error);
+      return;
+    }
+
+    setMessage('');
+    setBackup(result.backup);
+    setPreview(await getRestorePreview(result.backup));
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    setIsRestoring(true);
+    try {
+      const restored = await restoreBackup(backup, mode);
+      // Parts written before a failure are kept, so reload either way
+      onRestored();
+      if (restored) {
+        onClose();
+      } else {
+        setMessage(t('restore.failed'));
+      }
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setMessage(t('restore.failed'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    centeredView: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalView: {
+      backgroundColor: RetroColors.casingBeige,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      paddingBottom: 32,
+      maxHeight: windowHeight * 0.9,
+      borderTopWidth: 3,
+      borderTopColor: RetroColors.casingBrown,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginBottom: 4,
+      marginTop: 10,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      fontSize: 11,
+      color: RetroColors.textDark,
+      minHeight: 100,
+      textAlignVertical: 'top',
+    },
+    summary: {
+      backgroundColor: 'rgba(255, 255, 255, 0.5)',
+      borderRadius: 6,
+      borderLeftWidth: 4,
+      borderLeftColor: RetroColors.casingBrown,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    summaryText: {
+      fontSize: 12,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    note: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      fontStyle: 'italic',
+      marginTop: 8,
+    },
+    buttonGroup: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    optionButton: {
+      flex: 1,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      backgroundColor: RetroColors.buttonBeige,
+      alignItems: 'center',
+    },
+    optionButtonActive: {
+      backgroundColor: RetroColors.buttonBrown,
+    },
+    optionButtonText: {
+      fontSize: 11,
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+    },
+    optionButtonTextActive: {
+      color: RetroColors.textLight,
+    },
+    message: {
+      fontSize: 12,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginTop: 12,
+      textAlign: 'center',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 16,
+    },
+    actionButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      alignItems: 'center',
+    },
+    actionButtonDisabled: {
+      opacity: 0.5,
+    },
+    actionButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.title}>{t('restore.title')}</Text>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {preview && backup ? (
+              <>
+                <View style={styles.summary}>
+                  <Text style={styles.summaryText}>
+                    {t('restore.made', { date: formatFullDate(preview.createdAt) })}
+                  </Text>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryText}>{t('restore.tapeEntries')}</Text>
+                    <Text style={styles.summaryText}>
+                      {mode === 'merge'
+                        ? t('restore.merged', preview.history)
+                        : t('restore.replaced', preview.history)}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryText}>{t('restore.registerLines')}</Text>
+                    <Text style={styles.summaryText}>
+                      {mode === 'merge'
+                        ? t('restore.merged', preview.register)
+                        : t('restore.replaced', preview.register)}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryText}>{t('restore.balance')}</Text>
+                    <Text style={styles.summaryText}>
+                      {mode === 'merge'
+                        ? formatAmount(preview.lastBalance.stored)
+                        : `${formatAmount(preview.lastBalance.stored)} → ${formatAmount(preview.lastBalance.inBackup)}`}
+                    </Text>
+                  </View>
+                </View>
+
+                <Text style={styles.label}>{t('restore.how')}</Text>
+                <View style={styles.buttonGroup}>
+                  {(['merge', 'overwrite'] as const).map((value) => (
+                    <Pressable
+                      key={value}
+                      style={[styles.optionButton, mode === value && styles.optionButtonActive]}
+                      onPress={() => setMode(value)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          mode === value && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {t(`restore.mode.${value}`)}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Text style={styles.note}>
+                  {t(`restore.mode.${mode}Hint`)}
+                </Text>
+              </>
+            ) : (
+              <>
+                {Platform.OS !== 'web' && (
+                  <View style={styles.buttonGroup}>
+                    <Pressable style={styles.actionButton} onPress={handlePickFile}>
+                      <Text style={styles.actionButtonText}>{t('restore.pickFile')}</Text>
+                    </Pressable>
+                  </View>
+                )}
+                <Text style={styles.label}>{t('restore.contents')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={text}
+                  onChangeText={setText}
+                  placeholder={t('restore.placeholder')}
+                  placeholderTextColor={RetroColors.textGray}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </>
+            )}
+
+            {message !== '' && <Text style={styles.message}>{message}</Text>}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Pressable style={styles.actionButton} onPress={onClose}>
+              <Text style={styles.actionButtonText}>{t('restore.cancel')}</Text>
+            </Pressable>
+            {preview ? (
+              <Pressable
+                style={[styles.actionButton, isRestoring && styles.actionButtonDisabled]}
+                onPress={handleRestore}
+                disabled={isRestoring}
+              >
+                <Text style={styles.actionButtonText}>{t('restore.restore')}</Text>
+              </Pressable>
+            ) : (
+              <Pressable style={styles.actionButton} onPress={handleCheck}>
+                <Text style={styles.actionButtonText}>{t('restore.check')}</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default RestoreModal;
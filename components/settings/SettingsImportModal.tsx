@@ -0,0 +1,268 @@
+/**
+ * Import settings modal
+ * Load a settings file, show what validation had to repair, then apply it
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Modal,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  Dimensions,
+  Platform,
+} from 'react-native';
+import { File } from 'expo-file-system';
+import { RetroColors } from '@/constants/Colors';
+import { describeRepair, parseSettingsFile } from '@/utils/settings';
+import { AppSettings, SettingsRepair } from '@/types/calculator';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface SettingsImportModalProps {
+  visible: boolean;
+  onApply: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsImportModal: React.FC<SettingsImportModalProps> = ({
+  visible,
+  onApply,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<{ settings: AppSettings; repairs: SettingsRepair[] } | null>(
+    null
+  );
+  const [message, setMessage] = useState('');
+  const windowHeight = Dimensions.get('window').height;
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setText('');
+    setResult(null);
+    setMessage('');
+  }, [visible]);
+
+  const handlePickFile = async () => {
+    try {
+      const picked = await File.pickFileAsync(undefined, 'application/json');
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (file) {
+        setText(await file.text());
+        setMessage('');
+      }
+    } catch (error) {
+      console.error('Error picking settings file:', error);
+      setMessage(t('settingsImport.unreadableFile'));
+    }
+  };
+
+  const handleCheck = () => {
+    const parsed = parseSettingsFile(text.trim());
+    if (parsed.error !== undefined) {
+      setMessage(parsed.error);
+      return;
+    }
+
+    setMessage('');
+    setResult(parsed);
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+
+    onApply(result.settings);
+    onClose();
+  };
+
+  const styles = StyleSheet.create({
+    centeredView: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    modalView: {
+      backgroundColor: RetroColors.casingBeige,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      paddingBottom: 32,
+      maxHeight: windowHeight * 0.9,
+      borderTopWidth: 3,
+      borderTopColor: RetroColors.casingBrown,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      textTransform: 'uppercase',
+      letterSpacing: 1,
+      marginBottom: 4,
+      marginTop: 10,
+    },
+    input: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontFamily: 'monospace',
+      fontSize: 11,
+      color: RetroColors.textDark,
+      minHeight: 100,
+      textAlignVertical: 'top',
+    },
+    summary: {
+      backgroundColor: 'rgba(255, 255, 255, 0.5)',
+      borderRadius: 6,
+      borderLeftWidth: 4,
+      borderLeftColor: RetroColors.casingBrown,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+    },
+    summaryText: {
+      fontSize: 12,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+    },
+    note: {
+      fontSize: 11,
+      color: RetroColors.textGray,
+      fontFamily: 'monospace',
+      fontStyle: 'italic',
+      marginTop: 8,
+    },
+    message: {
+      fontSize: 12,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginTop: 12,
+      textAlign: 'center',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 16,
+    },
+    actionButton: {
+      flex: 1,
+      backgroundColor: RetroColors.buttonOrange,
+      borderRadius: 6,
+      paddingVertical: 12,
+      borderWidth: 3,
+      borderTopColor: RetroColors.shadowLight,
+      borderLeftColor: RetroColors.shadowLight,
+      borderBottomColor: RetroColors.shadowDark,
+      borderRightColor: RetroColors.shadowDark,
+      ...Platform.select({
+        web: {
+          boxShadow: '2px 2px 3px rgba(0, 0, 0, 0.3)',
+        },
+        default: {
+          elevation: 4,
+          shadowColor: '#000',
+          shadowOffset: { width: 2, height: 2 },
+          shadowOpacity: 0.3,
+          shadowRadius: 3,
+        },
+      }),
+      alignItems: 'center',
+    },
+    actionButtonText: {
+      color: RetroColors.textLight,
+      fontSize: 14,
+      fontWeight: 'bold',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.centeredView}>
+        <View style={styles.modalView}>
+          <Text style={styles.title}>{t('settingsImport.title')}</Text>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {result ? (
+              <View style={styles.summary}>
+                {result.repairs.length === 0 ? (
+                  <Text style={styles.summaryText}>{t('settingsImport.valid')}</Text>
+                ) : (
+                  <>
+                    <Text style={styles.summaryText}>
+                      {t('settingsImport.repaired', { count: result.repairs.length })}
+                    </Text>
+                    {result.repairs.map((repair) => (
+                      <Text key={repair.field} style={styles.note}>
+                        {repair.field}: {describeRepair(repair)}
+                      </Text>
+                    ))}
+                  </>
+                )}
+              </View>
+            ) : (
+              <>
+                {Platform.OS !== 'web' && (
+                  <Pressable style={styles.actionButton} onPress={handlePickFile}>
+                    <Text style={styles.actionButtonText}>{t('settingsImport.pickFile')}</Text>
+                  </Pressable>
+                )}
+                <Text style={styles.label}>{t('settingsImport.file')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={text}
+                  onChangeText={setText}
+                  placeholder={t('settingsImport.placeholder')}
+                  placeholderTextColor={RetroColors.textGray}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </>
+            )}
+
+            {message !== '' && <Text style={styles.message}>{message}</Text>}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Pressable style={styles.actionButton} onPress={onClose}>
+              <Text style={styles.actionButtonText}>{t('settingsImport.cancel')}</Text>
+            </Pressable>
+            {result ? (
+              <Pressable style={styles.actionButton} onPress={handleApply}>
+                <Text style={styles.actionButtonText}>{t('settingsImport.apply')}</Text>
+              </Pressable>
+            ) : (
+              <Pressable style={styles.actionButton} onPress={handleCheck}>
+                <Text style={styles.actionButtonText}>{t('settingsImport.check')}</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default SettingsImportModal;
@@ -3,12 +3,13 @@
  * Allows users to configure calculator preferences
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   StyleSheet,
   Modal,
   View,
   Text,
+  TextInput,
   ScrollView,
   Pressable,
   Switch,
@@ -16,13 +17,44 @@ import {
   Platform,
 } from 'react-native';
 import { RetroColors } from '@/constants/Colors';
-import { AppSettings, CalculatorMode, LcdColor } from '@/types/calculator';
-import { CURRENCY_SYMBOLS } from '@/constants/calculator';
+import {
+  AppSettings,
+  CalculatorMode,
+  DigitGrouping,
+  EntryMode,
+  KeyBindings,
+  Language,
+  ModeKeypadLayouts,
+  LcdColor,
+  NumberLocale,
+  SettingsDiagnostics,
+  StartupBehavior,
+} from '@/types/calculator';
+import {
+  CURRENCIES,
+  LANGUAGES,
+  NUMBER_LOCALES,
+  RETENTION_DAY_OPTIONS,
+} from '@/constants/calculator';
+import { createBackup } from '@/utils/backup';
+import { shareExportFile } from '@/utils/export';
+import { buildSettingsExport, describeRepair } from '@/utils/settings';
+import { getCurrency } from '@/utils/currency';
+import { CalculatorEngine } from '@/utils/calculator';
+import { formatNumberText, getNumberFormat } from '@/utils/numberFormat';
+import { getSettingsDiagnostics } from '@/utils/storage';
+import { formatFullDate } from '@/utils/dateFormatter';
+import { useTranslation } from '@/hooks/useTranslation';
+import { RestoreModal } from './RestoreModal';
+import { SettingsImportModal } from './SettingsImportModal';
+import { KeyBindingsEditor } from './KeyBindingsEditor';
+import { KeypadLayoutModal } from './KeypadLayoutModal';
 
 interface SettingsModalProps {
   visible: boolean;
   settings: AppSettings;
   onSettingsChange: (newSettings: AppSettings) => void;
+  onRestore?: () => void; // Stored data was replaced from a backup; reload it
   onClose: () => void;
 }
 
@@ -30,14 +62,62 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   visible,
   settings,
   onSettingsChange,
+  onRestore,
   onClose,
 }) => {
+  const { t } = useTranslation();
   const windowHeight = Dimensions.get('window').height;
+  const [showRestore, setShowRestore] = useState(false);
+  const [backupMessage, setBackupMessage] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [showKeypadEditor, setShowKeypadEditor] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<SettingsDiagnostics | null>(null);
+  const [currencySearch, setCurrencySearch] = useState('');
+  const currency = getCurrency(settings.currency);
+  const keypadLayouts = settings.keypadLayouts[settings.mode];
+  const search = currencySearch.trim().toLowerCase();
+  const currencyMatches = CURRENCIES.filter(
+    (option) =>
+      search === '' ||
+      option.code.toLowerCase().includes(search) ||
+      option.name.toLowerCase().includes(search) ||
+      option.symbol.toLowerCase() === search
+  );
+
+  useEffect(() => {
+    if (visible) {
+      getSettingsDiagnostics().then(setDiagnostics);
+    }
+  }, [visible]);
+
+  const handleLanguageChange = (language: Language) => {
+    onSettingsChange({ ...settings, language });
+  };
 
   const handleModeChange = (mode: CalculatorMode) => {
     onSettingsChange({ ...settings, mode });
   };
 
+  const handleEntryModeChange = (entryMode: EntryMode) => {
+    onSettingsChange({ ...settings, entryMode });
+  };
+
+  const handleStartupBehaviorChange = (startupBehavior: StartupBehavior) => {
+    onSettingsChange({ ...settings, startupBehavior });
+  };
+
+  const handleCurrencyChange = (code: string) => {
+    onSettingsChange({ ...settings, currency: code });
+  };
+
+  const handleNumberLocaleChange = (numberLocale: NumberLocale) => {
+    onSettingsChange({ ...settings, numberLocale });
+  };
+
+  const handleDigitGroupingChange = (digitGrouping: DigitGrouping) => {
+    onSettingsChange({ ...settings, digitGrouping });
+  };
+
   const handleLcdColorChange = (color: LcdColor) => {
     onSettingsChange({ ...settings, lcdColor: color });
   };
@@ -46,14 +126,36 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     onSettingsChange({ ...settings, soundEnabled });
   };
 
-  const handleRetentionChange = (days: 30 | 60 | 90) => {
+  const handleRetentionChange = (days: AppSettings['retentionDays']) => {
     onSettingsChange({ ...settings, retentionDays: days });
   };
 
+  const handleKeyBindingsChange = (keyBindings: KeyBindings) => {
+    onSettingsChange({ ...settings, keyBindings });
+  };
+
+  // Layouts are kept per mode; the editor works on the selected mode's
+  const handleKeypadLayoutsChange = (layouts: ModeKeypadLayouts) => {
+    onSettingsChange({
+      ...settings,
+      keypadLayouts: { ...settings.keypadLayouts, [settings.mode]: layouts },
+    });
+  };
+
   const handleShowModeWarningToggle = (show: boolean) => {
     onSettingsChange({ ...settings, showModeWarning: show });
   };
 
+  const handleBackup = async () => {
+    const shared = await shareExportFile(await createBackup());
+    setBackupMessage(shared ? '' : t('settings.backup.shareUnavailable'));
+  };
+
+  const handleExportSettings = async () => {
+    const shared = await shareExportFile(buildSettingsExport(settings));
+    setBackupMessage(shared ? '' : t('settings.backup.shareUnavailable'));
+  };
+
   const styles = StyleSheet.create({
     centeredView: {
       flex: 1,
@@ -146,12 +248,49 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     optionButtonTextActive: {
       color: RetroColors.textLight,
     },
+    searchInput: {
+      backgroundColor: RetroColors.paperWhite,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: RetroColors.casingBrown,
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      fontFamily: 'monospace',
+      fontSize: 13,
+      color: RetroColors.textDark,
+      marginBottom: 8,
+    },
+    compactButton: {
+      paddingHorizontal: 4,
+    },
+    currencyGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    currencyButton: {
+      flex: 0,
+      minWidth: 56,
+      paddingHorizontal: 8,
+    },
     switchContainer: {
       flexDirection: 'row',
       justifyContent: 'space-between',
       alignItems: 'center',
       paddingVertical: 4,
     },
+    backupMessage: {
+      fontSize: 11,
+      color: RetroColors.errorRed,
+      fontFamily: 'monospace',
+      marginTop: 8,
+    },
+    repairText: {
+      fontSize: 11,
+      color: RetroColors.textDark,
+      fontFamily: 'monospace',
+      marginTop: 4,
+    },
     closeButton: {
       backgroundColor: RetroColors.buttonOrange,
       borderRadius: 6,
@@ -195,14 +334,42 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       <View style={styles.centeredView}>
         <View style={styles.modalView}>
           <View style={styles.header}>
-            <Text style={styles.title}>⚙️ SETTINGS ⚙️</Text>
-            <Text style={styles.closeHint}>Swipe down or tap close to exit</Text>
+            <Text style={styles.title}>{t('settings.title')}</Text>
+            <Text style={styles.closeHint}>{t('settings.closeHint')}</Text>
           </View>
 
           <ScrollView showsVerticalScrollIndicator={false}>
+            {/* Language */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
+              <View style={styles.optionRow}>
+                <View style={styles.buttonGroup}>
+                  {(Object.keys(LANGUAGES) as Language[]).map((language) => (
+                    <Pressable
+                      key={language}
+                      style={[
+                        styles.optionButton,
+                        settings.language === language && styles.optionButtonActive,
+                      ]}
+                      onPress={() => handleLanguageChange(language)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          settings.language === language && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {LANGUAGES[language]}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            </View>
+
             {/* Calculator Mode */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Calculator Mode</Text>
+              <Text style={styles.sectionTitle}>{t('settings.mode')}</Text>
               <View style={styles.optionContainer}>
                 <View style={styles.buttonGroup}>
                   <Pressable
@@ -219,7 +386,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                           styles.optionButtonTextActive,
                       ]}
                     >
-                      Checkbook
+                      {t('settings.mode.checkbook')}
                     </Text>
                   </Pressable>
                   <Pressable
@@ -237,16 +404,186 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                           styles.optionButtonTextActive,
                       ]}
                     >
-                      Scientific
+                      {t('settings.mode.scientific')}
                     </Text>
                   </Pressable>
                 </View>
               </View>
             </View>
 
+            {/* Entry Style */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.entryStyle')}</Text>
+              <View style={styles.optionContainer}>
+                <View style={styles.buttonGroup}>
+                  {([
+                    ['immediate', t('settings.entryStyle.immediate')],
+                    ['algebraic', t('settings.entryStyle.algebraic')],
+                  ] as const).map(([entryMode, label]) => (
+                    <Pressable
+                      key={entryMode}
+                      style={[
+                        styles.optionButton,
+                        settings.entryMode === entryMode &&
+                          styles.optionButtonActive,
+                      ]}
+                      onPress={() => handleEntryModeChange(entryMode)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          settings.entryMode === entryMode &&
+                            styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+              <Text style={styles.optionLabel}>
+                {settings.entryMode === 'algebraic'
+                  ? t('settings.entryStyle.algebraicExample')
+                  : t('settings.entryStyle.immediateExample')}
+              </Text>
+            </View>
+
+            {/* On Launch */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.onLaunch')}</Text>
+              <View style={styles.optionContainer}>
+                <View style={styles.buttonGroup}>
+                  {([
+                    ['resume', t('settings.onLaunch.resume')],
+                    ['lastBalance', t('settings.onLaunch.lastBalance')],
+                  ] as const).map(([startupBehavior, label]) => (
+                    <Pressable
+                      key={startupBehavior}
+                      style={[
+                        styles.optionButton,
+                        settings.startupBehavior === startupBehavior &&
+                          styles.optionButtonActive,
+                      ]}
+                      onPress={() => handleStartupBehaviorChange(startupBehavior)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          settings.startupBehavior === startupBehavior &&
+                            styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+              <Text style={styles.optionLabel}>
+                {settings.startupBehavior === 'resume'
+                  ? t('settings.onLaunch.resumeHint')
+                  : t('settings.onLaunch.lastBalanceHint')}
+              </Text>
+            </View>
+
+            {/* Currency */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.currency')}</Text>
+              <Text style={styles.optionLabel}>
+                {currency.name} · {CalculatorEngine.formatCurrency(1234.5, currency)}
+              </Text>
+              <TextInput
+                style={styles.searchInput}
+                value={currencySearch}
+                onChangeText={setCurrencySearch}
+                placeholder={t('settings.currency.search')}
+                placeholderTextColor={RetroColors.textGray}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.currencyGrid}>
+                {currencyMatches.map((option) => (
+                  <Pressable
+                    key={option.code}
+                    style={[
+                      styles.optionButton,
+                      styles.currencyButton,
+                      currency.code === option.code && styles.optionButtonActive,
+                    ]}
+                    onPress={() => handleCurrencyChange(option.code)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionButtonText,
+                        currency.code === option.code && styles.optionButtonTextActive,
+                      ]}
+                    >
+                      {option.code}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            {/* Number Format */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.numberFormat')}</Text>
+              <View style={styles.optionContainer}>
+                <View style={styles.buttonGroup}>
+                  {(Object.keys(NUMBER_LOCALES) as NumberLocale[]).map((numberLocale) => (
+                    <Pressable
+                      key={numberLocale}
+                      style={[
+                        styles.optionButton,
+                        styles.compactButton,
+                        settings.numberLocale === numberLocale && styles.optionButtonActive,
+                      ]}
+                      onPress={() => handleNumberLocaleChange(numberLocale)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          settings.numberLocale === numberLocale && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {NUMBER_LOCALES[numberLocale].example}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+              <Text style={styles.optionLabel}>{t('settings.numberFormat.grouping')}</Text>
+              <View style={styles.buttonGroup}>
+                {(['thousands', 'indian', 'none'] as const).map((digitGrouping) => (
+                  <Pressable
+                    key={digitGrouping}
+                    style={[
+                      styles.optionButton,
+                      styles.compactButton,
+                      settings.digitGrouping === digitGrouping && styles.optionButtonActive,
+                    ]}
+                    onPress={() => handleDigitGroupingChange(digitGrouping)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionButtonText,
+                        settings.digitGrouping === digitGrouping && styles.optionButtonTextActive,
+                      ]}
+                    >
+                      {formatNumberText(
+                        '1234567',
+                        getNumberFormat({ numberLocale: settings.numberLocale, digitGrouping })
+                      )}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
             {/* LCD Color */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>LCD Color</Text>
+              <Text style={styles.sectionTitle}>{t('settings.lcdColor')}</Text>
               <View style={styles.optionContainer}>
                 <View style={styles.buttonGroup}>
                   <Pressable
@@ -264,7 +601,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                           styles.optionButtonTextActive,
                       ]}
                     >
-                      🟡 Amber
+                      {t('settings.lcdColor.amber')}
                     </Text>
                   </Pressable>
                   <Pressable
@@ -282,7 +619,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                           styles.optionButtonTextActive,
                       ]}
                     >
-                      🟢 Green
+                      {t('settings.lcdColor.green')}
                     </Text>
                   </Pressable>
                 </View>
@@ -291,9 +628,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
             {/* Sound Effects */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Sound Effects</Text>
+              <Text style={styles.sectionTitle}>{t('settings.sound')}</Text>
               <View style={styles.switchContainer}>
-                <Text style={styles.optionLabel}>Enable Sounds</Text>
+                <Text style={styles.optionLabel}>{t('settings.sound.enable')}</Text>
                 <Switch
                   value={settings.soundEnabled}
                   onValueChange={handleSoundToggle}
@@ -312,12 +649,12 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
             {/* History Retention */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>History Retention</Text>
+              <Text style={styles.sectionTitle}>{t('settings.retention')}</Text>
               <Text style={styles.optionLabel}>
-                Auto-delete older than:
+                {t('settings.retention.hint')}
               </Text>
               <View style={styles.buttonGroup}>
-                {([30, 60, 90] as const).map((days) => (
+                {RETENTION_DAY_OPTIONS.map((days) => (
                   <Pressable
                     key={days}
                     style={[
@@ -334,7 +671,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                           styles.optionButtonTextActive,
                       ]}
                     >
-                      {days}d
+                      {t('settings.retention.days', { count: days })}
                     </Text>
                   </Pressable>
                 ))}
@@ -343,9 +680,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
             {/* Mode Warning */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Notifications</Text>
+              <Text style={styles.sectionTitle}>{t('settings.notifications')}</Text>
               <View style={styles.switchContainer}>
-                <Text style={styles.optionLabel}>Show Mode Warning</Text>
+                <Text style={styles.optionLabel}>{t('settings.notifications.modeWarning')}</Text>
                 <Switch
                   value={settings.showModeWarning}
                   onValueChange={handleShowModeWarningToggle}
@@ -361,13 +698,122 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 />
               </View>
             </View>
+
+            {/* Keyboard */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.keyboard')}</Text>
+              <KeyBindingsEditor
+                bindings={settings.keyBindings}
+                onChange={handleKeyBindingsChange}
+              />
+            </View>
+
+            {/* Keypad */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.keypad')}</Text>
+              <Text style={styles.optionLabel}>
+                {t('settings.keypad.hint', { mode: t(`settings.mode.${settings.mode}`) })}
+              </Text>
+              <View style={styles.buttonGroup}>
+                {[null, ...Object.keys(keypadLayouts.saved)].map((layoutName) => (
+                  <Pressable
+                    key={layoutName ?? ''}
+                    style={[
+                      styles.optionButton,
+                      keypadLayouts.active === layoutName && styles.optionButtonActive,
+                    ]}
+                    onPress={() => handleKeypadLayoutsChange({ ...keypadLayouts, active: layoutName })}
+                  >
+                    <Text
+                      style={[
+                        styles.optionButtonText,
+                        keypadLayouts.active === layoutName && styles.optionButtonTextActive,
+                      ]}
+                    >
+                      {layoutName ?? t('settings.keypad.standard')}
+                    </Text>
+                  </Pressable>
+                ))}
+                <Pressable style={styles.optionButton} onPress={() => setShowKeypadEditor(true)}>
+                  <Text style={styles.optionButtonText}>{t('settings.keypad.edit')}</Text>
+                </Pressable>
+              </View>
+            </View>
+
+            {/* Backup */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.backup')}</Text>
+              <Text style={styles.optionLabel}>{t('settings.backup.hint')}</Text>
+              <View style={styles.buttonGroup}>
+                <Pressable style={styles.optionButton} onPress={handleBackup}>
+                  <Text style={styles.optionButtonText}>{t('settings.backup.backUp')}</Text>
+                </Pressable>
+                <Pressable style={styles.optionButton} onPress={() => setShowRestore(true)}>
+                  <Text style={styles.optionButtonText}>{t('settings.backup.restore')}</Text>
+                </Pressable>
+              </View>
+              <Text style={styles.optionLabel}>{t('settings.backup.preferencesHint')}</Text>
+              <View style={styles.buttonGroup}>
+                <Pressable style={styles.optionButton} onPress={handleExportSettings}>
+                  <Text style={styles.optionButtonText}>{t('settings.backup.export')}</Text>
+                </Pressable>
+                <Pressable style={styles.optionButton} onPress={() => setShowImport(true)}>
+                  <Text style={styles.optionButtonText}>{t('settings.backup.import')}</Text>
+                </Pressable>
+              </View>
+              {backupMessage !== '' && <Text style={styles.backupMessage}>{backupMessage}</Text>}
+            </View>
+
+            {/* Diagnostics */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('settings.diagnostics')}</Text>
+              {diagnostics ? (
+                <>
+                  <Text style={styles.optionLabel}>
+                    {t('settings.diagnostics.repaired', {
+                      count: diagnostics.repairs.length,
+                      date: formatFullDate(diagnostics.checkedAt),
+                    })}
+                  </Text>
+                  {diagnostics.repairs.map((repair) => (
+                    <Text key={repair.field} style={styles.repairText}>
+                      {repair.field}: {describeRepair(repair)}
+                    </Text>
+                  ))}
+                </>
+              ) : (
+                <Text style={styles.optionLabel}>{t('settings.diagnostics.clean')}</Text>
+              )}
+            </View>
           </ScrollView>
 
           <Pressable style={styles.closeButton} onPress={onClose}>
-            <Text style={styles.closeButtonText}>CLOSE</Text>
+            <Text style={styles.closeButtonText}>{t('settings.close')}</Text>
           </Pressable>
         </View>
       </View>
+
+      <RestoreModal
+        visible={showRestore}
+        currency={currency}
+        onRestored={() => onRestore?.()}
+        onClose={() => setShowRestore(false)}
+      />
+
+      <KeypadLayoutModal
+        visible={showKeypadEditor}
+        mode={settings.mode}
+        entryMode={settings.entryMode}
+        layouts={keypadLayouts}
+        onChange={handleKeypadLayoutsChange}
+        onClose={() => setShowKeypadEditor(false)}
+      />
+
+      <SettingsImportModal
+        visible={showImport}
+        onApply={onSettingsChange}
+        onClose={() => setShowImport(false)}
+      />
     </Modal>
   );
 };
@@ -2,27 +2,175 @@
  * Calculator configuration and layout
  */
 
+import {
+  CalculatorErrorCode,
+  CalculatorMode,
+  EntryMode,
+  ErrorRecoveryAction,
+  ScientificFunction,
+  Operation,
+  AngleUnit,
+  MemoryState,
+  StorageBackendKind,
+  CsvColumnMapping,
+  AppSettings,
+  CurrencyInfo,
+  NumberLocale,
+  Language,
+  KeyBindings,
+  KeypadLayouts,
+} from '@/types/calculator';
+
 export const BUTTON_SIZE = 70;
+export const BUTTON_HEIGHT_COMPACT_RATIO = 0.62; // Scientific keypad has more rows to fit
+export const MAX_FULL_SIZE_ROWS = 6; // Layouts with more rows use compact keys
 export const BUTTON_GAP = 8;
 export const MAX_DISPLAY_LENGTH = 15;
-export const DECIMAL_PLACES_CHECKBOOK = 2;
+export const DECIMAL_PLACES_CHECKBOOK = 2; // Default currency's minor units; see CURRENCIES
 export const DECIMAL_PLACES_SCIENTIFIC = 8;
+export const MAX_DISPLAY_VALUE = '999999999.99'; // Kept as a string so it stays exact
+export const INTERMEDIATE_DECIMAL_PLACES = 20; // Guard digits for division before final rounding
+export const FUNCTION_SIGNIFICANT_DIGITS = 15; // Strips binary noise from Math.* results
+export const MAX_FACTORIAL_INPUT = 20;
 export const UNDO_REDO_STACK_SIZE = 20;
 export const UNDO_REDO_TIMEOUT = 5000; // 5 seconds for older users
 export const ERROR_MESSAGE_TIMEOUT = 5000; // 5 seconds
 export const MODE_SWITCH_TIMEOUT = 5000; // 5 seconds
+export const SESSION_SAVE_DELAY = 500; // Debounce for session snapshots while typing
+export const KEY_RELEASE_DELAY = 120; // Keypad key stays down this long when the platform sends no key-up
 
 // Checkbook mode button layout
-// Simplified for checkbook balancing - no memory or negative numbers
+// Simplified for checkbook balancing - no negative numbers
 // Using horizontal undo/redo arrows: ⟲ (undo left) and ⟳ (redo right)
+// M▾ opens the named memory registers
+// SHIFT makes the next key press its second function; C is the second function of ←
 export const CHECKBOOK_LAYOUT = [
+  ['MC', 'MR', 'M−', 'M+', 'M▾'],
   ['7', '8', '9', '÷', '←'],
   ['4', '5', '6', '×', '⟲'],
   ['1', '2', '3', '-', '⟳'],
   ['0', '.', 'AC', '+', '='],
-  ['C', '', '', '', ''],  // Placeholder row for future features
+  ['SHIFT', '◇', '*', 'GT', 'REG'],  // Adding-machine subtotal, total, grand total and post to register
+];
+
+// Scientific mode adds four function rows above the standard keypad
+export const SCIENTIFIC_LAYOUT = [
+  ['DRG', 'π', 'e', 'n!', '1/x'],
+  ['sin', 'cos', 'tan', 'log', 'ln'],
+  ['sin⁻¹', 'cos⁻¹', 'tan⁻¹', '10ˣ', 'eˣ'],
+  ['x²', '√', 'xʸ', 'ʸ√x', '±'],
+  ...CHECKBOOK_LAYOUT,
+];
+
+// Algebraic entry swaps the adding-machine row for grouping and percent keys
+const ALGEBRAIC_ROW = ['SHIFT', '(', ')', '%', 'REG'];
+
+export const BUTTON_LAYOUTS: Record<CalculatorMode, Record<EntryMode, string[][]>> = {
+  checkbook: {
+    immediate: CHECKBOOK_LAYOUT,
+    algebraic: [...CHECKBOOK_LAYOUT.slice(0, -1), ALGEBRAIC_ROW],
+  },
+  scientific: {
+    immediate: SCIENTIFIC_LAYOUT,
+    algebraic: [...SCIENTIFIC_LAYOUT.slice(0, -1), ALGEBRAIC_ROW],
+  },
+};
+
+// Keys no built-in keypad has room for; custom keypads and second functions can use them
+const EXTRA_KEYS = ['C', '00', '000'];
+
+// Every label found on a keypad, for checking key bindings
+export const KEYPAD_LABELS = [
+  ...new Set([...SCIENTIFIC_LAYOUT.flat(), ...ALGEBRAIC_ROW, ...EXTRA_KEYS]),
 ];
 
+// Keys a custom keypad can hold in each mode
+export const KEYPAD_PALETTES: Record<CalculatorMode, string[]> = {
+  checkbook: [...new Set([...CHECKBOOK_LAYOUT.flat(), ...ALGEBRAIC_ROW, ...EXTRA_KEYS])],
+  scientific: KEYPAD_LABELS,
+};
+
+// Second functions of the built-in keypads: key → key its long press (or SHIFT, then the key) presses
+export const DEFAULT_SECONDARY_KEYS: Record<string, string> = {
+  '←': 'C',
+  '÷': '%',
+  '0': '00',
+};
+
+// A custom keypad can't be saved without these
+export const ESSENTIAL_KEYS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '=', 'AC'];
+
+// Keys that only work in one entry style; a custom keypad shows them disabled in the other
+export const ENTRY_MODE_ONLY_KEYS: Record<EntryMode, string[]> = {
+  immediate: ['◇', '*', 'GT'],
+  algebraic: ['(', ')'],
+};
+
+export const MAX_LAYOUT_ROWS = 10;
+export const MAX_LAYOUT_COLUMNS = 6;
+
+export const DEFAULT_KEYPAD_LAYOUTS: KeypadLayouts = {
+  checkbook: { active: null, saved: {} },
+  scientific: { active: null, saved: {} },
+};
+
+// Hardware keyboard and numpad keys; numpad keys report the same key names as the main block
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  '0': '0',
+  '1': '1',
+  '2': '2',
+  '3': '3',
+  '4': '4',
+  '5': '5',
+  '6': '6',
+  '7': '7',
+  '8': '8',
+  '9': '9',
+  '.': '.',
+  ',': '.', // Numpad decimal key on comma-decimal keyboard layouts
+  '+': '+',
+  '-': '-',
+  '*': '×',
+  '/': '÷',
+  '=': '=',
+  'Enter': '=',
+  '%': '%',
+  '(': '(',
+  ')': ')',
+  'Backspace': '←',
+  'Escape': 'AC',
+  'Delete': 'C',
+  'Ctrl+Z': '⟲',
+  'Ctrl+Y': '⟳',
+};
+
+// Scientific keys that apply a function to the current value
+export const SCIENTIFIC_FUNCTION_KEYS: Record<string, ScientificFunction> = {
+  'sin': 'sin',
+  'cos': 'cos',
+  'tan': 'tan',
+  'sin⁻¹': 'asin',
+  'cos⁻¹': 'acos',
+  'tan⁻¹': 'atan',
+  'log': 'log',
+  'ln': 'ln',
+  '10ˣ': 'exp10',
+  'eˣ': 'exp',
+  'x²': 'square',
+  '√': 'sqrt',
+  'n!': 'factorial',
+  '1/x': 'reciprocal',
+};
+
+// Scientific keys that act as binary operators
+export const SCIENTIFIC_OPERATOR_KEYS: Record<string, Exclude<Operation, null>> = {
+  'xʸ': '^',
+  'ʸ√x': 'ʸ√',
+};
+
+// DRG key cycles through angle units
+export const ANGLE_UNITS: AngleUnit[] = ['deg', 'rad', 'grad'];
+
 // Button type categories for styling
 export const BUTTON_TYPES = {
   NUMBER: 'number',
@@ -47,13 +195,39 @@ export const BUTTON_CATEGORIES: Record<string, string> = {
   '7': BUTTON_TYPES.NUMBER,
   '8': BUTTON_TYPES.NUMBER,
   '9': BUTTON_TYPES.NUMBER,
+  '00': BUTTON_TYPES.NUMBER,
+  '000': BUTTON_TYPES.NUMBER,
   '.': BUTTON_TYPES.FUNCTION,
+  '(': BUTTON_TYPES.FUNCTION,
+  ')': BUTTON_TYPES.FUNCTION,
+  '%': BUTTON_TYPES.FUNCTION,
+  '±': BUTTON_TYPES.FUNCTION,
+
+  // Scientific functions and constants
+  'sin': BUTTON_TYPES.FUNCTION,
+  'cos': BUTTON_TYPES.FUNCTION,
+  'tan': BUTTON_TYPES.FUNCTION,
+  'sin⁻¹': BUTTON_TYPES.FUNCTION,
+  'cos⁻¹': BUTTON_TYPES.FUNCTION,
+  'tan⁻¹': BUTTON_TYPES.FUNCTION,
+  'log': BUTTON_TYPES.FUNCTION,
+  'ln': BUTTON_TYPES.FUNCTION,
+  '10ˣ': BUTTON_TYPES.FUNCTION,
+  'eˣ': BUTTON_TYPES.FUNCTION,
+  'x²': BUTTON_TYPES.FUNCTION,
+  '√': BUTTON_TYPES.FUNCTION,
+  'n!': BUTTON_TYPES.FUNCTION,
+  '1/x': BUTTON_TYPES.FUNCTION,
+  'π': BUTTON_TYPES.FUNCTION,
+  'e': BUTTON_TYPES.FUNCTION,
 
   // Operators
   '+': BUTTON_TYPES.OPERATOR,
   '-': BUTTON_TYPES.OPERATOR,
   '×': BUTTON_TYPES.OPERATOR,
   '÷': BUTTON_TYPES.OPERATOR,
+  'xʸ': BUTTON_TYPES.OPERATOR,
+  'ʸ√x': BUTTON_TYPES.OPERATOR,
 
   // Equals
   '=': BUTTON_TYPES.EQUALS,
@@ -62,29 +236,170 @@ export const BUTTON_CATEGORIES: Record<string, string> = {
   'AC': BUTTON_TYPES.CONTROL,
   'C': BUTTON_TYPES.CONTROL,
   '←': BUTTON_TYPES.CONTROL,
+  'DRG': BUTTON_TYPES.CONTROL,
+  'SHIFT': BUTTON_TYPES.CONTROL,
+
+  // Memory
+  'MC': BUTTON_TYPES.MEMORY,
+  'MR': BUTTON_TYPES.MEMORY,
+  'M−': BUTTON_TYPES.MEMORY,
+  'M+': BUTTON_TYPES.MEMORY,
+  'M▾': BUTTON_TYPES.MEMORY,
+
+  // Adding-machine totals
+  '◇': BUTTON_TYPES.EQUALS,
+  '*': BUTTON_TYPES.EQUALS,
+  'GT': BUTTON_TYPES.MEMORY,
+
+  // Checkbook register
+  'REG': BUTTON_TYPES.MEMORY,
 
   // Undo/Redo (horizontal arrows)
   '⟲': BUTTON_TYPES.UNDO_REDO,
   '⟳': BUTTON_TYPES.UNDO_REDO,
 };
 
+// Recovery actions offered for each error, in button order
+export const ERROR_RECOVERY_ACTIONS: Record<CalculatorErrorCode, ErrorRecoveryAction[]> = {
+  divideByZero: ['undo', 'clear'],
+  overflow: ['useMaxValue', 'undo', 'clear'],
+  domain: ['undo', 'clear'],
+  invalidInput: ['undo', 'clear'],
+  storage: ['dismiss'],
+};
+
 // Sound effect configuration
 export const SOUNDS = {
   BUTTON_TAP: 'button-tap',
   PRINTER: 'printer',
 } as const;
 
-// Storage keys for AsyncStorage
+export const STORAGE_BACKEND: StorageBackendKind = 'asyncStorage'; // Store selected at app start
+
+// Storage keys (shared by every StorageBackend)
 export const STORAGE_KEYS = {
-  HISTORY: 'calculator_history',
+  HISTORY: 'calculator_history', // Single-array tape from before day chunks; read once to migrate
+  HISTORY_INDEX: 'calculator_history_index',
+  HISTORY_CHUNK_PREFIX: 'calculator_history_day_', // Followed by yyyy-MM-dd
   SETTINGS: 'calculator_settings',
   LAST_BALANCE: 'last_balance',
+  MEMORY: 'calculator_memory',
+  SCHEMA_VERSION: 'calculator_schema_version',
+  REGISTER: 'checkbook_register',
+  RECONCILIATIONS: 'checkbook_reconciliations',
+  SESSION: 'calculator_session',
+  CSV_MAPPING: 'import_csv_mapping',
+  SETTINGS_VERSION: 'calculator_settings_version',
+  SETTINGS_DIAGNOSTICS: 'calculator_settings_diagnostics',
 } as const;
 
-// Currency symbols
-export const CURRENCY_SYMBOLS = {
-  USD: '$',
-  EUR: '€',
-  GBP: '£',
-  JPY: '¥',
-} as const;
+// Current shape of stored history entries; bump with a migration in utils/storage.ts
+export const HISTORY_SCHEMA_VERSION = 2;
+export const HISTORY_PAGE_SIZE = 50; // Minimum entries per page; whole days are loaded at a time
+
+// Current shape of stored settings; bump with a migration in utils/settings.ts
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+// History retention choices offered in settings
+export const RETENTION_DAY_OPTIONS: AppSettings['retentionDays'][] = [30, 60, 90];
+
+// Memory with nothing stored
+export const EMPTY_MEMORY: MemoryState = {
+  value: 0,
+  registers: {},
+};
+
+// Categories offered when entering a register transaction
+// Stored in English; shown through formatCategory
+export const REGISTER_CATEGORIES = [
+  'Uncategorized',
+  'Income',
+  'Housing',
+  'Utilities',
+  'Groceries',
+  'Transport',
+  'Dining',
+  'Health',
+  'Entertainment',
+  'Transfer',
+] as const;
+
+export type RegisterCategory = (typeof REGISTER_CATEGORIES)[number];
+
+// Column layout assumed for bank CSV files until the user changes it
+export const DEFAULT_CSV_MAPPING: CsvColumnMapping = {
+  hasHeader: true,
+  delimiter: ',',
+  dateFormat: 'MM/dd/yyyy',
+  date: 1,
+  payee: 2,
+  amount: 3,
+  debit: 0,
+  credit: 0,
+  checkNumber: 0,
+  memo: 0,
+};
+
+// Interface languages, each named in its own language
+export const LANGUAGES: Record<Language, string> = {
+  en: 'English',
+  de: 'Deutsch',
+};
+
+// Number styles offered in settings
+export const NUMBER_LOCALES: Record<NumberLocale, { decimal: string; group: string; example: string }> = {
+  'en-US': { decimal: '.', group: ',', example: '1,234.56' },
+  'de-DE': { decimal: ',', group: '.', example: '1.234,56' },
+  'fr-FR': { decimal: ',', group: '\u202F', example: '1 234,56' }, // Narrow no-break space
+  'de-CH': { decimal: '.', group: '’', example: '1’234.56' },
+};
+
+// Currencies offered in settings (ISO 4217 code, symbol, minor units, symbol placement)
+// Where two currencies share a symbol, the first listed wins when only the symbol is known
+export const DEFAULT_CURRENCY_CODE = 'USD';
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar', symbol: '$', minorUnits: 2, placement: 'before' },
+  { code: 'EUR', name: 'Euro', symbol: '€', minorUnits: 2, placement: 'after' },
+  { code: 'GBP', name: 'Pound Sterling', symbol: '£', minorUnits: 2, placement: 'before' },
+  { code: 'JPY', name: 'Yen', symbol: '¥', minorUnits: 0, placement: 'before' },
+  { code: 'AED', name: 'UAE Dirham', symbol: 'AED', minorUnits: 2, placement: 'before' },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', minorUnits: 2, placement: 'before' },
+  { code: 'BHD', name: 'Bahraini Dinar', symbol: 'BD', minorUnits: 3, placement: 'before' },
+  { code: 'BRL', name: 'Brazilian Real', symbol: 'R$', minorUnits: 2, placement: 'before' },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$', minorUnits: 2, placement: 'before' },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF', minorUnits: 2, placement: 'before' },
+  { code: 'CLP', name: 'Chilean Peso', symbol: 'CLP$', minorUnits: 0, placement: 'before' },
+  { code: 'CNY', name: 'Yuan Renminbi', symbol: 'CN¥', minorUnits: 2, placement: 'before' },
+  { code: 'CZK', name: 'Czech Koruna', symbol: 'Kč', minorUnits: 2, placement: 'after' },
+  { code: 'DKK', name: 'Danish Krone', symbol: 'kr.', minorUnits: 2, placement: 'after' },
+  { code: 'HKD', name: 'Hong Kong Dollar', symbol: 'HK$', minorUnits: 2, placement: 'before' },
+  { code: 'HUF', name: 'Forint', symbol: 'Ft', minorUnits: 2, placement: 'after' },
+  { code: 'IDR', name: 'Rupiah', symbol: 'Rp', minorUnits: 2, placement: 'before' },
+  { code: 'ILS', name: 'New Israeli Sheqel', symbol: '₪', minorUnits: 2, placement: 'before' },
+  { code: 'INR', name: 'Indian Rupee', symbol: '₹', minorUnits: 2, placement: 'before' },
+  { code: 'IQD', name: 'Iraqi Dinar', symbol: 'IQD', minorUnits: 3, placement: 'before' },
+  { code: 'ISK', name: 'Iceland Krona', symbol: 'kr', minorUnits: 0, placement: 'after' },
+  { code: 'JOD', name: 'Jordanian Dinar', symbol: 'JD', minorUnits: 3, placement: 'before' },
+  { code: 'KRW', name: 'Won', symbol: '₩', minorUnits: 0, placement: 'before' },
+  { code: 'KWD', name: 'Kuwaiti Dinar', symbol: 'KD', minorUnits: 3, placement: 'before' },
+  { code: 'LYD', name: 'Libyan Dinar', symbol: 'LD', minorUnits: 3, placement: 'before' },
+  { code: 'MXN', name: 'Mexican Peso', symbol: 'MX$', minorUnits: 2, placement: 'before' },
+  { code: 'NOK', name: 'Norwegian Krone', symbol: 'kr', minorUnits: 2, placement: 'after' },
+  { code: 'NZD', name: 'New Zealand Dollar', symbol: 'NZ$', minorUnits: 2, placement: 'before' },
+  { code: 'OMR', name: 'Rial Omani', symbol: 'OMR', minorUnits: 3, placement: 'before' },
+  { code: 'PHP', name: 'Philippine Peso', symbol: '₱', minorUnits: 2, placement: 'before' },
+  { code: 'PLN', name: 'Zloty', symbol: 'zł', minorUnits: 2, placement: 'after' },
+  { code: 'RUB', name: 'Russian Ruble', symbol: '₽', minorUnits: 2, placement: 'after' },
+  { code: 'SAR', name: 'Saudi Riyal', symbol: 'SAR', minorUnits: 2, placement: 'before' },
+  { code: 'SEK', name: 'Swedish Krona', symbol: 'kr', minorUnits: 2, placement: 'after' },
+  { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$', minorUnits: 2, placement: 'before' },
+  { code: 'THB', name: 'Baht', symbol: '฿', minorUnits: 2, placement: 'before' },
+  { code: 'TND', name: 'Tunisian Dinar', symbol: 'DT', minorUnits: 3, placement: 'after' },
+  { code: 'TRY', name: 'Turkish Lira', symbol: '₺', minorUnits: 2, placement: 'before' },
+  { code: 'TWD', name: 'New Taiwan Dollar', symbol: 'NT$', minorUnits: 2, placement: 'before' },
+  { code: 'UGX', name: 'Uganda Shilling', symbol: 'USh', minorUnits: 0, placement: 'before' },
+  { code: 'VND', name: 'Dong', symbol: '₫', minorUnits: 0, placement: 'after' },
+  { code: 'XAF', name: 'CFA Franc BEAC', symbol: 'FCFA', minorUnits: 0, placement: 'after' },
+  { code: 'XOF', name: 'CFA Franc BCEAO', symbol: 'CFA', minorUnits: 0, placement: 'after' },
+  { code: 'ZAR', name: 'Rand', symbol: 'R', minorUnits: 2, placement: 'before' },
+];
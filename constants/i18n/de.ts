@@ -0,0 +1,393 @@
+/**
+ * German message catalog (see en.ts for placeholders and plural forms)
+ */
+
+import { Message } from '@/types/calculator';
+import { MessageKey } from './en';
+
+export const de: Record<MessageKey, Message> = {
+  // Errors, keyed by CalculatorErrorCode
+  'error.divideByZero':
+    'Division durch null ist nicht möglich, das Ergebnis wäre unendlich. Drücken Sie C für einen Neustart oder ⟲ zum Rückgängigmachen.',
+  'error.overflow':
+    'Diese Zahl ist zu groß für die Anzeige. Das Maximum ist 999.999.999,99. Übernehmen Sie das Maximum, machen Sie den Schritt rückgängig oder löschen Sie alles.',
+  'error.domain':
+    'Diese Funktion ist für diese Zahl nicht definiert (zum Beispiel √ einer negativen Zahl). Drücken Sie C für einen Neustart oder ⟲ zum Rückgängigmachen.',
+  'error.invalidInput':
+    'Diese Eingabe kann nicht berechnet werden. Prüfen Sie Klammern und Operatoren oder drücken Sie ⟲ zum Rückgängigmachen.',
+  'error.storage':
+    'Ihre Daten konnten nicht gelesen oder gespeichert werden. Letzte Änderungen gehen eventuell verloren; prüfen Sie den freien Speicher des Geräts.',
+  'error.display.divideByZero': 'FEHLER: ÷ 0',
+  'error.display.overflow': 'FEHLER: ÜBERLAUF',
+  'error.display.domain': 'FEHLER: DEFINITION',
+  'error.display.invalidInput': 'FEHLER: SYNTAX',
+  'error.display.storage': 'FEHLER: SPEICHER',
+  'error.title': 'Fehler',
+  'error.action.undo': 'ZURÜCK',
+  'error.action.clear': 'LÖSCHEN',
+  'error.action.useMaxValue': 'MAXIMUM',
+  'error.action.dismiss': 'OK',
+  'error.autoClose': {
+    one: 'Diese Meldung schließt sich in {count} Sekunde automatisch.',
+    other: 'Diese Meldung schließt sich in {count} Sekunden automatisch.',
+  },
+
+  // Mode switch notice
+  'modeSwitch.checkbookTitle': 'Scheckbuch-Modus aktiv',
+  'modeSwitch.checkbookDescription': {
+    one: 'Zahlen werden auf {count} Nachkommastelle gerundet ({zero})',
+    other: 'Zahlen werden auf {count} Nachkommastellen gerundet ({zero})',
+  },
+  'modeSwitch.scientificTitle': 'Wissenschaftlicher Modus aktiv',
+  'modeSwitch.scientificDescription': {
+    one: 'Zahlen werden mit bis zu {count} Nachkommastelle angezeigt, und die Tastatur bietet Trigonometrie, Logarithmen, Potenzen und Wurzeln.',
+    other: 'Zahlen werden mit bis zu {count} Nachkommastellen angezeigt, und die Tastatur bietet Trigonometrie, Logarithmen, Potenzen und Wurzeln.',
+  },
+  'modeSwitch.example': 'Beispiel: aus {value} wird {rounded}',
+  'modeSwitch.exampleLabel': 'BEISPIEL:',
+  'modeSwitch.confirm': 'OK - VERSTANDEN',
+  'modeSwitch.autoClose': {
+    one: 'Diese Meldung schließt sich in {count} Sekunde automatisch.',
+    other: 'Diese Meldung schließt sich in {count} Sekunden automatisch.',
+  },
+
+  // Undo / redo feedback
+  'undo.undid': '⟲ Letzten Schritt rückgängig gemacht',
+  'undo.undidOperation': '⟲ Letzten Schritt rückgängig gemacht: {operation}',
+  'undo.added': 'addiert',
+  'undo.subtracted': 'subtrahiert',
+  'undo.multiplied': 'multipliziert mit',
+  'undo.divided': 'geteilt durch',
+  'undo.changed': 'geändert zu',
+  'redo.redid': '⟳ Schritt wiederhergestellt',
+
+  // Receipt tape
+  'tape.title': '⚙ RECHENVERLAUF ⚙',
+  'tape.export': 'EXPORT',
+  'tape.exportLabel': 'Verlauf exportieren',
+  'tape.empty': 'Noch keine Berechnungen',
+  'tape.emptyHint': 'Geben Sie Zahlen und Rechenzeichen ein, um zu beginnen',
+  'tape.swipeHint': '↓ Nach UNTEN wischen für ältere Berechnungen ↓',
+  'tape.steps': { one: '{count} Schritt', other: '{count} Schritte' },
+  'tape.subtotal': {
+    one: 'Zwischensumme aus {count} Posten',
+    other: 'Zwischensumme aus {count} Posten',
+  },
+  'tape.total': { one: 'Summe aus {count} Posten', other: 'Summe aus {count} Posten' },
+
+  // Copy and paste
+  'clipboard.copyValue': 'WERT KOPIEREN',
+  'clipboard.copyFormatted': 'WIE ANGEZEIGT KOPIEREN',
+  'clipboard.paste': 'EINFÜGEN',
+  'clipboard.pasteHint': 'Einen Betrag einfügen oder eine Spalte von Beträgen addieren',
+  'clipboard.cancel': 'ABBRECHEN',
+  'paste.empty': 'Die Zwischenablage enthält keine Zahl zum Einfügen.',
+  'paste.invalidLine': 'Zeile {line} ist keine Zahl: „{text}“',
+  'paste.tooLarge': 'Zeile {line} ist zu groß zum Rechnen: „{text}“',
+
+  // Dates
+  'date.today': 'Heute',
+  'date.yesterday': 'Gestern',
+  'date.todayAt': "'Heute,' HH:mm",
+  'date.yesterdayAt': "'Gestern,' HH:mm",
+  'date.monthDayTime': 'd. MMM, HH:mm',
+  'date.monthDayYearTime': 'd. MMM yyyy, HH:mm',
+  'date.full': 'EEEE, d. MMMM yyyy HH:mm',
+  'date.time': 'HH:mm',
+  'date.monthDay': 'd. MMM',
+  'date.monthDayYear': 'd. MMM yyyy',
+
+  // Settings
+  'settings.title': '⚙️ EINSTELLUNGEN ⚙️',
+  'settings.closeHint': 'Nach unten wischen oder Schließen tippen',
+  'settings.close': 'SCHLIESSEN',
+  'settings.language': 'Sprache',
+  'settings.mode': 'Rechnermodus',
+  'settings.mode.checkbook': 'Scheckbuch',
+  'settings.mode.scientific': 'Wissenschaftlich',
+  'settings.entryStyle': 'Eingabeart',
+  'settings.entryStyle.immediate': 'Addiermaschine',
+  'settings.entryStyle.algebraic': 'Algebraisch',
+  'settings.entryStyle.immediateExample': '2 + 3 × 4 = 20 (von links nach rechts)',
+  'settings.entryStyle.algebraicExample': '2 + 3 × 4 = 14 (Punkt vor Strich)',
+  'settings.onLaunch': 'Beim Start',
+  'settings.onLaunch.resume': 'Fortsetzen',
+  'settings.onLaunch.lastBalance': 'Letzter Saldo',
+  'settings.onLaunch.resumeHint': 'Mit der letzten Rechnung, dem Speicher und dem Rückgängig-Verlauf weitermachen',
+  'settings.onLaunch.lastBalanceHint': 'Neu beginnen, mit dem letzten Scheckbuch-Saldo in der Anzeige',
+  'settings.currency': 'Währung',
+  'settings.currency.search': 'Code oder Name suchen',
+  'settings.numberFormat': 'Zahlenformat',
+  'settings.numberFormat.grouping': 'Zifferngruppierung',
+  'settings.lcdColor': 'LCD-Farbe',
+  'settings.lcdColor.amber': '🟡 Bernstein',
+  'settings.lcdColor.green': '🟢 Grün',
+  'settings.sound': 'Töne',
+  'settings.sound.enable': 'Töne aktivieren',
+  'settings.retention': 'Verlauf aufbewahren',
+  'settings.retention.hint': 'Automatisch löschen nach:',
+  'settings.retention.days': '{count} T.',
+  'settings.notifications': 'Hinweise',
+  'settings.notifications.modeWarning': 'Modushinweis anzeigen',
+  'settings.keyboard': 'Tastatur',
+  'settings.keyboard.removeHint': 'Tippen Sie auf ein Kürzel, um es zu entfernen',
+  'settings.keyboard.keyPlaceholder': 'Taste, z. B. Ctrl+M oder F2',
+  'settings.keyboard.pickTarget': 'Drückt:',
+  'settings.keyboard.add': 'Hinzufügen',
+  'settings.keyboard.reset': 'Standard wiederherstellen',
+  'settings.keyboard.invalidKey': '„{key}“ ist kein Tastenname',
+  'settings.keyboard.noTarget': 'Wählen Sie die Rechnertaste, die gedrückt wird',
+  'settings.keypad': 'Tastenfeld',
+  'settings.keypad.hint': 'Belegung für den Modus {mode}',
+  'settings.keypad.standard': 'STANDARD',
+  'settings.keypad.edit': 'BELEGUNGEN BEARBEITEN',
+
+  // Keypad layout editor
+  'layout.title': 'TASTENBELEGUNG',
+  'layout.rows': 'ZEILEN',
+  'layout.columns': 'SPALTEN',
+  'layout.gridHint': 'Tippen Sie auf eine Taste im Raster, um sie zu entfernen',
+  'layout.editKeys': 'TASTEN',
+  'layout.editSecondary': 'ZWEITFUNKTIONEN',
+  'layout.secondaryHint':
+    'Ziehen Sie eine Taste aus der Palette auf eine Rastertaste oder tippen Sie beide an, um sie als Zweitfunktion zu belegen (langes Drücken oder SHIFT). Tippen Sie eine Rastertaste an, um ihre Zweitfunktion zu entfernen',
+  'layout.paletteHint': 'Ziehen Sie eine Taste ins Raster oder tippen Sie sie und dann einen Platz an',
+  'layout.missing': { one: 'Es fehlt die Taste {keys}', other: 'Es fehlen die Tasten {keys}' },
+  'layout.otherEntryStyle': 'Graue Tasten funktionieren nur mit der anderen Eingabeart',
+  'layout.namePlaceholder': 'Name der Belegung',
+  'layout.noName': 'Geben Sie der Belegung einen Namen, um sie zu speichern',
+  'layout.saved': '„{name}“ gespeichert und auf das Tastenfeld gelegt',
+  'layout.save': 'SPEICHERN',
+  'layout.delete': 'LÖSCHEN',
+  'layout.reset': 'RASTER ZURÜCKSETZEN',
+  'layout.close': 'SCHLIESSEN',
+  'settings.backup': 'Sicherung',
+  'settings.backup.hint': 'Einstellungen, Papierstreifen, Kontobuch und Saldo in einer Datei',
+  'settings.backup.backUp': 'Sichern',
+  'settings.backup.restore': 'Wiederherstellen',
+  'settings.backup.preferencesHint': 'Nur Einstellungen',
+  'settings.backup.export': 'Exportieren',
+  'settings.backup.import': 'Importieren',
+  'settings.backup.shareUnavailable': 'Teilen ist auf diesem Gerät nicht verfügbar',
+  'settings.diagnostics': 'Diagnose',
+  'settings.diagnostics.repaired': {
+    one: '{count} Einstellung repariert am {date}',
+    other: '{count} Einstellungen repariert am {date}',
+  },
+  'settings.diagnostics.clean': 'Gespeicherte Einstellungen waren fehlerfrei',
+
+  // History export
+  'export.title': 'VERLAUF EXPORTIEREN',
+  'export.format': 'Format',
+  'export.range': 'Zeitraum',
+  'export.range.all': 'Alles',
+  'export.range.today': 'Heute',
+  'export.range.week': '7 Tage',
+  'export.range.month': '30 Tage',
+  'export.range.custom': 'Eigener',
+  'export.from': 'Von',
+  'export.to': 'Bis',
+  'export.datePlaceholder': 'JJJJ-MM-TT',
+  'export.invalidDate': 'Geben Sie Daten als JJJJ-MM-TT ein',
+  'export.empty': 'Keine Berechnungen in diesem Zeitraum',
+  'export.shareUnavailable': 'Teilen ist auf diesem Gerät nicht verfügbar',
+  'export.cancel': 'ABBRECHEN',
+  'export.download': 'HERUNTERLADEN',
+  'export.share': 'TEILEN',
+  'export.dialogTitle': 'Verlauf exportieren',
+
+  // Backup restore
+  'file.invalidJson': 'Diese Datei ist kein gültiges JSON',
+  'restore.title': 'SICHERUNG WIEDERHERSTELLEN',
+  'restore.made': 'Erstellt {date}',
+  'restore.tapeEntries': 'Papierstreifen-Einträge',
+  'restore.registerLines': 'Kontobuch-Zeilen',
+  'restore.balance': 'Saldo',
+  'restore.merged': '{stored} + {added} neu',
+  'restore.replaced': '{stored} → {inBackup}',
+  'restore.how': 'Art der Wiederherstellung',
+  'restore.mode.merge': 'Zusammenführen',
+  'restore.mode.overwrite': 'Überschreiben',
+  'restore.mode.mergeHint':
+    'Ergänzt Einträge, die auf diesem Gerät fehlen. Einstellungen und Saldo bleiben unverändert.',
+  'restore.mode.overwriteHint':
+    'Ersetzt Papierstreifen, Kontobuch, Einstellungen und Saldo auf diesem Gerät.',
+  'restore.pickFile': 'DATEI WÄHLEN',
+  'restore.contents': 'Inhalt der Sicherung',
+  'restore.placeholder': 'Sicherungsdatei hier einfügen',
+  'restore.unreadableFile': 'Diese Datei konnte nicht gelesen werden',
+  'restore.notBackup': 'Dies ist keine Sicherungsdatei des Rechners',
+  'restore.newerVersion': 'Diese Sicherung stammt von einer neueren Version der App',
+  'restore.damaged': 'Die Sicherung ist beschädigt (Prüfsumme stimmt nicht)',
+  'restore.incomplete': 'In der Sicherung fehlen erforderliche Abschnitte',
+  'restore.failed':
+    'Die Wiederherstellung wurde nicht abgeschlossen: Einige Daten konnten nicht gespeichert werden',
+  'restore.cancel': 'ABBRECHEN',
+  'restore.restore': 'WIEDERHERSTELLEN',
+  'restore.check': 'PRÜFEN',
+
+  // Settings repairs and settings file import
+  'settings.repair.unreadable':
+    'Einstellungen waren unlesbar; alle Standardwerte wiederhergestellt',
+  'settings.repair.replaced': 'Ungültiger Wert {from} durch {to} ersetzt',
+  'settings.repair.adjusted': '{from} angepasst zu {to}',
+  'settings.repair.removed': 'Unbekannte Einstellung entfernt',
+  'settings.repair.missing': 'fehlt',
+  'settingsImport.title': 'EINSTELLUNGEN IMPORTIEREN',
+  'settingsImport.valid': 'Alle Einstellungen sind gültig',
+  'settingsImport.repaired': {
+    one: '{count} Einstellung wurde repariert:',
+    other: '{count} Einstellungen wurden repariert:',
+  },
+  'settingsImport.pickFile': 'DATEI WÄHLEN',
+  'settingsImport.file': 'Einstellungsdatei',
+  'settingsImport.placeholder': 'Einstellungsdatei hier einfügen',
+  'settingsImport.unreadableFile': 'Diese Datei konnte nicht gelesen werden',
+  'settingsImport.notSettings': 'Dies ist keine Einstellungsdatei des Rechners',
+  'settingsImport.newerVersion': 'Diese Einstellungen stammen von einer neueren Version der App',
+  'settingsImport.cancel': 'ABBRECHEN',
+  'settingsImport.apply': 'ÜBERNEHMEN',
+  'settingsImport.check': 'PRÜFEN',
+
+  // Named memory registers
+  'memory.title': 'SPEICHERREGISTER',
+  'memory.namePlaceholder': 'Registername',
+  'memory.store': 'SPEICHERN {value}',
+  'memory.empty': 'Noch keine benannten Register',
+  'memory.recall': 'RCL',
+  'memory.clear': 'LÖSCHEN',
+  'memory.close': 'SCHLIESSEN',
+
+  // Register transactions
+  'register.category.Uncategorized': 'Ohne Kategorie',
+  'register.category.Income': 'Einnahmen',
+  'register.category.Housing': 'Wohnen',
+  'register.category.Utilities': 'Nebenkosten',
+  'register.category.Groceries': 'Lebensmittel',
+  'register.category.Transport': 'Verkehr',
+  'register.category.Dining': 'Essen gehen',
+  'register.category.Health': 'Gesundheit',
+  'register.category.Entertainment': 'Freizeit',
+  'register.category.Transfer': 'Umbuchung',
+  'transaction.type.deposit': 'Einzahlung',
+  'transaction.type.withdrawal': 'Abbuchung',
+  'transaction.amount': 'Betrag ({symbol})',
+  'transaction.date': 'Datum',
+  'transaction.datePlaceholder': 'JJJJ-MM-TT',
+  'transaction.payee': 'Empfänger',
+  'transaction.payee.deposit': 'Erhalten von',
+  'transaction.payee.withdrawal': 'Gezahlt an',
+  'transaction.checkNumber': 'Scheck-Nr.',
+  'transaction.category': 'Kategorie',
+  'transaction.memo': 'Notiz',
+  'transaction.optional': 'Optional',
+  'transaction.invalidDate': 'Geben Sie das Datum als JJJJ-MM-TT ein',
+  'transaction.invalidAmount': {
+    one: 'Geben Sie einen Betrag über null mit höchstens {count} Nachkommastelle ein',
+    other: 'Geben Sie einen Betrag über null mit höchstens {count} Nachkommastellen ein',
+  },
+  'transaction.noPayee': 'Geben Sie einen Empfänger ein',
+  'transaction.delete': 'LÖSCHEN',
+  'transaction.cancel': 'ABBRECHEN',
+  'transaction.save': 'SPEICHERN',
+  'report.title': 'KONTOAUSZUG VOM {date}',
+  'report.reconciled': 'Abgestimmt {date}',
+  'report.openingBalance': 'Anfangssaldo',
+  'report.clearedItems': 'Abgehakte Posten',
+  'report.statementBalance': 'Saldo laut Auszug',
+  'report.registerBalance': 'Saldo laut Kontobuch',
+  'report.outstandingChecks': 'Offene Schecks',
+  'report.depositsInTransit': 'Unterwegs befindliche Einzahlungen',
+  'report.none': 'Keine',
+
+  // Bank import
+  'import.target': 'Importieren in',
+  'import.target.register': 'Kontobuch',
+  'import.target.history': 'Papierstreifen',
+  'import.format': 'Format',
+  'import.format.auto': 'Automatisch',
+  'import.detected': 'Sieht aus wie {format}',
+  'import.columns': 'CSV-Spalten (1 = erste, 0 = keine)',
+  'import.column.date': 'Datum',
+  'import.column.payee': 'Empfänger',
+  'import.column.amount': 'Betrag',
+  'import.column.debit': 'Soll',
+  'import.column.credit': 'Haben',
+  'import.column.checkNumber': 'Scheck-Nr.',
+  'import.column.memo': 'Notiz',
+  'import.columnsHint': 'Lassen Sie Betrag auf 0, wenn Soll und Haben getrennte Spalten sind',
+  'import.dateFormat': 'Datumsformat',
+  'import.delimiter': 'Trennzeichen',
+  'import.delimiter.comma': 'Komma',
+  'import.delimiter.semicolon': 'Semikolon',
+  'import.delimiter.tab': 'Tabulator',
+  'import.headerRow': 'Kopfzeile',
+  'import.contents': 'Dateiinhalt',
+  'import.pickFile': 'DATEI WÄHLEN',
+  'import.placeholder': 'Fügen Sie hier einen QIF-, OFX- oder CSV-Export ein',
+  'import.preview': 'VORSCHAU',
+  'import.unreadableFile': 'Diese Datei konnte nicht gelesen werden',
+  'import.noText': 'Wählen Sie eine Datei oder fügen Sie ihren Inhalt ein',
+  'import.saveFailed': 'Die importierten Zeilen konnten nicht gespeichert werden',
+  'import.counts': '{format} · {count} NEU · {duplicates} DOPP · {errors} FEHL',
+  'import.deposits': 'EINZAHLUNGEN',
+  'import.withdrawals': 'ABBUCHUNGEN',
+  'import.balanceNow': 'SALDO JETZT',
+  'import.afterImport': 'NACH IMPORT',
+  'import.netChange': 'VERÄNDERUNG',
+  'import.line': 'Z{line}',
+  'import.duplicate': 'DOPP',
+  'import.back': 'ZURÜCK',
+  'import.import': { one: '{count} ZEILE IMPORTIEREN', other: '{count} ZEILEN IMPORTIEREN' },
+  'import.unknownPayee': 'Unbekannter Empfänger',
+  'import.error.date': 'Unbekanntes Datum „{text}“',
+  'import.error.amount': 'Unbekannter Betrag „{text}“',
+  'import.error.amountRange': 'Betrag außerhalb des Bereichs „{text}“',
+  'import.error.zero': 'Betrag ist null',
+  'import.error.section': 'Nicht unterstützter Abschnitt „{text}“',
+  'import.error.noOfxTransactions': 'In dieser OFX-Datei wurden keine Buchungen gefunden',
+  'import.error.mapping':
+    'Ordnen Sie eine Datumsspalte und eine Betragsspalte (oder Soll/Haben) zu',
+
+  // Statement reconciliation
+  'reconcile.openingBalance': 'ANFANGSSALDO',
+  'reconcile.endingDate': 'Enddatum des Auszugs',
+  'reconcile.datePlaceholder': 'JJJJ-MM-TT',
+  'reconcile.endingBalance': 'Endsaldo des Auszugs ({symbol})',
+  'reconcile.invalidDate': 'Geben Sie das Auszugsdatum als JJJJ-MM-TT ein',
+  'reconcile.invalidBalance': {
+    one: 'Geben Sie den Endsaldo mit höchstens {count} Nachkommastelle ein',
+    other: 'Geben Sie den Endsaldo mit höchstens {count} Nachkommastellen ein',
+  },
+  'reconcile.start': 'START',
+  'reconcile.lastReport': 'Letzte Abstimmung',
+  'reconcile.statement': 'AUSZUG',
+  'reconcile.cleared': 'ABGEHAKT',
+  'reconcile.difference': 'DIFFERENZ',
+  'reconcile.empty': 'Keine offenen Buchungen bis zu diesem Datum',
+  'reconcile.back': 'ZURÜCK',
+  'reconcile.finish': 'ABSCHLIESSEN',
+  'reconcile.done': 'FERTIG',
+
+  // Navigation
+  'nav.calculator': 'Rechner',
+  'nav.register': 'Kontobuch',
+  'nav.reconcile': 'Auszug abstimmen',
+  'nav.import': 'Buchungen importieren',
+
+  // Register screen
+  'register.balance': 'SALDO',
+  'register.empty':
+    'Noch keine Buchungen. Fügen Sie hier eine hinzu oder buchen Sie im Rechner mit REG.',
+  'register.add': '+ NEU',
+  'register.import': 'IMPORT',
+  'register.reconcile': 'ABSTIMMEN',
+  'register.newTitle': 'NEUE BUCHUNG',
+  'register.editTitle': 'BUCHUNG BEARBEITEN',
+  'register.postTitle': 'INS KONTOBUCH BUCHEN',
+
+  // Display
+  'display.settings': 'Einstellungen',
+  'display.mode.checkbook': 'KONTOBUCH  {currency}',
+  'display.mode.scientific': 'WISSENSCHAFTLICH  {angle}',
+};
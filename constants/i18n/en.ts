@@ -0,0 +1,388 @@
+/**
+ * English message catalog; the reference every other catalog must match key for key
+ * {name} placeholders are filled in by t(); entries with one/other forms are chosen by {count}
+ * Date entries are date-fns format patterns
+ */
+
+import { Message } from '@/types/calculator';
+
+export const en = {
+  // Errors, keyed by CalculatorErrorCode
+  'error.divideByZero':
+    'Cannot divide by zero. This would create an infinite number. Press C to start fresh or ⟲ to undo.',
+  'error.overflow':
+    'This number is too large to display. The maximum is 999,999,999.99. Use the maximum, undo, or clear to start over.',
+  'error.domain':
+    'That function is not defined for this number (for example √ of a negative). Press C to start over or ⟲ to undo.',
+  'error.invalidInput':
+    'This input cannot be calculated. Check the brackets and operators, or press ⟲ to undo.',
+  'error.storage':
+    'Your data could not be read or saved. Recent changes may be lost; check the free space on this device.',
+  'error.display.divideByZero': 'ERROR: ÷ 0',
+  'error.display.overflow': 'ERROR: OVERFLOW',
+  'error.display.domain': 'ERROR: DOMAIN',
+  'error.display.invalidInput': 'ERROR: SYNTAX',
+  'error.display.storage': 'ERROR: MEMORY',
+  'error.title': 'Error',
+  'error.action.undo': 'UNDO',
+  'error.action.clear': 'CLEAR',
+  'error.action.useMaxValue': 'USE MAX',
+  'error.action.dismiss': 'OK',
+  'error.autoClose': {
+    one: 'This message will close automatically in {count} second.',
+    other: 'This message will close automatically in {count} seconds.',
+  },
+
+  // Mode switch notice
+  'modeSwitch.checkbookTitle': 'Switched to Checkbook Mode',
+  'modeSwitch.checkbookDescription': {
+    one: 'Numbers will be rounded to {count} decimal place ({zero})',
+    other: 'Numbers will be rounded to {count} decimal places ({zero})',
+  },
+  'modeSwitch.scientificTitle': 'Switched to Scientific Mode',
+  'modeSwitch.scientificDescription': {
+    one: 'Numbers will show up to {count} decimal place, and the keypad adds trig, logs, powers and roots.',
+    other: 'Numbers will show up to {count} decimal places, and the keypad adds trig, logs, powers and roots.',
+  },
+  'modeSwitch.example': 'Example: {value} becomes {rounded}',
+  'modeSwitch.exampleLabel': 'EXAMPLE:',
+  'modeSwitch.confirm': 'OK - I UNDERSTAND',
+  'modeSwitch.autoClose': {
+    one: 'This message will close automatically in {count} second.',
+    other: 'This message will close automatically in {count} seconds.',
+  },
+
+  // Undo / redo feedback
+  'undo.undid': '⟲ Undid last operation',
+  'undo.undidOperation': '⟲ Undid last operation: {operation}',
+  'undo.added': 'added',
+  'undo.subtracted': 'subtracted',
+  'undo.multiplied': 'multiplied by',
+  'undo.divided': 'divided by',
+  'undo.changed': 'changed to',
+  'redo.redid': '⟳ Redid operation',
+
+  // Receipt tape
+  'tape.title': '⚙ CALCULATION HISTORY ⚙',
+  'tape.export': 'EXPORT',
+  'tape.exportLabel': 'Export history',
+  'tape.empty': 'No calculations yet',
+  'tape.emptyHint': 'Start by entering numbers and operations',
+  'tape.swipeHint': '↓ Swipe DOWN to view older calculations ↓',
+  'tape.steps': { one: '{count} step', other: '{count} steps' },
+  'tape.subtotal': { one: 'Subtotal of {count} item', other: 'Subtotal of {count} items' },
+  'tape.total': { one: 'Total of {count} item', other: 'Total of {count} items' },
+
+  // Copy and paste
+  'clipboard.copyValue': 'COPY VALUE',
+  'clipboard.copyFormatted': 'COPY AS SHOWN',
+  'clipboard.paste': 'PASTE',
+  'clipboard.pasteHint': 'Paste an amount, or a column of amounts to add up',
+  'clipboard.cancel': 'CANCEL',
+  'paste.empty': 'The clipboard holds no number to paste.',
+  'paste.invalidLine': 'Line {line} is not a number: "{text}"',
+  'paste.tooLarge': 'Line {line} is too large to calculate with: "{text}"',
+
+  // Dates
+  'date.today': 'Today',
+  'date.yesterday': 'Yesterday',
+  'date.todayAt': "'Today,' h:mm a",
+  'date.yesterdayAt': "'Yesterday,' h:mm a",
+  'date.monthDayTime': 'MMM d, h:mm a',
+  'date.monthDayYearTime': 'MMM d, yyyy, h:mm a',
+  'date.full': 'EEEE, MMMM d, yyyy h:mm a',
+  'date.time': 'h:mm a',
+  'date.monthDay': 'MMM d',
+  'date.monthDayYear': 'MMM d, yyyy',
+
+  // Settings
+  'settings.title': '⚙️ SETTINGS ⚙️',
+  'settings.closeHint': 'Swipe down or tap close to exit',
+  'settings.close': 'CLOSE',
+  'settings.language': 'Language',
+  'settings.mode': 'Calculator Mode',
+  'settings.mode.checkbook': 'Checkbook',
+  'settings.mode.scientific': 'Scientific',
+  'settings.entryStyle': 'Entry Style',
+  'settings.entryStyle.immediate': 'Adding Machine',
+  'settings.entryStyle.algebraic': 'Algebraic',
+  'settings.entryStyle.immediateExample': '2 + 3 × 4 = 20 (left to right)',
+  'settings.entryStyle.algebraicExample': '2 + 3 × 4 = 14 (× and ÷ first)',
+  'settings.onLaunch': 'On Launch',
+  'settings.onLaunch.resume': 'Resume',
+  'settings.onLaunch.lastBalance': 'Last Balance',
+  'settings.onLaunch.resumeHint': 'Reopen with the calculation, memory and undo history you left',
+  'settings.onLaunch.lastBalanceHint': 'Start fresh with the last checkbook balance on the display',
+  'settings.currency': 'Currency',
+  'settings.currency.search': 'Search code or name',
+  'settings.numberFormat': 'Number Format',
+  'settings.numberFormat.grouping': 'Digit grouping',
+  'settings.lcdColor': 'LCD Color',
+  'settings.lcdColor.amber': '🟡 Amber',
+  'settings.lcdColor.green': '🟢 Green',
+  'settings.sound': 'Sound Effects',
+  'settings.sound.enable': 'Enable Sounds',
+  'settings.retention': 'History Retention',
+  'settings.retention.hint': 'Auto-delete older than:',
+  'settings.retention.days': '{count}d',
+  'settings.notifications': 'Notifications',
+  'settings.notifications.modeWarning': 'Show Mode Warning',
+  'settings.keyboard': 'Keyboard',
+  'settings.keyboard.removeHint': 'Tap a shortcut to remove it',
+  'settings.keyboard.keyPlaceholder': 'Key, e.g. Ctrl+M or F2',
+  'settings.keyboard.pickTarget': 'Presses:',
+  'settings.keyboard.add': 'Add',
+  'settings.keyboard.reset': 'Reset to Defaults',
+  'settings.keyboard.invalidKey': '"{key}" is not a key name',
+  'settings.keyboard.noTarget': 'Choose the keypad key it presses',
+  'settings.keypad': 'Keypad',
+  'settings.keypad.hint': 'Layout for {mode} mode',
+  'settings.keypad.standard': 'STANDARD',
+  'settings.keypad.edit': 'EDIT LAYOUTS',
+
+  // Keypad layout editor
+  'layout.title': 'KEYPAD LAYOUT',
+  'layout.rows': 'ROWS',
+  'layout.columns': 'COLUMNS',
+  'layout.gridHint': 'Tap a key on the grid to remove it',
+  'layout.editKeys': 'KEYS',
+  'layout.editSecondary': '2ND FUNCTIONS',
+  'layout.secondaryHint':
+    "Drag a palette key onto a grid key, or tap both, to make it that key's second function (long press or SHIFT). Tap a grid key to clear its second function",
+  'layout.paletteHint': 'Drag a key onto the grid, or tap it and then a space',
+  'layout.missing': { one: 'Missing key: {keys}', other: 'Missing keys: {keys}' },
+  'layout.otherEntryStyle': 'Grey keys work only with the other entry style',
+  'layout.namePlaceholder': 'Layout name',
+  'layout.noName': 'Name the layout to save it',
+  'layout.saved': 'Saved "{name}" and put it on the keypad',
+  'layout.save': 'SAVE',
+  'layout.delete': 'DELETE',
+  'layout.reset': 'RESET GRID',
+  'layout.close': 'CLOSE',
+  'settings.backup': 'Backup',
+  'settings.backup.hint': 'Settings, tape, register and balance in one file',
+  'settings.backup.backUp': 'Back Up',
+  'settings.backup.restore': 'Restore',
+  'settings.backup.preferencesHint': 'Preferences only',
+  'settings.backup.export': 'Export Settings',
+  'settings.backup.import': 'Import Settings',
+  'settings.backup.shareUnavailable': 'Sharing is not available on this device',
+  'settings.diagnostics': 'Diagnostics',
+  'settings.diagnostics.repaired': {
+    one: '{count} setting repaired {date}',
+    other: '{count} settings repaired {date}',
+  },
+  'settings.diagnostics.clean': 'Stored settings needed no repairs',
+
+  // History export
+  'export.title': 'EXPORT HISTORY',
+  'export.format': 'Format',
+  'export.range': 'Date Range',
+  'export.range.all': 'All',
+  'export.range.today': 'Today',
+  'export.range.week': '7 Days',
+  'export.range.month': '30 Days',
+  'export.range.custom': 'Custom',
+  'export.from': 'From',
+  'export.to': 'To',
+  'export.datePlaceholder': 'YYYY-MM-DD',
+  'export.invalidDate': 'Enter dates as YYYY-MM-DD',
+  'export.empty': 'No calculations in this range',
+  'export.shareUnavailable': 'Sharing is not available on this device',
+  'export.cancel': 'CANCEL',
+  'export.download': 'DOWNLOAD',
+  'export.share': 'SHARE',
+  'export.dialogTitle': 'Export history',
+
+  // Backup restore
+  'file.invalidJson': 'This file is not valid JSON',
+  'restore.title': 'RESTORE BACKUP',
+  'restore.made': 'Made {date}',
+  'restore.tapeEntries': 'Tape entries',
+  'restore.registerLines': 'Register lines',
+  'restore.balance': 'Balance',
+  'restore.merged': '{stored} + {added} new',
+  'restore.replaced': '{stored} → {inBackup}',
+  'restore.how': 'How to restore',
+  'restore.mode.merge': 'Merge',
+  'restore.mode.overwrite': 'Overwrite',
+  'restore.mode.mergeHint':
+    'Adds entries missing from this device. Settings and balance stay as they are.',
+  'restore.mode.overwriteHint': 'Replaces the tape, register, settings and balance on this device.',
+  'restore.pickFile': 'PICK FILE',
+  'restore.contents': 'Backup contents',
+  'restore.placeholder': 'Paste the backup file here',
+  'restore.unreadableFile': 'Could not read that file',
+  'restore.notBackup': 'This is not a calculator backup file',
+  'restore.newerVersion': 'This backup was made by a newer version of the app',
+  'restore.damaged': 'The backup is damaged (checksum mismatch)',
+  'restore.incomplete': 'The backup is missing required sections',
+  'restore.failed': 'The restore did not finish: some data could not be saved',
+  'restore.cancel': 'CANCEL',
+  'restore.restore': 'RESTORE',
+  'restore.check': 'CHECK',
+
+  // Settings repairs and settings file import
+  'settings.repair.unreadable': 'Settings were unreadable; all defaults restored',
+  'settings.repair.replaced': 'Invalid value {from} replaced with {to}',
+  'settings.repair.adjusted': '{from} adjusted to {to}',
+  'settings.repair.removed': 'Unknown setting removed',
+  'settings.repair.missing': 'missing',
+  'settingsImport.title': 'IMPORT SETTINGS',
+  'settingsImport.valid': 'All settings are valid',
+  'settingsImport.repaired': {
+    one: '{count} setting was repaired:',
+    other: '{count} settings were repaired:',
+  },
+  'settingsImport.pickFile': 'PICK FILE',
+  'settingsImport.file': 'Settings file',
+  'settingsImport.placeholder': 'Paste the settings file here',
+  'settingsImport.unreadableFile': 'Could not read that file',
+  'settingsImport.notSettings': 'This is not a calculator settings file',
+  'settingsImport.newerVersion': 'These settings were made by a newer version of the app',
+  'settingsImport.cancel': 'CANCEL',
+  'settingsImport.apply': 'APPLY',
+  'settingsImport.check': 'CHECK',
+
+  // Named memory registers
+  'memory.title': 'MEMORY REGISTERS',
+  'memory.namePlaceholder': 'Register name',
+  'memory.store': 'STORE {value}',
+  'memory.empty': 'No named registers yet',
+  'memory.recall': 'RCL',
+  'memory.clear': 'CLR',
+  'memory.close': 'CLOSE',
+
+  // Register transactions
+  'register.category.Uncategorized': 'Uncategorized',
+  'register.category.Income': 'Income',
+  'register.category.Housing': 'Housing',
+  'register.category.Utilities': 'Utilities',
+  'register.category.Groceries': 'Groceries',
+  'register.category.Transport': 'Transport',
+  'register.category.Dining': 'Dining',
+  'register.category.Health': 'Health',
+  'register.category.Entertainment': 'Entertainment',
+  'register.category.Transfer': 'Transfer',
+  'transaction.type.deposit': 'Deposit',
+  'transaction.type.withdrawal': 'Debit',
+  'transaction.amount': 'Amount ({symbol})',
+  'transaction.date': 'Date',
+  'transaction.datePlaceholder': 'YYYY-MM-DD',
+  'transaction.payee': 'Payee',
+  'transaction.payee.deposit': 'Received from',
+  'transaction.payee.withdrawal': 'Paid to',
+  'transaction.checkNumber': 'Check #',
+  'transaction.category': 'Category',
+  'transaction.memo': 'Memo',
+  'transaction.optional': 'Optional',
+  'transaction.invalidDate': 'Enter the date as YYYY-MM-DD',
+  'transaction.invalidAmount': {
+    one: 'Enter an amount above zero with at most {count} decimal place',
+    other: 'Enter an amount above zero with at most {count} decimal places',
+  },
+  'transaction.noPayee': 'Enter a payee',
+  'transaction.delete': 'DELETE',
+  'transaction.cancel': 'CANCEL',
+  'transaction.save': 'SAVE',
+  'report.title': 'STATEMENT OF {date}',
+  'report.reconciled': 'Reconciled {date}',
+  'report.openingBalance': 'Opening balance',
+  'report.clearedItems': 'Cleared items',
+  'report.statementBalance': 'Statement balance',
+  'report.registerBalance': 'Register balance',
+  'report.outstandingChecks': 'Outstanding checks',
+  'report.depositsInTransit': 'Deposits in transit',
+  'report.none': 'None',
+
+  // Bank import
+  'import.target': 'Import into',
+  'import.target.register': 'Register',
+  'import.target.history': 'Tape',
+  'import.format': 'Format',
+  'import.format.auto': 'Auto',
+  'import.detected': 'Looks like {format}',
+  'import.columns': 'CSV columns (1 = first, 0 = none)',
+  'import.column.date': 'Date',
+  'import.column.payee': 'Payee',
+  'import.column.amount': 'Amount',
+  'import.column.debit': 'Debit',
+  'import.column.credit': 'Credit',
+  'import.column.checkNumber': 'Check #',
+  'import.column.memo': 'Memo',
+  'import.columnsHint': 'Leave Amount at 0 when debits and credits are separate',
+  'import.dateFormat': 'Date format',
+  'import.delimiter': 'Separator',
+  'import.delimiter.comma': 'Comma',
+  'import.delimiter.semicolon': 'Semicolon',
+  'import.delimiter.tab': 'Tab',
+  'import.headerRow': 'Header row',
+  'import.contents': 'File contents',
+  'import.pickFile': 'PICK FILE',
+  'import.placeholder': 'Paste a QIF, OFX or CSV export here',
+  'import.preview': 'PREVIEW',
+  'import.unreadableFile': 'Could not read that file',
+  'import.noText': 'Pick a file or paste its contents',
+  'import.saveFailed': 'Could not save the imported lines',
+  'import.counts': '{format} · {count} NEW · {duplicates} DUP · {errors} ERR',
+  'import.deposits': 'DEPOSITS',
+  'import.withdrawals': 'WITHDRAWALS',
+  'import.balanceNow': 'BALANCE NOW',
+  'import.afterImport': 'AFTER IMPORT',
+  'import.netChange': 'NET CHANGE',
+  'import.line': 'L{line}',
+  'import.duplicate': 'DUP',
+  'import.back': 'BACK',
+  'import.import': { one: 'IMPORT {count} LINE', other: 'IMPORT {count} LINES' },
+  'import.unknownPayee': 'Unknown payee',
+  'import.error.date': 'Unrecognized date "{text}"',
+  'import.error.amount': 'Unrecognized amount "{text}"',
+  'import.error.amountRange': 'Amount out of range "{text}"',
+  'import.error.zero': 'Amount is zero',
+  'import.error.section': 'Unsupported section "{text}"',
+  'import.error.noOfxTransactions': 'No transactions found in this OFX file',
+  'import.error.mapping': 'Map a date column and an amount (or debit/credit) column',
+
+  // Statement reconciliation
+  'reconcile.openingBalance': 'OPENING BALANCE',
+  'reconcile.endingDate': 'Statement ending date',
+  'reconcile.datePlaceholder': 'YYYY-MM-DD',
+  'reconcile.endingBalance': 'Statement ending balance ({symbol})',
+  'reconcile.invalidDate': 'Enter the statement date as YYYY-MM-DD',
+  'reconcile.invalidBalance': {
+    one: 'Enter the ending balance with at most {count} decimal place',
+    other: 'Enter the ending balance with at most {count} decimal places',
+  },
+  'reconcile.start': 'START',
+  'reconcile.lastReport': 'Last reconciliation',
+  'reconcile.statement': 'STATEMENT',
+  'reconcile.cleared': 'CLEARED',
+  'reconcile.difference': 'DIFFERENCE',
+  'reconcile.empty': 'No unreconciled transactions on or before this date',
+  'reconcile.back': 'BACK',
+  'reconcile.finish': 'FINISH',
+  'reconcile.done': 'DONE',
+
+  // Navigation
+  'nav.calculator': 'Calculator',
+  'nav.register': 'Register',
+  'nav.reconcile': 'Reconcile Statement',
+  'nav.import': 'Import Transactions',
+
+  // Register screen
+  'register.balance': 'BALANCE',
+  'register.empty': 'No transactions yet. Add one here or post from the calculator with REG.',
+  'register.add': '+ ADD',
+  'register.import': 'IMPORT',
+  'register.reconcile': 'RECONCILE',
+  'register.newTitle': 'NEW TRANSACTION',
+  'register.editTitle': 'EDIT TRANSACTION',
+  'register.postTitle': 'POST TO REGISTER',
+
+  // Display
+  'display.settings': 'Settings',
+  'display.mode.checkbook': 'CHECKBOOK  {currency}',
+  'display.mode.scientific': 'SCIENTIFIC  {angle}',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
@@ -6,7 +6,7 @@
 import { useState, useCallback } from 'react';
 import { CalculatorState, Operation, CalculatorMode } from '@/types/calculator';
 import { CalculatorEngine } from '@/utils/calculator';
-import { MAX_DISPLAY_LENGTH } from '@/constants/calculator';
+import { MAX_DISPLAY_LENGTH, EMPTY_MEMORY } from '@/constants/calculator';
 
 const INITIAL_STATE: CalculatorState = {
   display: '0',
@@ -14,8 +14,13 @@ const INITIAL_STATE: CalculatorState = {
   previousValue: null,
   operation: null,
   waitingForOperand: false,
+  entryComplete: false,
   error: false,
-  errorMessage: '',
+  errorCode: null,
+  memory: EMPTY_MEMORY,
+  grandTotal: 0,
+  itemCount: 0,
+  chain: [],
 };
 
 export function useCalculator(mode: CalculatorMode = 'checkbook') {
@@ -49,9 +54,8 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
         ? digit
         : prev.display + digit;
 
-      // Validate that the new value won't exceed maximum
-      const potentialValue = CalculatorEngine.getDisplayValue(potentialDisplay);
-      if (Math.abs(potentialValue) > 999999999.99) {
+      // Validate that the new value won't exceed maximum or precision
+      if (!CalculatorEngine.isValidEntry(potentialDisplay, mode)) {
         // Don't allow this input - number would be too large
         return prev;
       }
@@ -61,7 +65,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
         display: potentialDisplay,
       };
     });
-  }, []);
+  }, [mode]);
 
   /**
    * Handle decimal point
@@ -129,7 +133,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
 
       // If we have a previous value and operation, calculate first
       if (prev.previousValue !== null && prev.operation && !prev.waitingForOperand) {
-        const { result, error, errorMessage } = CalculatorEngine.calculate(
+        const { result, error, errorCode } = CalculatorEngine.calculate(
           prev.previousValue,
           prev.operation,
           currentValue,
@@ -140,7 +144,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
           return {
             ...prev,
             error: true,
-            errorMessage,
+            errorCode,
             display: '0',
             expression: '',
           };
@@ -157,7 +161,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
           operation: newOperation,
           waitingForOperand: true,
           error: false,
-          errorMessage: '',
+          errorCode: null,
         };
       }
 
@@ -170,7 +174,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
         operation: newOperation,
         waitingForOperand: true,
         error: false,
-        errorMessage: '',
+        errorCode: null,
       };
     });
   }, [mode]);
@@ -185,7 +189,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
       }
 
       const currentValue = CalculatorEngine.getDisplayValue(prev.display);
-      const { result, error, errorMessage } = CalculatorEngine.calculate(
+      const { result, error, errorCode } = CalculatorEngine.calculate(
         prev.previousValue,
         prev.operation,
         currentValue,
@@ -196,7 +200,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
         return {
           ...prev,
           error: true,
-          errorMessage,
+          errorCode,
           display: '0',
           expression: '',
           waitingForOperand: true,
@@ -214,7 +218,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
         operation: null,
         waitingForOperand: true,
         error: false,
-        errorMessage: '',
+        errorCode: null,
       };
     });
   }, [mode]);
@@ -246,7 +250,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
       display: '0',
       waitingForOperand: true,
       error: false,
-      errorMessage: '',
+      errorCode: null,
     }));
   }, [setState]);
 
@@ -254,7 +258,7 @@ export function useCalculator(mode: CalculatorMode = 'checkbook') {
    * Handle All Clear (AC) - Reset everything
    */
   const handleAllClear = useCallback(() => {
-    setState(INITIAL_STATE);
+    setState((prev) => ({ ...INITIAL_STATE, memory: prev.memory }));
   }, []);
 
   /**
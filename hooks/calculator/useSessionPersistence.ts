@@ -0,0 +1,51 @@
+/**
+ * Session persistence hook
+ * Snapshots the calculator state and undo stack to storage so a killed app can resume
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { CalculatorState, SessionSnapshot } from '@/types/calculator';
+import { SESSION_SAVE_DELAY } from '@/constants/calculator';
+import { saveSession } from '@/utils/storage';
+
+export function useSessionPersistence(
+  calculatorState: CalculatorState,
+  undoStack: CalculatorState[],
+  undoIndex: number,
+  enabled: boolean
+) {
+  // Snapshot waiting for its debounce timer
+  const pendingRef = useRef<SessionSnapshot | null>(null);
+
+  /**
+   * Save shortly after the last change, so rapid key presses write once
+   */
+  useEffect(() => {
+    if (!enabled) return;
+
+    pendingRef.current = { calculatorState, undoStack, undoIndex, savedAt: Date.now() };
+    const timer = setTimeout(() => {
+      if (pendingRef.current) {
+        saveSession(pendingRef.current);
+        pendingRef.current = null;
+      }
+    }, SESSION_SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [calculatorState, undoStack, undoIndex, enabled]);
+
+  /**
+   * Save immediately when the app leaves the foreground, where it may be killed
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState !== 'active' && pendingRef.current) {
+        saveSession(pendingRef.current);
+        pendingRef.current = null;
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+}
@@ -6,6 +6,7 @@
 import { useState, useCallback } from 'react';
 import { CalculatorState } from '@/types/calculator';
 import { UNDO_REDO_STACK_SIZE } from '@/constants/calculator';
+import { t } from '@/utils/i18n';
 
 interface UndoRedoState {
   stack: CalculatorState[];
@@ -65,14 +66,16 @@ export function useUndoRedo(initialState: CalculatorState) {
 
         // Format feedback message
         const operation = previousState.operation || 'value';
-        const operationText = operation === '+' ? 'added' :
-                            operation === '-' ? 'subtracted' :
-                            operation === '×' ? 'multiplied by' :
-                            operation === '÷' ? 'divided by' :
-                            'changed to';
+        const operationText = operation === '+' ? t('undo.added') :
+                            operation === '-' ? t('undo.subtracted') :
+                            operation === '×' ? t('undo.multiplied') :
+                            operation === '÷' ? t('undo.divided') :
+                            t('undo.changed');
 
         setFeedback({
-          message: `⟲ Undid last operation${previousState.operation ? ': ' + operationText : ''}`,
+          message: previousState.operation
+            ? t('undo.undidOperation', { operation: operationText })
+            : t('undo.undid'),
           isUndo: true,
         });
 
@@ -103,7 +106,7 @@ export function useUndoRedo(initialState: CalculatorState) {
         const nextState = prev.stack[newIndex];
 
         setFeedback({
-          message: `⟳ Redid operation`,
+          message: t('redo.redid'),
           isUndo: false,
         });
 
@@ -145,6 +148,17 @@ export function useUndoRedo(initialState: CalculatorState) {
     setFeedback(null);
   }, []);
 
+  /**
+   * Restore a saved undo/redo history (session resume)
+   */
+  const restore = useCallback((stack: CalculatorState[], currentIndex: number) => {
+    setUndoRedo({
+      stack: stack.slice(-UNDO_REDO_STACK_SIZE),
+      currentIndex: Math.max(0, currentIndex - Math.max(0, stack.length - UNDO_REDO_STACK_SIZE)),
+    });
+    setFeedback(null);
+  }, []);
+
   /**
    * Clear feedback message
    */
@@ -159,6 +173,9 @@ export function useUndoRedo(initialState: CalculatorState) {
     canUndo,
     canRedo,
     clear,
+    restore,
+    stack: undoRedo.stack,
+    currentIndex: undoRedo.currentIndex,
     feedback,
     clearFeedback,
   };
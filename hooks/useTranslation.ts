@@ -0,0 +1,13 @@
+/**
+ * Translation hook for components
+ * Re-renders the component when the interface language changes
+ */
+
+import { useSyncExternalStore } from 'react';
+import { Language } from '@/types/calculator';
+import { getLanguage, subscribeToLanguage, t } from '@/utils/i18n';
+
+export function useTranslation(): { t: typeof t; language: Language } {
+  const language = useSyncExternalStore(subscribeToLanguage, getLanguage, getLanguage);
+  return { t, language };
+}
@@ -3,15 +3,167 @@
  */
 
 export type CalculatorMode = 'checkbook' | 'scientific';
-export type Operation = '+' | '-' | '×' | '÷' | null;
+export type Operation = '+' | '-' | '×' | '÷' | '^' | 'ʸ√' | null;
 export type LcdColor = 'amber' | 'green';
+export type EntryMode = 'immediate' | 'algebraic';
+export type AngleUnit = 'deg' | 'rad' | 'grad';
+export type StartupBehavior = 'resume' | 'lastBalance';
+export type StorageBackendKind = 'asyncStorage' | 'memory' | 'fileSystem';
+export type SymbolPlacement = 'before' | 'after';
+export type NumberLocale = 'en-US' | 'de-DE' | 'fr-FR' | 'de-CH';
+export type Language = 'en' | 'de';
+export type DigitGrouping = 'thousands' | 'indian' | 'none'; // 1,234,567 / 12,34,567 (lakh, crore) / 1234567
+export type ScientificFunction =
+  | 'sin'
+  | 'cos'
+  | 'tan'
+  | 'asin'
+  | 'acos'
+  | 'atan'
+  | 'log'
+  | 'ln'
+  | 'exp10'
+  | 'exp'
+  | 'square'
+  | 'sqrt'
+  | 'factorial'
+  | 'reciprocal';
+export type ScientificConstant = 'π' | 'e';
 
+// Why an operation failed; messages, display text and recovery actions are all keyed by it
+export type CalculatorErrorCode = 'divideByZero' | 'overflow' | 'domain' | 'invalidInput' | 'storage';
+
+// What the error modal offers to get back to a working state
+export type ErrorRecoveryAction = 'undo' | 'clear' | 'useMaxValue' | 'dismiss';
+
+export interface CalculationResult {
+  result: number; // On overflow, the largest displayable value with the result's sign
+  error: boolean;
+  errorCode: CalculatorErrorCode | null;
+}
+
+export type HistoryEntryKind = 'calculation' | 'subtotal' | 'total';
+
+// One line of a chain calculation: the operator and operand entered, and the running result after it
+// The first step of a chain has no operator
+export interface ChainStep {
+  operation: Operation | null;
+  operand: number;
+  result: number;
+}
+
+// Stored tape entry (see HISTORY_SCHEMA_VERSION; older records are migrated on load)
 export interface CalculationHistory {
   id: string;
-  expression: string;
+  kind: HistoryEntryKind; // Subtotal (◇) and total (*) lines print specially
+  operation: Operation; // Last operator applied; null for totals and algebraic expressions
+  operands: number[]; // Values entered, in order
+  expression: string; // Printable form of the calculation
   result: number;
-  timestamp: number;
   displayResult: string; // Formatted result for display
+  mode: CalculatorMode;
+  currencySymbol: string;
+  precision: number; // Decimal places the result was rounded to
+  timestamp: number;
+  steps?: ChainStep[]; // Every step of the chain since the last clear (immediate entry only)
+  itemCount?: number; // Items summed by a subtotal or total line; its label is printed from this
+}
+
+// What a caller supplies to record an entry; storage assigns the id and timestamp
+export type NewHistoryEntry = Omit<CalculationHistory, 'id' | 'timestamp'>;
+
+export type TransactionType = 'deposit' | 'withdrawal';
+// Uncleared → cleared (ticked against a statement) → reconciled (locked once the statement balances)
+export type ClearStatus = 'uncleared' | 'cleared' | 'reconciled';
+
+// One line of the checkbook register; amount is always positive, type gives the direction
+export interface RegisterTransaction {
+  id: string;
+  date: number; // Timestamp of the transaction date
+  payee: string;
+  checkNumber: string; // Empty for deposits, transfers and card payments
+  memo: string;
+  category: string;
+  type: TransactionType;
+  amount: number;
+  status: ClearStatus;
+}
+
+export type NewRegisterTransaction = Omit<RegisterTransaction, 'id'>;
+
+// A register line with the running balance after it
+export interface RegisterEntry extends RegisterTransaction {
+  balance: number;
+}
+
+// Snapshot of a transaction left off a statement
+export interface ReconciliationItem {
+  id: string;
+  date: number;
+  payee: string;
+  checkNumber: string;
+  amount: number;
+}
+
+// Saved when a statement is reconciled
+export interface ReconciliationReport {
+  id: string;
+  statementDate: number;
+  statementBalance: number;
+  openingBalance: number; // Reconciled balance before this statement
+  registerBalance: number; // Register balance on the statement date, including uncleared items
+  reconciledAt: number;
+  clearedCount: number;
+  outstandingChecks: ReconciliationItem[]; // Uncleared withdrawals
+  depositsInTransit: ReconciliationItem[]; // Uncleared deposits
+}
+
+export type NewReconciliationReport = Omit<ReconciliationReport, 'id' | 'reconciledAt'>;
+
+export type RestoreMode = 'merge' | 'overwrite';
+
+export type ImportFormat = 'qif' | 'ofx' | 'csv';
+export type ImportTarget = 'register' | 'history';
+
+// Where each field sits in a bank CSV; columns are 1-based as in a spreadsheet, 0 means absent
+export interface CsvColumnMapping {
+  hasHeader: boolean;
+  delimiter: string;
+  dateFormat: string; // date-fns pattern, e.g. MM/dd/yyyy
+  date: number;
+  payee: number;
+  amount: number; // Signed amount; 0 when debits and credits are separate columns
+  debit: number;
+  credit: number;
+  checkNumber: number;
+  memo: number;
+}
+
+// A transaction read from a bank file, before it is added anywhere
+export interface ImportedTransaction {
+  line: number; // Line of the source file the transaction starts on
+  date: number;
+  payee: string;
+  checkNumber: string;
+  memo: string;
+  amount: number; // Positive for deposits, negative for withdrawals
+  duplicate: boolean; // Already in the register or tape, or repeated earlier in the file
+}
+
+export interface ImportLineError {
+  line: number;
+  message: string;
+}
+
+export interface ImportParseResult {
+  format: ImportFormat;
+  transactions: ImportedTransaction[];
+  errors: ImportLineError[];
+}
+
+export interface MemoryState {
+  value: number; // Independent accumulator (M+, M−, MR, MC)
+  registers: Record<string, number>; // Named registers
 }
 
 export interface CalculatorState {
@@ -20,8 +172,13 @@ export interface CalculatorState {
   previousValue: number | null;
   operation: Operation | null;
   waitingForOperand: boolean;
+  entryComplete: boolean; // Display holds a function result; next digit starts a new number
   error: boolean;
-  errorMessage: string;
+  errorCode: CalculatorErrorCode | null;
+  memory: MemoryState;
+  grandTotal: number; // GT register - sum of every = and * result since AC
+  itemCount: number; // Entries in the current chain since the last total (*)
+  chain: ChainStep[]; // Steps entered since the last clear, recorded with each result
 }
 
 export interface UndoRedoState {
@@ -30,13 +187,92 @@ export interface UndoRedoState {
   maxStates: number;
 }
 
+// Calculator and undo stack as they were when the app was last used
+export interface SessionSnapshot {
+  calculatorState: CalculatorState;
+  undoStack: CalculatorState[];
+  undoIndex: number;
+  savedAt: number;
+}
+
+// Hardware key combination ("5", "Enter", "Ctrl+Z") → label of the keypad key it presses
+export type KeyBindings = Record<string, string>;
+
+// A keypad arrangement: key labels row by row, with '' leaving a gap
+export interface KeypadLayout {
+  rows: string[][];
+  secondary?: Record<string, string>; // Key → key its long press (or SHIFT, then the key) presses
+}
+
+// Named layouts saved for one mode, and the one in use (null for the built-in keypad)
+export interface ModeKeypadLayouts {
+  active: string | null;
+  saved: Record<string, KeypadLayout>;
+}
+
+export type KeypadLayouts = Record<CalculatorMode, ModeKeypadLayouts>;
+
 export interface AppSettings {
   mode: CalculatorMode;
   lcdColor: LcdColor;
   soundEnabled: boolean;
   retentionDays: 30 | 60 | 90;
-  currencySymbol: string;
+  currency: string; // ISO 4217 code; see CURRENCIES
+  numberLocale: NumberLocale; // Decimal and group characters
+  digitGrouping: DigitGrouping;
   showModeWarning: boolean;
+  entryMode: EntryMode; // Immediate (adding-machine) or algebraic with precedence
+  angleUnit: AngleUnit; // Used by trig functions in scientific mode
+  startupBehavior: StartupBehavior; // Resume the last session or start from the last checkbook balance
+  language: Language; // Interface language; also picks the date-fns locale
+  keyBindings: KeyBindings; // Hardware keyboard and numpad shortcuts
+  keypadLayouts: KeypadLayouts; // Custom keypads per mode
+}
+
+// ISO 4217 currency; checkbook amounts are rounded to its minor units
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  minorUnits: number; // Digits after the decimal point (JPY 0, USD 2, KWD 3)
+  placement: SymbolPlacement; // Symbol before ("$1.00") or after ("1,00 €") the amount
+}
+
+// How numbers are shown; values are stored and calculated with "." and no grouping
+export interface NumberFormat {
+  decimal: string;
+  group: string;
+  grouping: DigitGrouping;
+}
+
+// A catalog entry: plain text, or one form per plural category chosen by the {count} parameter
+export type Message = string | { one: string; other: string };
+
+// What validation did to a setting; the text shown for it comes from describeRepair
+export type SettingsRepairKind = 'unreadable' | 'replaced' | 'adjusted' | 'removed';
+
+// A stored setting that had to be fixed when it was loaded
+export interface SettingsRepair {
+  field: string; // "*" when the whole record was unreadable
+  kind: SettingsRepairKind;
+  from?: string; // Stored value as JSON; absent when it was missing
+  to?: string; // Value used instead, as JSON
+}
+
+// How stored settings were loaded; only "loaded" settings may be written back unchanged
+// ("unreadable": the store could not be read; "newer": saved by a newer version of the app)
+export type SettingsLoadStatus = 'loaded' | 'unreadable' | 'newer';
+
+export interface LoadedSettings {
+  settings: AppSettings;
+  status: SettingsLoadStatus;
+}
+
+// Outcome of the last settings load that needed repairs
+export interface SettingsDiagnostics {
+  checkedAt: number;
+  fromVersion: number;
+  repairs: SettingsRepair[];
 }
 
 export interface HistoryItemProps {
@@ -0,0 +1,238 @@
+/**
+ * Whole-app backup and restore
+ * One JSON file holds settings, the tape, the register and the balance, guarded by a checksum
+ */
+
+import { format } from 'date-fns';
+import {
+  AppSettings,
+  CalculationHistory,
+  MemoryState,
+  ReconciliationReport,
+  RegisterTransaction,
+  RestoreMode,
+} from '@/types/calculator';
+import { HISTORY_SCHEMA_VERSION, SETTINGS_SCHEMA_VERSION } from '@/constants/calculator';
+import { ExportFile } from '@/utils/export';
+import { t } from '@/utils/i18n';
+import { validateSettings } from '@/utils/settings';
+import {
+  loadSettings,
+  saveSettings,
+  getHistory,
+  getLastBalance,
+  saveLastBalance,
+  getMemory,
+  saveMemory,
+  getRegister,
+  getReconciliationReports,
+  restoreHistory,
+  restoreRegister,
+} from '@/utils/storage';
+
+export const BACKUP_FORMAT = 'retro-calculator-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  settings: AppSettings;
+  settingsVersion?: number; // Missing from backups made before settings were versioned
+  historySchemaVersion: number; // Shape of the history records, so restore can migrate them
+  history: CalculationHistory[];
+  lastBalance: number;
+  memory: MemoryState;
+  register: RegisterTransaction[];
+  reconciliations: ReconciliationReport[];
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO 8601
+  checksum: string; // FNV-1a of JSON.stringify(data), in hex
+  data: BackupData;
+}
+
+export type BackupValidation = { backup: BackupFile; error?: never } | { backup?: never; error: string };
+
+// What a restore would change, for the confirmation step
+export interface RestorePreview {
+  createdAt: number;
+  history: { stored: number; inBackup: number; added: number };
+  register: { stored: number; inBackup: number; added: number };
+  lastBalance: { stored: number; inBackup: number };
+}
+
+/**
+ * 32-bit FNV-1a hash; catches truncated or hand-edited files, not deliberate tampering
+ */
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check the memory section: the accumulator and every named register must be numbers
+ */
+function isValidMemory(value: unknown): value is MemoryState {
+  const memory = value as MemoryState | null;
+  return (
+    typeof memory === 'object' &&
+    memory !== null &&
+    isFiniteNumber(memory.value) &&
+    typeof memory.registers === 'object' &&
+    memory.registers !== null &&
+    !Array.isArray(memory.registers) &&
+    Object.values(memory.registers).every(isFiniteNumber)
+  );
+}
+
+/**
+ * Build a backup file of everything the app stores
+ */
+export async function createBackup(): Promise<ExportFile> {
+  const [settings, history, lastBalance, memory, register, reconciliations] = await Promise.all([
+    loadSettings(),
+    getHistory(),
+    getLastBalance(),
+    getMemory(),
+    getRegister(),
+    getReconciliationReports(),
+  ]);
+
+  const data: BackupData = {
+    settings,
+    settingsVersion: SETTINGS_SCHEMA_VERSION,
+    historySchemaVersion: HISTORY_SCHEMA_VERSION,
+    history,
+    lastBalance,
+    memory,
+    register,
+    reconciliations,
+  };
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: checksum(JSON.stringify(data)),
+    data,
+  };
+
+  return {
+    filename: `calculator-backup-${format(Date.now(), 'yyyy-MM-dd')}.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify(backup),
+  };
+}
+
+/**
+ * Check a backup file before anything is restored from it
+ * Individual records are validated again (and migrated) as they are restored
+ */
+export function validateBackup(text: string): BackupValidation {
+  let parsed: Partial<BackupFile>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: t('file.invalidJson') };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || parsed.format !== BACKUP_FORMAT) {
+    return { error: t('restore.notBackup') };
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    return { error: t('restore.newerVersion') };
+  }
+
+  const { data } = parsed;
+  if (typeof data !== 'object' || data === null || checksum(JSON.stringify(data)) !== parsed.checksum) {
+    return { error: t('restore.damaged') };
+  }
+
+  if (
+    typeof data.settings !== 'object' ||
+    data.settings === null ||
+    !Array.isArray(data.history) ||
+    !Array.isArray(data.register) ||
+    !Array.isArray(data.reconciliations) ||
+    typeof data.lastBalance !== 'number' ||
+    !Number.isInteger(data.historySchemaVersion) ||
+    // Backups made before memory registers were saved have no memory section
+    (data.memory !== undefined && !isValidMemory(data.memory))
+  ) {
+    return { error: t('restore.incomplete') };
+  }
+  if (
+    data.historySchemaVersion > HISTORY_SCHEMA_VERSION ||
+    (data.settingsVersion ?? 1) > SETTINGS_SCHEMA_VERSION
+  ) {
+    return { error: t('restore.newerVersion') };
+  }
+
+  return { backup: parsed as BackupFile };
+}
+
+/**
+ * Compare a backup with what is stored now
+ * "added" counts records a merge would bring in (ids not stored yet)
+ */
+export async function getRestorePreview(backup: BackupFile): Promise<RestorePreview> {
+  const [history, register, lastBalance] = await Promise.all([
+    getHistory(),
+    getRegister(),
+    getLastBalance(),
+  ]);
+  const { data } = backup;
+  const historyIds = new Set(history.map((item) => item.id));
+  const registerIds = new Set(register.map((item) => item.id));
+
+  return {
+    createdAt: Date.parse(backup.createdAt),
+    history: {
+      stored: history.length,
+      inBackup: data.history.length,
+      added: data.history.filter((item) => !historyIds.has(item?.id)).length,
+    },
+    register: {
+      stored: register.length,
+      inBackup: data.register.length,
+      added: data.register.filter((item) => !registerIds.has(item?.id)).length,
+    },
+    lastBalance: { stored: lastBalance, inBackup: data.lastBalance },
+  };
+}
+
+/**
+ * Restore a validated backup
+ * Overwrite replaces everything; merge adds missing tape and register entries and named memories,
+ * keeping the current settings and balance
+ * Stops at the first part that can't be saved and returns false; parts already restored are kept
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<boolean> {
+  const { data } = backup;
+
+  if ((await restoreHistory(data.history, data.historySchemaVersion, mode)) === null) return false;
+  if ((await restoreRegister(data.register, data.reconciliations, mode)) === null) return false;
+
+  if (mode === 'overwrite') {
+    return (
+      (await saveSettings(validateSettings(data.settings, data.settingsVersion ?? 1).settings)) &&
+      (await saveLastBalance(data.lastBalance)) &&
+      (!data.memory || (await saveMemory(data.memory)))
+    );
+  }
+
+  if (!data.memory) return true;
+  const memory = await getMemory();
+  return saveMemory({
+    ...memory,
+    registers: { ...data.memory.registers, ...memory.registers },
+  });
+}
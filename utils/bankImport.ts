@@ -0,0 +1,467 @@
+/**
+ * Bank file import: QIF, OFX 1.x (SGML) / 2.x (XML) and mapped CSV
+ * Parsers never throw; lines they can't read are reported with their line number
+ */
+
+import { format, isValid, parse, startOfDay } from 'date-fns';
+import {
+  CalculationHistory,
+  CsvColumnMapping,
+  CurrencyInfo,
+  ImportFormat,
+  ImportedTransaction,
+  ImportLineError,
+  ImportParseResult,
+  NewHistoryEntry,
+  NewRegisterTransaction,
+  RegisterTransaction,
+} from '@/types/calculator';
+import { CalculatorEngine } from '@/utils/calculator';
+import { Decimal } from '@/utils/decimal';
+import { t } from '@/utils/i18n';
+import { parseAmount } from '@/utils/numberFormat';
+import { getSignedAmount } from '@/utils/register';
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+/**
+ * Guess the format from the file contents
+ */
+export function detectImportFormat(text: string): ImportFormat {
+  const start = text.trimStart();
+  if (start.startsWith('!')) return 'qif';
+  if (/OFXHEADER|<OFX>/i.test(start.slice(0, 1000))) return 'ofx';
+  return 'csv';
+}
+
+type ImportAmount = { amount: Decimal; error?: never } | { error: string };
+
+/**
+ * Read a bank amount: "1,234.56", "-12.50", "(12.50)", "$12.50", "1.234,56" (see parseAmount)
+ * Amounts beyond the display range are refused; rounding to the currency happens when the
+ * line is imported
+ */
+export function parseImportAmount(text: string): ImportAmount {
+  const amount = parseAmount(text);
+  if (!amount) {
+    return { error: t('import.error.amount', { text }) };
+  }
+  if (CalculatorEngine.exceedsMaxValue(amount)) {
+    return { error: t('import.error.amountRange', { text }) };
+  }
+  return { amount };
+}
+
+/**
+ * Local midnight of a calendar date (month 1-12), or null if there is no such day
+ * (Date would roll 13/01 or 02/30 over into the following month)
+ */
+function toLocalDate(year: number, month: number, day: number): number | null {
+  const date = new Date(year, month - 1, day);
+  const exists =
+    date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+  return isValid(date) && exists ? date.getTime() : null;
+}
+
+/**
+ * QIF dates are month first: 01/31/2024, 1/31/24, 1/31'24 (apostrophe marks 2000s), 01-31-2024
+ */
+function parseQifDate(text: string): number | null {
+  const match = /^(\d{1,2})[/-](\d{1,2})(['/-])\s*(\d{2}|\d{4})$/.exec(text.trim());
+  if (!match) return null;
+
+  const [, month, day, separator, yearText] = match;
+  let year = parseInt(yearText, 10);
+  if (yearText.length === 2) {
+    year += separator === "'" || year < 50 ? 2000 : 1900;
+  }
+
+  return toLocalDate(year, parseInt(month, 10), parseInt(day, 10));
+}
+
+/**
+ * Parse a Quicken Interchange Format file
+ * Records are runs of one-letter fields ending in "^"; account lists and splits are skipped
+ */
+export function parseQif(text: string): ImportParseResult {
+  const transactions: ImportedTransaction[] = [];
+  const errors: ImportLineError[] = [];
+  const lines = text.split(/\r?\n/);
+
+  // Account lists and non-bank sections (investments, memorized items) hold no bank lines
+  let skipSection = false;
+  let recordLine = 0;
+  let fields: Record<string, string> = {};
+
+  const finishRecord = () => {
+    if (Object.keys(fields).length === 0 || skipSection) return;
+
+    const date = fields.D !== undefined ? parseQifDate(fields.D) : null;
+    const amount = parseImportAmount(fields.T ?? fields.U ?? '');
+    if (date === null) {
+      errors.push({ line: recordLine, message: t('import.error.date', { text: fields.D ?? '' }) });
+    } else if (amount.error !== undefined) {
+      errors.push({ line: recordLine, message: amount.error });
+    } else if (amount.amount.isZero()) {
+      errors.push({ line: recordLine, message: t('import.error.zero') });
+    } else {
+      transactions.push({
+        line: recordLine,
+        date,
+        payee: fields.P || fields.M || t('import.unknownPayee'),
+        checkNumber: /^\d+$/.test(fields.N ?? '') ? fields.N : '',
+        memo: fields.M ?? '',
+        amount: amount.amount.toNumber(),
+        duplicate: false,
+      });
+    }
+  };
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      if (/^!Account/i.test(line)) {
+        skipSection = true;
+      } else if (/^!Type/i.test(line)) {
+        skipSection = !/^!Type:(Bank|Cash|CCard|Oth ?[AL])/i.test(line);
+        if (skipSection) {
+          errors.push({ line: index + 1, message: t('import.error.section', { text: line }) });
+        }
+      }
+      return;
+    }
+
+    if (line === '^') {
+      finishRecord();
+      fields = {};
+      return;
+    }
+
+    if (Object.keys(fields).length === 0) {
+      recordLine = index + 1;
+    }
+
+    // Split lines (S, E, $) repeat per split; only the record totals are imported
+    const code = line[0];
+    if (!'SE$'.includes(code) && fields[code] === undefined) {
+      fields[code] = line.slice(1).trim();
+    }
+  });
+
+  // A final record without its "^"
+  finishRecord();
+
+  return { format: 'qif', transactions, errors };
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity]);
+}
+
+// Leaf value of an OFX element; SGML (1.x) leaves have no closing tag, so read up to the next tag or line end
+function readOfxField(block: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+// OFX dates are YYYYMMDD followed by an optional time and zone; the calendar day is what matters
+function parseOfxDate(text: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(text);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  return toLocalDate(parseInt(year, 10), parseInt(month, 10), parseInt(day, 10));
+}
+
+/**
+ * Parse an Open Financial Exchange statement, either 1.x SGML or 2.x XML
+ * Both wrap each transaction in a closed <STMTTRN> aggregate, which is all that's needed here
+ */
+export function parseOfx(text: string): ImportParseResult {
+  const transactions: ImportedTransaction[] = [];
+  const errors: ImportLineError[] = [];
+  const blockPattern = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(text)) !== null) {
+    const block = match[1];
+    const line = text.slice(0, match.index).split('\n').length;
+
+    const dateText = readOfxField(block, 'DTPOSTED');
+    const amountText = readOfxField(block, 'TRNAMT');
+    const date = parseOfxDate(dateText);
+    const amount = parseImportAmount(amountText);
+
+    if (date === null) {
+      errors.push({ line, message: t('import.error.date', { text: dateText }) });
+    } else if (amount.error !== undefined) {
+      errors.push({ line, message: amount.error });
+    } else if (amount.amount.isZero()) {
+      errors.push({ line, message: t('import.error.zero') });
+    } else {
+      const memo = readOfxField(block, 'MEMO');
+      transactions.push({
+        line,
+        date,
+        payee: readOfxField(block, 'NAME') || memo || t('import.unknownPayee'),
+        checkNumber: readOfxField(block, 'CHECKNUM'),
+        memo,
+        amount: amount.amount.toNumber(),
+        duplicate: false,
+      });
+    }
+  }
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: t('import.error.noOfxTransactions') });
+  }
+
+  return { format: 'ofx', transactions, errors };
+}
+
+/**
+ * Split CSV text into rows of fields, honoring quoted fields (which may contain delimiters and line breaks)
+ * Each row keeps the line it started on
+ */
+function splitCsvRows(text: string, delimiter: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some((value) => value.trim() !== '')) {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+      line++;
+      rowLine = line;
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Parse a bank CSV export using a column mapping
+ */
+export function parseCsv(text: string, mapping: CsvColumnMapping): ImportParseResult {
+  const transactions: ImportedTransaction[] = [];
+  const errors: ImportLineError[] = [];
+  const rows = splitCsvRows(text, mapping.delimiter);
+  const hasSplitAmounts = mapping.amount === 0;
+
+  if (mapping.date === 0 || (hasSplitAmounts && mapping.debit === 0 && mapping.credit === 0)) {
+    return {
+      format: 'csv',
+      transactions,
+      errors: [{ line: 1, message: t('import.error.mapping') }],
+    };
+  }
+
+  const column = (fields: string[], position: number) =>
+    position > 0 ? (fields[position - 1] ?? '').trim() : '';
+
+  for (const { line, fields } of mapping.hasHeader ? rows.slice(1) : rows) {
+    const dateText = column(fields, mapping.date);
+    const date = parse(dateText, mapping.dateFormat, new Date());
+    if (!isValid(date)) {
+      errors.push({ line, message: t('import.error.date', { text: dateText }) });
+      continue;
+    }
+
+    let amount: ImportAmount;
+    if (hasSplitAmounts) {
+      // Banks differ on whether debits carry a minus sign, so go by the column
+      const credit = column(fields, mapping.credit);
+      const debit = column(fields, mapping.debit);
+      const creditAmount = credit ? parseImportAmount(credit) : { amount: Decimal.ZERO };
+      const debitAmount = debit ? parseImportAmount(debit) : { amount: Decimal.ZERO };
+      amount =
+        creditAmount.error !== undefined
+          ? creditAmount
+          : debitAmount.error !== undefined
+            ? debitAmount
+            : { amount: creditAmount.amount.abs().minus(debitAmount.amount.abs()) };
+    } else {
+      amount = parseImportAmount(column(fields, mapping.amount));
+    }
+
+    if (amount.error !== undefined) {
+      errors.push({ line, message: amount.error });
+      continue;
+    }
+    if (amount.amount.isZero()) {
+      errors.push({ line, message: t('import.error.zero') });
+      continue;
+    }
+
+    const memo = column(fields, mapping.memo);
+    transactions.push({
+      line,
+      date: date.getTime(),
+      payee: column(fields, mapping.payee) || memo || t('import.unknownPayee'),
+      checkNumber: column(fields, mapping.checkNumber),
+      memo,
+      amount: amount.amount.toNumber(),
+      duplicate: false,
+    });
+  }
+
+  return { format: 'csv', transactions, errors };
+}
+
+/**
+ * Parse a bank file in the given format
+ */
+export function parseImport(
+  text: string,
+  importFormat: ImportFormat,
+  mapping: CsvColumnMapping
+): ImportParseResult {
+  switch (importFormat) {
+    case 'qif':
+      return parseQif(text);
+    case 'ofx':
+      return parseOfx(text);
+    case 'csv':
+    default:
+      return parseCsv(text, mapping);
+  }
+}
+
+// Two lines are the same transaction if they share a day, signed amount and payee
+function getDuplicateKey(date: number, amount: Decimal | number, payee: string): string {
+  return [
+    format(date, 'yyyy-MM-dd'),
+    Decimal.from(amount).toString(),
+    payee.trim().toLowerCase(),
+  ].join('|');
+}
+
+export function getRegisterDuplicateKeys(register: RegisterTransaction[]): Set<string> {
+  return new Set(
+    register.map((item) => getDuplicateKey(item.date, getSignedAmount(item), item.payee))
+  );
+}
+
+// Imported tape entries carry the payee as their expression
+export function getHistoryDuplicateKeys(history: CalculationHistory[]): Set<string> {
+  return new Set(history.map((item) => getDuplicateKey(item.timestamp, item.result, item.expression)));
+}
+
+/**
+ * Flag transactions already present, including repeats within the same file
+ */
+export function markDuplicates(
+  transactions: ImportedTransaction[],
+  existingKeys: Set<string>
+): ImportedTransaction[] {
+  const seen = new Set(existingKeys);
+  return transactions.map((transaction) => {
+    const key = getDuplicateKey(transaction.date, transaction.amount, transaction.payee);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...transaction, duplicate };
+  });
+}
+
+/**
+ * Totals of the transactions that would be imported (duplicates excluded)
+ */
+export function summarizeImport(transactions: ImportedTransaction[]): {
+  count: number;
+  duplicates: number;
+  deposits: number;
+  withdrawals: number;
+  net: number;
+} {
+  const included = transactions.filter((item) => !item.duplicate);
+  const sum = (items: ImportedTransaction[]) =>
+    items.reduce((total, item) => total.plus(item.amount), Decimal.ZERO);
+  const deposits = sum(included.filter((item) => item.amount > 0));
+  const withdrawals = sum(included.filter((item) => item.amount < 0)).abs();
+
+  return {
+    count: included.length,
+    duplicates: transactions.length - included.length,
+    deposits: deposits.toNumber(),
+    withdrawals: withdrawals.toNumber(),
+    net: deposits.minus(withdrawals).toNumber(),
+  };
+}
+
+export function toRegisterTransaction(
+  transaction: ImportedTransaction,
+  currency: CurrencyInfo
+): NewRegisterTransaction {
+  return {
+    date: startOfDay(transaction.date).getTime(),
+    payee: transaction.payee,
+    checkNumber: transaction.checkNumber,
+    memo: transaction.memo,
+    category: 'Uncategorized',
+    type: transaction.amount > 0 ? 'deposit' : 'withdrawal',
+    amount: CalculatorEngine.roundToMode(Math.abs(transaction.amount), 'checkbook', currency).toNumber(),
+    status: 'uncleared',
+  };
+}
+
+/**
+ * A tape entry for an imported line: the payee on the left, the signed amount as the result
+ */
+export function toHistoryEntry(
+  transaction: ImportedTransaction,
+  currency: CurrencyInfo
+): NewHistoryEntry & { timestamp: number } {
+  const amount = CalculatorEngine.roundToMode(transaction.amount, 'checkbook', currency);
+  return {
+    kind: 'calculation',
+    operation: transaction.amount > 0 ? '+' : '-',
+    operands: [amount.abs().toNumber()],
+    expression: transaction.payee,
+    result: amount.toNumber(),
+    displayResult: CalculatorEngine.formatForDisplay(amount.toNumber(), 'checkbook', currency),
+    mode: 'checkbook',
+    currencySymbol: currency.symbol,
+    precision: currency.minorUnits,
+    timestamp: startOfDay(transaction.date).getTime(),
+  };
+}
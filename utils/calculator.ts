@@ -2,79 +2,183 @@
  * Calculator engine and math utilities
  */
 
-import { Operation, CalculatorMode } from '@/types/calculator';
-import { DECIMAL_PLACES_CHECKBOOK, DECIMAL_PLACES_SCIENTIFIC, MAX_DISPLAY_LENGTH } from '@/constants/calculator';
+import {
+  Operation,
+  CalculatorMode,
+  CalculationResult,
+  AngleUnit,
+  ScientificFunction,
+  CurrencyInfo,
+} from '@/types/calculator';
+import {
+  DEFAULT_CURRENCY_CODE,
+  DECIMAL_PLACES_SCIENTIFIC,
+  MAX_DISPLAY_LENGTH,
+  MAX_DISPLAY_VALUE,
+} from '@/constants/calculator';
+import { addCurrencySymbol, getCurrency } from '@/utils/currency';
+import { Decimal, DecimalInput } from '@/utils/decimal';
+import { CalculationError } from '@/utils/errors';
+import { applyScientificFunction, power, root } from '@/utils/scientific';
+
+const DEFAULT_CURRENCY = getCurrency(DEFAULT_CURRENCY_CODE);
 
 export class CalculatorEngine {
   /**
    * Perform calculation between two numbers
+   * Arithmetic is done on exact decimals; only the returned result is a JS number
    */
   static calculate(
-    firstValue: number,
+    firstValue: DecimalInput,
     operation: Operation,
-    secondValue: number,
-    mode: CalculatorMode = 'checkbook'
-  ): { result: number; error: boolean; errorMessage: string } {
+    secondValue: DecimalInput,
+    mode: CalculatorMode = 'checkbook',
+    currency: CurrencyInfo = DEFAULT_CURRENCY
+  ): CalculationResult {
     if (!operation) {
-      return { result: 0, error: false, errorMessage: '' };
+      return { result: 0, error: false, errorCode: null };
     }
 
-    let result: number;
+    let result: Decimal;
 
     try {
+      const a = Decimal.from(firstValue);
+      const b = Decimal.from(secondValue);
+
       switch (operation) {
         case '+':
-          result = firstValue + secondValue;
+          result = a.plus(b);
           break;
         case '-':
-          result = firstValue - secondValue;
+          result = a.minus(b);
           break;
         case '×':
-          result = firstValue * secondValue;
+          result = a.times(b);
           break;
         case '÷':
-          if (secondValue === 0) {
-            return {
-              result: 0,
-              error: true,
-              errorMessage: 'Cannot divide by zero. This would create an infinite number. Press C to start fresh or ⟲ to undo.',
-            };
+          if (b.isZero()) {
+            return { result: 0, error: true, errorCode: 'divideByZero' };
           }
-          result = firstValue / secondValue;
+          // Divide straight to the mode's precision to avoid double rounding
+          result = a.dividedBy(b, CalculatorEngine.getDecimalPlacesForMode(mode, currency));
+          break;
+        case '^':
+          result = power(a, b);
+          break;
+        case 'ʸ√':
+          result = root(a, b);
           break;
         default:
-          return { result: 0, error: false, errorMessage: '' };
+          return { result: 0, error: false, errorCode: null };
       }
 
       // Apply precision rounding based on mode
-      result = CalculatorEngine.roundToMode(result, mode);
+      result = CalculatorEngine.roundToMode(result, mode, currency);
 
       // Check if result is too large
-      if (Math.abs(result) > 999999999.99) {
-        return {
-          result: 0,
-          error: true,
-          errorMessage: 'This number is too large to display. The maximum is 999,999,999.99. Press C to start over.',
-        };
+      if (CalculatorEngine.exceedsMaxValue(result)) {
+        return CalculatorEngine.overflow(result);
+      }
+
+      return { result: result.toNumber(), error: false, errorCode: null };
+    } catch (error) {
+      return CalculatorEngine.failure(error);
+    }
+  }
+
+  /**
+   * Apply a scientific function to a single value
+   */
+  static applyFunction(
+    fn: ScientificFunction,
+    value: DecimalInput,
+    mode: CalculatorMode = 'scientific',
+    angleUnit: AngleUnit = 'deg'
+  ): CalculationResult {
+    try {
+      const result = CalculatorEngine.roundToMode(applyScientificFunction(fn, value, angleUnit), mode);
+
+      if (CalculatorEngine.exceedsMaxValue(result)) {
+        return CalculatorEngine.overflow(result);
       }
 
-      return { result, error: false, errorMessage: '' };
+      return { result: result.toNumber(), error: false, errorCode: null };
     } catch (error) {
-      return {
-        result: 0,
-        error: true,
-        errorMessage: 'An error occurred. Press C to start over.',
-      };
+      return CalculatorEngine.failure(error);
     }
   }
 
+  /**
+   * Get the number of decimal places used by a mode
+   * Checkbook mode follows the currency's minor units
+   */
+  static getDecimalPlacesForMode(
+    mode: CalculatorMode,
+    currency: CurrencyInfo = DEFAULT_CURRENCY
+  ): number {
+    return mode === 'checkbook' ? currency.minorUnits : DECIMAL_PLACES_SCIENTIFIC;
+  }
+
   /**
    * Round number based on calculator mode
    */
-  static roundToMode(value: number, mode: CalculatorMode): number {
-    const decimalPlaces = mode === 'checkbook' ? DECIMAL_PLACES_CHECKBOOK : DECIMAL_PLACES_SCIENTIFIC;
-    const factor = Math.pow(10, decimalPlaces);
-    return Math.round(value * factor) / factor;
+  static roundToMode(
+    value: DecimalInput,
+    mode: CalculatorMode,
+    currency: CurrencyInfo = DEFAULT_CURRENCY
+  ): Decimal {
+    return Decimal.from(value).round(CalculatorEngine.getDecimalPlacesForMode(mode, currency));
+  }
+
+  /**
+   * Overflow result carrying the largest displayable value, for the "use max value" recovery
+   */
+  static overflow(value: DecimalInput): CalculationResult {
+    const max = Decimal.from(MAX_DISPLAY_VALUE);
+    return {
+      result: (Decimal.from(value).isNegative() ? max.negate() : max).toNumber(),
+      error: true,
+      errorCode: 'overflow',
+    };
+  }
+
+  /**
+   * Failed result for an error thrown while calculating
+   * Anything other than a CalculationError means the input could not be understood
+   */
+  static failure(error: unknown): CalculationResult {
+    return {
+      result: 0,
+      error: true,
+      errorCode: error instanceof CalculationError ? error.code : 'invalidInput',
+    };
+  }
+
+  /**
+   * Check if a value is beyond what the display can show
+   */
+  static exceedsMaxValue(value: DecimalInput): boolean {
+    return Decimal.from(value).abs().compare(MAX_DISPLAY_VALUE) > 0;
+  }
+
+  /**
+   * Validate a display string while the user is typing digits
+   * Rejects values over the maximum and, in checkbook mode, fractions finer than the currency's minor unit
+   */
+  static isValidEntry(
+    displayStr: string,
+    mode: CalculatorMode,
+    currency: CurrencyInfo = DEFAULT_CURRENCY
+  ): boolean {
+    const value = Decimal.parse(displayStr.endsWith('.') ? displayStr + '0' : displayStr);
+    if (!value) return false;
+
+    const fraction = displayStr.split('.')[1] ?? '';
+    if (fraction.length > CalculatorEngine.getDecimalPlacesForMode(mode, currency)) {
+      return false;
+    }
+
+    return !CalculatorEngine.exceedsMaxValue(value);
   }
 
   /**
@@ -83,11 +187,10 @@ export class CalculatorEngine {
   static formatForDisplay(
     value: string | number,
     mode: CalculatorMode,
-    currencySymbol: string = ''
+    currency: CurrencyInfo = DEFAULT_CURRENCY
   ): string {
     if (typeof value === 'number') {
-      const decimalPlaces = mode === 'checkbook' ? DECIMAL_PLACES_CHECKBOOK : DECIMAL_PLACES_SCIENTIFIC;
-      value = value.toFixed(decimalPlaces);
+      value = Decimal.from(value).toFixed(CalculatorEngine.getDecimalPlacesForMode(mode, currency));
     }
 
     let display = value.toString();
@@ -97,25 +200,27 @@ export class CalculatorEngine {
       display = display.substring(0, MAX_DISPLAY_LENGTH) + '…';
     }
 
-    // Add currency symbol if needed
-    if (currencySymbol && mode === 'checkbook') {
-      display = currencySymbol + display;
-    }
-
     return display;
   }
 
+  /**
+   * Format a checkbook amount with the currency's minor units and symbol
+   */
+  static formatCurrency(value: string | number, currency: CurrencyInfo = DEFAULT_CURRENCY): string {
+    return addCurrencySymbol(CalculatorEngine.formatForDisplay(value, 'checkbook', currency), currency);
+  }
+
   /**
    * Format calculation expression for history
    */
   static formatExpression(
-    firstValue: number,
+    firstValue: DecimalInput,
     operation: Operation,
-    secondValue: number | null,
-    currencySymbol: string = '$'
+    secondValue: DecimalInput | null,
+    currency: CurrencyInfo = DEFAULT_CURRENCY
   ): string {
-    const formatNumber = (n: number) => {
-      return currencySymbol + n.toFixed(2);
+    const formatNumber = (n: DecimalInput) => {
+      return addCurrencySymbol(Decimal.from(n).toFixed(currency.minorUnits), currency);
     };
 
     if (operation && secondValue !== null && secondValue !== undefined) {
@@ -129,7 +234,7 @@ export class CalculatorEngine {
    * Validate if a string is a valid number
    */
   static isValidNumber(str: string): boolean {
-    return !isNaN(parseFloat(str)) && isFinite(parseFloat(str));
+    return Decimal.isValid(str);
   }
 
   /**
@@ -141,6 +246,13 @@ export class CalculatorEngine {
     return isNaN(num) ? 0 : num;
   }
 
+  /**
+   * Get exact display value, falling back to getDisplayValue for partial or truncated text
+   */
+  static getDisplayDecimal(displayStr: string): Decimal {
+    return Decimal.parse(displayStr) ?? Decimal.from(CalculatorEngine.getDisplayValue(displayStr));
+  }
+
   /**
    * Check if a number is an integer
    */
@@ -0,0 +1,68 @@
+/**
+ * Clipboard copy and paste of amounts
+ * Pasted text may be a single amount ("$1,234.56", "1.234,56 €", "(12.00)") or a column of them,
+ * one per line
+ */
+
+import * as Clipboard from 'expo-clipboard';
+import { CalculatorErrorCode, CalculatorMode, CurrencyInfo, NumberFormat } from '@/types/calculator';
+import { CalculatorEngine } from '@/utils/calculator';
+import { Decimal } from '@/utils/decimal';
+import { parseAmount } from '@/utils/numberFormat';
+
+export type PastedNumbers =
+  | { values: Decimal[]; error?: never }
+  | { error: CalculatorErrorCode; line: number; text: string }; // line is 1-based; 0 for empty text
+
+/**
+ * Read every amount in pasted text, stopping at the first line that is not one
+ * Values are rounded as the mode would round a typed entry
+ */
+export function parsePastedNumbers(
+  text: string,
+  format: NumberFormat,
+  mode: CalculatorMode,
+  currency: CurrencyInfo
+): PastedNumbers {
+  const lines = text.split(/\r?\n/);
+  const values: Decimal[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+
+    const value = parseAmount(lines[i], format.decimal);
+    if (!value) {
+      return { error: 'invalidInput', line: i + 1, text: lines[i].trim() };
+    }
+    if (CalculatorEngine.exceedsMaxValue(value)) {
+      return { error: 'overflow', line: i + 1, text: lines[i].trim() };
+    }
+    values.push(CalculatorEngine.roundToMode(value, mode, currency));
+  }
+
+  return values.length > 0 ? { values } : { error: 'invalidInput', line: 0, text: '' };
+}
+
+/**
+ * Put text on the clipboard
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    return await Clipboard.setStringAsync(text);
+  } catch (error) {
+    console.error('Error copying to clipboard:', error);
+    return false;
+  }
+}
+
+/**
+ * Read text from the clipboard; empty if there is none or it can't be read
+ */
+export async function readClipboard(): Promise<string> {
+  try {
+    return await Clipboard.getStringAsync();
+  } catch (error) {
+    console.error('Error reading clipboard:', error);
+    return '';
+  }
+}
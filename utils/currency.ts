@@ -0,0 +1,38 @@
+/**
+ * Currency lookup and amount formatting
+ */
+
+import { CurrencyInfo } from '@/types/calculator';
+import { CURRENCIES, DEFAULT_CURRENCY_CODE } from '@/constants/calculator';
+
+/**
+ * Find a currency by ISO 4217 code, falling back to the default currency
+ */
+export function getCurrency(code: string): CurrencyInfo {
+  return findCurrency(code) ?? findCurrency(DEFAULT_CURRENCY_CODE) ?? CURRENCIES[0];
+}
+
+/**
+ * Find a currency by ISO 4217 code (any case)
+ */
+export function findCurrency(code: string): CurrencyInfo | undefined {
+  const upper = code.trim().toUpperCase();
+  return CURRENCIES.find((currency) => currency.code === upper);
+}
+
+/**
+ * Find the currency a bare symbol most likely means ("$" → USD)
+ */
+export function findCurrencyBySymbol(symbol: string): CurrencyInfo | undefined {
+  const trimmed = symbol.trim();
+  return CURRENCIES.find((currency) => currency.symbol === trimmed);
+}
+
+/**
+ * Put the currency symbol on the side the currency writes it
+ */
+export function addCurrencySymbol(amount: string, currency: CurrencyInfo): string {
+  return currency.placement === 'before'
+    ? currency.symbol + amount
+    : `${amount} ${currency.symbol}`;
+}
@@ -1,8 +1,15 @@
 /**
  * Date formatting utilities for human-readable timestamps
+ * Patterns and month names follow the interface language
  */
 
 import { format, isToday, isYesterday, isThisYear } from 'date-fns';
+import { getDateLocale, MessageKey, t } from '@/utils/i18n';
+
+// Format with a pattern from the active language's catalog and its date-fns locale
+function formatWith(date: Date, pattern: MessageKey): string {
+  return format(date, t(pattern), { locale: getDateLocale() });
+}
 
 /**
  * Format timestamp in human-readable format
@@ -12,18 +19,18 @@ export function formatHistoryTimestamp(timestamp: number): string {
   const date = new Date(timestamp);
 
   if (isToday(date)) {
-    return format(date, "'Today,' h:mm a");
+    return formatWith(date, 'date.todayAt');
   }
 
   if (isYesterday(date)) {
-    return format(date, "'Yesterday,' h:mm a");
+    return formatWith(date, 'date.yesterdayAt');
   }
 
   if (isThisYear(date)) {
-    return format(date, 'MMM d, h:mm a');
+    return formatWith(date, 'date.monthDayTime');
   }
 
-  return format(date, 'MMM d, yyyy, h:mm a');
+  return formatWith(date, 'date.monthDayYearTime');
 }
 
 /**
@@ -31,7 +38,7 @@ export function formatHistoryTimestamp(timestamp: number): string {
  */
 export function formatFullDate(timestamp: number): string {
   const date = new Date(timestamp);
-  return format(date, 'EEEE, MMMM d, yyyy h:mm a');
+  return formatWith(date, 'date.full');
 }
 
 /**
@@ -39,7 +46,7 @@ export function formatFullDate(timestamp: number): string {
  */
 export function formatTimeOnly(timestamp: number): string {
   const date = new Date(timestamp);
-  return format(date, 'h:mm a');
+  return formatWith(date, 'date.time');
 }
 
 /**
@@ -48,15 +55,15 @@ export function formatTimeOnly(timestamp: number): string {
 export function formatDateOnly(timestamp: number): string {
   const date = new Date(timestamp);
   if (isToday(date)) {
-    return 'Today';
+    return t('date.today');
   }
   if (isYesterday(date)) {
-    return 'Yesterday';
+    return t('date.yesterday');
   }
   if (isThisYear(date)) {
-    return format(date, 'MMM d');
+    return formatWith(date, 'date.monthDay');
   }
-  return format(date, 'MMM d, yyyy');
+  return formatWith(date, 'date.monthDayYear');
 }
 
 /**
@@ -0,0 +1,238 @@
+/**
+ * Exact decimal arithmetic
+ * Values are stored as a BigInt coefficient scaled by a power of ten,
+ * so sums like 0.10 + 0.20 - 0.30 come out exactly zero
+ */
+
+export type DecimalInput = Decimal | number | string;
+export type RoundingMode = 'half-up' | 'half-even' | 'down';
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+// Largest exponent accepted when parsing; covers every finite double (1e308, 5e-324) while
+// keeping text like "1e999999999" from building a billion-digit power of ten
+const MAX_EXPONENT = 400;
+
+const POWERS_OF_TEN: bigint[] = [1n];
+
+/**
+ * Get 10^exponent as a BigInt (cached)
+ */
+function pow10(exponent: number): bigint {
+  for (let i = POWERS_OF_TEN.length; i <= exponent; i++) {
+    POWERS_OF_TEN.push(POWERS_OF_TEN[i - 1] * 10n);
+  }
+  return POWERS_OF_TEN[exponent];
+}
+
+/**
+ * Integer division with explicit rounding of the remainder
+ */
+function divideAndRound(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === 0n || rounding === 'down') {
+    return quotient;
+  }
+
+  const sign = (numerator < 0n) !== (denominator < 0n) ? -1n : 1n;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+
+  if (twiceRemainder > absDenominator) {
+    return quotient + sign;
+  }
+
+  if (twiceRemainder === absDenominator) {
+    if (rounding === 'half-even' && quotient % 2n === 0n) {
+      return quotient;
+    }
+    return quotient + sign;
+  }
+
+  return quotient;
+}
+
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+
+  private constructor(
+    readonly coefficient: bigint,
+    readonly scale: number
+  ) {}
+
+  /**
+   * Parse a decimal string (plain or exponent notation), returning null if invalid
+   * or if the exponent is beyond ±MAX_EXPONENT
+   */
+  static parse(str: string): Decimal | null {
+    const match = DECIMAL_PATTERN.exec(str.trim());
+    if (!match) return null;
+
+    const [, sign, intPart = '', fracPart = '', exponentPart] = match;
+    if (intPart === '' && fracPart === '') return null;
+
+    const exponent = exponentPart ? parseInt(exponentPart, 10) : 0;
+    if (Math.abs(exponent) > MAX_EXPONENT) return null;
+
+    let coefficient = BigInt((intPart + fracPart) || '0');
+    let scale = fracPart.length - exponent;
+
+    if (scale < 0) {
+      coefficient *= pow10(-scale);
+      scale = 0;
+    }
+
+    return new Decimal(sign === '-' ? -coefficient : coefficient, scale);
+  }
+
+  /**
+   * Convert any supported input to a Decimal
+   * Numbers go through their shortest round-trip string, so 0.1 becomes exactly 0.1
+   */
+  static from(value: DecimalInput): Decimal {
+    if (value instanceof Decimal) return value;
+
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new RangeError(`Cannot represent ${value} as a decimal`);
+      }
+      value = value.toString();
+    }
+
+    const parsed = Decimal.parse(value);
+    if (!parsed) {
+      throw new SyntaxError(`Invalid decimal: "${value}"`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Check if a string is a valid decimal number
+   */
+  static isValid(str: string): boolean {
+    return Decimal.parse(str) !== null;
+  }
+
+  /**
+   * Bring two decimals to a common scale
+   */
+  private static align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    if (a.scale === b.scale) return [a.coefficient, b.coefficient, a.scale];
+    if (a.scale > b.scale) {
+      return [a.coefficient, b.coefficient * pow10(a.scale - b.scale), a.scale];
+    }
+    return [a.coefficient * pow10(b.scale - a.scale), b.coefficient, b.scale];
+  }
+
+  plus(other: DecimalInput): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a + b, scale);
+  }
+
+  minus(other: DecimalInput): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a - b, scale);
+  }
+
+  times(other: DecimalInput): Decimal {
+    const b = Decimal.from(other);
+    return new Decimal(this.coefficient * b.coefficient, this.scale + b.scale);
+  }
+
+  /**
+   * Divide, rounding the quotient to the given number of decimal places
+   * Throws RangeError when dividing by zero
+   */
+  dividedBy(other: DecimalInput, places: number, rounding: RoundingMode = 'half-up'): Decimal {
+    const divisor = Decimal.from(other);
+    if (divisor.isZero()) {
+      throw new RangeError('Division by zero');
+    }
+
+    // this / divisor * 10^places, kept in integers
+    const exponent = divisor.scale + places - this.scale;
+    const numerator = exponent >= 0 ? this.coefficient * pow10(exponent) : this.coefficient;
+    const denominator = exponent >= 0 ? divisor.coefficient : divisor.coefficient * pow10(-exponent);
+
+    return new Decimal(divideAndRound(numerator, denominator, rounding), places);
+  }
+
+  /**
+   * Round to a fixed number of decimal places
+   */
+  round(places: number, rounding: RoundingMode = 'half-up'): Decimal {
+    if (this.scale <= places) return this;
+    const divisor = pow10(this.scale - places);
+    return new Decimal(divideAndRound(this.coefficient, divisor, rounding), places);
+  }
+
+  negate(): Decimal {
+    return new Decimal(-this.coefficient, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.coefficient < 0n ? this.negate() : this;
+  }
+
+  isZero(): boolean {
+    return this.coefficient === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.coefficient < 0n;
+  }
+
+  /**
+   * Compare with another value: -1, 0 or 1
+   */
+  compare(other: DecimalInput): -1 | 0 | 1 {
+    const [a, b] = Decimal.align(this, Decimal.from(other));
+    if (a === b) return 0;
+    return a < b ? -1 : 1;
+  }
+
+  equals(other: DecimalInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /**
+   * Format with exactly the given number of decimal places
+   */
+  toFixed(places: number, rounding: RoundingMode = 'half-up'): string {
+    const rounded = this.round(places, rounding);
+    const padded = rounded.coefficient * pow10(places - rounded.scale);
+    return Decimal.formatScaled(padded, places);
+  }
+
+  /**
+   * Plain decimal string without trailing fractional zeros
+   */
+  toString(): string {
+    let coefficient = this.coefficient;
+    let scale = this.scale;
+    while (scale > 0 && coefficient % 10n === 0n) {
+      coefficient /= 10n;
+      scale--;
+    }
+    return Decimal.formatScaled(coefficient, scale);
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private static formatScaled(coefficient: bigint, scale: number): string {
+    const negative = coefficient < 0n;
+    const digits = (negative ? -coefficient : coefficient).toString().padStart(scale + 1, '0');
+    const intPart = digits.slice(0, digits.length - scale);
+    const fracPart = digits.slice(digits.length - scale);
+    const sign = negative ? '-' : '';
+    return scale > 0 ? `${sign}${intPart}.${fracPart}` : `${sign}${intPart}`;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Error types shared by the engine, expression evaluator, function library and storage
+ */
+
+import { CalculatorErrorCode } from '@/types/calculator';
+import { t } from '@/utils/i18n';
+
+/**
+ * Error raised when a value cannot be computed
+ * The message is user-facing, translated from the code's catalog entry
+ */
+export class CalculationError extends Error {
+  constructor(readonly code: CalculatorErrorCode, readonly position: number = -1) {
+    super(t(`error.${code}`));
+    this.name = 'CalculationError';
+  }
+}
+
+const storageErrorListeners = new Set<(error: unknown) => void>();
+
+/**
+ * Log a failed storage read or write and pass it on to the screen showing errors
+ */
+export function reportStorageError(context: string, error: unknown): void {
+  console.error(context, error);
+  storageErrorListeners.forEach((listener) => listener(error));
+}
+
+export function subscribeToStorageErrors(listener: (error: unknown) => void): () => void {
+  storageErrorListeners.add(listener);
+  return () => {
+    storageErrorListeners.delete(listener);
+  };
+}
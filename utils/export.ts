@@ -0,0 +1,198 @@
+/**
+ * History export to CSV and JSON
+ * Builds the file contents and hands them to the share sheet (native) or a download (web)
+ */
+
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { CalculationHistory, NumberFormat } from '@/types/calculator';
+import { formatFullDate } from '@/utils/dateFormatter';
+import { Decimal } from '@/utils/decimal';
+import { t } from '@/utils/i18n';
+import { formatExpressionText, formatNumberText, PLAIN_NUMBER_FORMAT } from '@/utils/numberFormat';
+
+export type ExportFormat = 'csv' | 'json';
+
+// Inclusive bounds; a missing bound leaves that side open
+export interface ExportDateRange {
+  from?: number;
+  to?: number;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export const HISTORY_EXPORT_FORMAT = 'retro-calculator-history';
+export const HISTORY_EXPORT_VERSION = 1;
+
+// How long a web download's object URL is kept before it is released
+const REVOKE_URL_DELAY_MS = 10000;
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'date',
+  'kind',
+  'mode',
+  'expression',
+  'result',
+  'display_result',
+  'currency',
+];
+
+/**
+ * Keep the entries that fall within a date range (whole days, local time)
+ */
+export function filterHistoryByDate(
+  history: CalculationHistory[],
+  range: ExportDateRange
+): CalculationHistory[] {
+  const from = range.from !== undefined ? startOfDay(range.from).getTime() : -Infinity;
+  const to = range.to !== undefined ? endOfDay(range.to).getTime() : Infinity;
+  return history.filter((item) => item.timestamp >= from && item.timestamp <= to);
+}
+
+// Quote fields containing separators, quotes or line breaks (RFC 4180)
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Free text (expressions, which may hold imported payees) starting with a formula character is
+// prefixed with ' so spreadsheets show it as text instead of evaluating it
+function neutralizeCsvFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * One header row, then one row per entry in the order given
+ * The result column is always plain; expression and displayResult are written as printed on the tape
+ */
+export function historyToCsv(
+  history: CalculationHistory[],
+  numberFormat: NumberFormat = PLAIN_NUMBER_FORMAT
+): string {
+  const rows = history.map((item) =>
+    [
+      new Date(item.timestamp).toISOString(),
+      formatFullDate(item.timestamp),
+      item.kind,
+      item.mode,
+      neutralizeCsvFormula(formatExpressionText(item.expression, numberFormat)),
+      Decimal.from(item.result).toFixed(item.precision),
+      formatNumberText(item.displayResult, numberFormat),
+      item.currencySymbol,
+    ].map(escapeCsvField)
+  );
+
+  return [CSV_COLUMNS, ...rows].map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * JSON export format (version 1):
+ * {
+ *   "format": "retro-calculator-history",
+ *   "version": 1,
+ *   "exportedAt": ISO 8601 timestamp,
+ *   "count": number of entries,
+ *   "entries": [{
+ *     "timestamp": ISO 8601 timestamp,
+ *     "date": readable date (formatFullDate),
+ *     "kind": "calculation" | "subtotal" | "total",
+ *     "mode": "checkbook" | "scientific",
+ *     "expression": expression as printed on the tape, in the chosen number format,
+ *     "result": numeric result,
+ *     "precision": decimal places the result was rounded to (the currency's minor units in checkbook mode),
+ *     "displayResult": result as displayed, in the chosen number format,
+ *     "currency": currency symbol in effect
+ *   }]
+ * }
+ */
+export function historyToJson(
+  history: CalculationHistory[],
+  numberFormat: NumberFormat = PLAIN_NUMBER_FORMAT
+): string {
+  const entries = history.map((item) => ({
+    timestamp: new Date(item.timestamp).toISOString(),
+    date: formatFullDate(item.timestamp),
+    kind: item.kind,
+    mode: item.mode,
+    expression: formatExpressionText(item.expression, numberFormat),
+    result: item.result,
+    precision: item.precision,
+    displayResult: formatNumberText(item.displayResult, numberFormat),
+    currency: item.currencySymbol,
+  }));
+
+  return JSON.stringify(
+    {
+      format: HISTORY_EXPORT_FORMAT,
+      version: HISTORY_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      count: entries.length,
+      entries,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Build the export file for a slice of history
+ */
+export function buildHistoryExport(
+  history: CalculationHistory[],
+  exportFormat: ExportFormat,
+  range: ExportDateRange = {},
+  numberFormat?: NumberFormat
+): ExportFile {
+  const entries = filterHistoryByDate(history, range);
+  const filename = `calculator-history-${format(Date.now(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+  return exportFormat === 'csv'
+    ? { filename, mimeType: 'text/csv', content: historyToCsv(entries, numberFormat) }
+    : { filename, mimeType: 'application/json', content: historyToJson(entries, numberFormat) };
+}
+
+/**
+ * Hand an export file to the user: a browser download on web, the share sheet elsewhere
+ * Returns false if the file could not be shared
+ */
+export async function shareExportFile(exportFile: ExportFile): Promise<boolean> {
+  try {
+    if (Platform.OS === 'web') {
+      const url = URL.createObjectURL(new Blob([exportFile.content], { type: exportFile.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = exportFile.filename;
+      link.click();
+      // Revoking right away can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_DELAY_MS);
+      return true;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      return false;
+    }
+
+    // The share sheet needs a file on disk; the cache directory is cleaned up by the OS
+    const file = new File(Paths.cache, exportFile.filename);
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(exportFile.content);
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: exportFile.mimeType,
+      dialogTitle: t('export.dialogTitle'),
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sharing export file:', error);
+    return false;
+  }
+}
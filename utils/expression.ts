@@ -0,0 +1,519 @@
+/**
+ * Algebraic expression tokenizer, parser and evaluator
+ * Supports operator precedence, parentheses, unary minus, percent and scientific functions
+ */
+
+import {
+  AngleUnit,
+  CalculatorMode,
+  CalculationResult,
+  CurrencyInfo,
+  ScientificConstant,
+  ScientificFunction,
+} from '@/types/calculator';
+import {
+  INTERMEDIATE_DECIMAL_PLACES,
+  SCIENTIFIC_FUNCTION_KEYS,
+  SCIENTIFIC_OPERATOR_KEYS,
+} from '@/constants/calculator';
+import { CalculatorEngine } from '@/utils/calculator';
+import { Decimal } from '@/utils/decimal';
+import { CalculationError } from '@/utils/errors';
+import { applyScientificFunction, power, root, SCIENTIFIC_CONSTANTS } from '@/utils/scientific';
+
+export type BinaryOperator = '+' | '-' | '×' | '÷' | '^' | 'ʸ√';
+export type PostfixOperator = '%' | '!' | '²' | '⁻¹';
+
+export type Token =
+  | { type: 'number'; value: string; position: number }
+  | { type: 'operator'; value: BinaryOperator; position: number }
+  | { type: 'postfix'; value: PostfixOperator; position: number }
+  | { type: 'function'; value: ScientificFunction; position: number }
+  | { type: 'constant'; value: ScientificConstant; position: number }
+  | { type: 'lparen'; position: number }
+  | { type: 'rparen'; position: number };
+
+export type ExpressionNode =
+  | { type: 'number'; value: Decimal }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'percent'; operand: ExpressionNode }
+  | { type: 'call'; fn: ScientificFunction; argument: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+// Source-text symbols, longest first so "ʸ√" wins over "√"
+const OPERATOR_SYMBOLS: [string, BinaryOperator][] = [
+  ['ʸ√', 'ʸ√'],
+  ['^', '^'],
+  ['+', '+'],
+  ['-', '-'],
+  ['−', '-'],
+  ['×', '×'],
+  ['*', '×'],
+  ['÷', '÷'],
+  ['/', '÷'],
+];
+
+const POSTFIX_SYMBOLS: PostfixOperator[] = ['⁻¹', '%', '!', '²'];
+
+const POSTFIX_FUNCTIONS: Record<Exclude<PostfixOperator, '%'>, ScientificFunction> = {
+  '!': 'factorial',
+  '²': 'square',
+  '⁻¹': 'reciprocal',
+};
+
+// Function names as written in the expression source (inverse trig uses the ⁻¹ suffix)
+const FUNCTION_NAMES: [string, ScientificFunction][] = [
+  ['sin⁻¹', 'asin'],
+  ['cos⁻¹', 'acos'],
+  ['tan⁻¹', 'atan'],
+  ['sin', 'sin'],
+  ['cos', 'cos'],
+  ['tan', 'tan'],
+  ['log', 'log'],
+  ['ln', 'ln'],
+  ['√', 'sqrt'],
+];
+
+// Text each scientific keypad key inserts into the expression source
+const FUNCTION_KEY_TEXT: Record<ScientificFunction, string> = {
+  sin: 'sin(',
+  cos: 'cos(',
+  tan: 'tan(',
+  asin: 'sin⁻¹(',
+  acos: 'cos⁻¹(',
+  atan: 'tan⁻¹(',
+  log: 'log(',
+  ln: 'ln(',
+  exp10: '10^(',
+  exp: 'e^(',
+  sqrt: '√(',
+  square: '²',
+  factorial: '!',
+  reciprocal: '⁻¹',
+};
+
+/**
+ * Split an expression string into tokens
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const char = source[i];
+
+    if (char === ' ') {
+      i++;
+      continue;
+    }
+
+    if (/[\d.]/.test(char)) {
+      const value = /^[\d.]+/.exec(rest)![0];
+      if (!Decimal.isValid(value) || value.split('.').length > 2) {
+        throw new CalculationError('invalidInput', i);
+      }
+      tokens.push({ type: 'number', value, position: i });
+      i += value.length;
+      continue;
+    }
+
+    const fn = FUNCTION_NAMES.find(([name]) => rest.startsWith(name));
+    if (fn) {
+      tokens.push({ type: 'function', value: fn[1], position: i });
+      i += fn[0].length;
+      continue;
+    }
+
+    const operator = OPERATOR_SYMBOLS.find(([symbol]) => rest.startsWith(symbol));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator[1], position: i });
+      i += operator[0].length;
+      continue;
+    }
+
+    const postfix = POSTFIX_SYMBOLS.find((symbol) => rest.startsWith(symbol));
+    if (postfix) {
+      tokens.push({ type: 'postfix', value: postfix, position: i });
+      i += postfix.length;
+      continue;
+    }
+
+    if (char === 'π' || char === 'e') {
+      tokens.push({ type: 'constant', value: char, position: i });
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen', position: i });
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen', position: i });
+    } else {
+      throw new CalculationError('invalidInput', i);
+    }
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser
+ *
+ *   expression := term (('+' | '-') term)*
+ *   term       := unary (('×' | '÷') unary | implicit-× unary)*
+ *   unary      := ('-' | '+') unary | power
+ *   power      := postfix (('^' | 'ʸ√') unary)?
+ *   postfix    := primary ('%' | '!' | '²' | '⁻¹')*
+ *   primary    := number | constant | function primary | '(' expression ')'
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new CalculationError('invalidInput', 0);
+    }
+
+    const node = this.parseExpression();
+    const leftover = this.peek();
+    if (leftover) {
+      throw new CalculationError('invalidInput', leftover.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...operators: BinaryOperator[]): BinaryOperator | null {
+    const token = this.peek();
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private parseExpression(): ExpressionNode {
+    let left = this.parseTerm();
+    let operator: BinaryOperator | null;
+    while ((operator = this.matchOperator('+', '-'))) {
+      left = { type: 'binary', operator, left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const operator = this.matchOperator('×', '÷');
+      if (operator) {
+        left = { type: 'binary', operator, left, right: this.parseUnary() };
+        continue;
+      }
+
+      // "2(3 + 4)", "2π" and "3sin(30)" multiply
+      const type = this.peek()?.type;
+      if (type === 'lparen' || type === 'constant' || type === 'function') {
+        left = { type: 'binary', operator: '×', left, right: this.parseUnary() };
+        continue;
+      }
+
+      return left;
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return { type: 'negate', operand: this.parseUnary() };
+    }
+    if (this.matchOperator('+')) {
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePostfix();
+    const operator = this.matchOperator('^', 'ʸ√');
+    if (operator) {
+      // Right-associative: 2^3^2 is 2^(3^2)
+      return { type: 'binary', operator, left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (let token = this.peek(); token?.type === 'postfix'; token = this.peek()) {
+      this.next();
+      node = token.value === '%'
+        ? { type: 'percent', operand: node }
+        : { type: 'call', fn: POSTFIX_FUNCTIONS[token.value], argument: node };
+    }
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token?.type) {
+      case 'number':
+        return { type: 'number', value: Decimal.from(token.value) };
+      case 'constant':
+        return { type: 'number', value: SCIENTIFIC_CONSTANTS[token.value] };
+      case 'function':
+        return { type: 'call', fn: token.value, argument: this.parsePrimary() };
+      case 'lparen': {
+        const inner = this.parseExpression();
+        const closing = this.next();
+        if (closing?.type !== 'rparen') {
+          throw new CalculationError('invalidInput', closing?.position ?? -1);
+        }
+        return inner;
+      }
+      default:
+        throw new CalculationError('invalidInput', token?.position ?? -1);
+    }
+  }
+}
+
+/**
+ * Parse an expression string into an AST
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Evaluate an AST exactly (scientific functions aside)
+ * Percent follows adding-machine rules: "200 + 10%" adds 10% of 200, anywhere else x% is x / 100
+ */
+export function evaluateNode(node: ExpressionNode, angleUnit: AngleUnit = 'deg'): Decimal {
+  const evaluate = (child: ExpressionNode) => evaluateNode(child, angleUnit);
+
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'negate':
+      return evaluate(node.operand).negate();
+    case 'percent':
+      return evaluate(node.operand).dividedBy(100, INTERMEDIATE_DECIMAL_PLACES);
+    case 'call':
+      return applyScientificFunction(node.fn, evaluate(node.argument), angleUnit);
+    case 'binary': {
+      const left = evaluate(node.left);
+      const right =
+        node.right.type === 'percent' && (node.operator === '+' || node.operator === '-')
+          ? left.times(evaluate(node.right))
+          : evaluate(node.right);
+
+      switch (node.operator) {
+        case '+':
+          return left.plus(right);
+        case '-':
+          return left.minus(right);
+        case '×':
+          return left.times(right);
+        case '÷':
+          if (right.isZero()) {
+            throw new CalculationError('divideByZero');
+          }
+          return left.dividedBy(right, INTERMEDIATE_DECIMAL_PLACES);
+        case '^':
+          return power(left, right);
+        case 'ʸ√':
+          return root(left, right);
+      }
+    }
+  }
+}
+
+/**
+ * Count parentheses still waiting to be closed
+ */
+export function countOpenParentheses(source: string): number {
+  let open = 0;
+  for (const char of source) {
+    if (char === '(') open++;
+    if (char === ')' && open > 0) open--;
+  }
+  return open;
+}
+
+/**
+ * Evaluate an expression string with the same result contract as CalculatorEngine.calculate
+ * Unclosed parentheses are closed automatically
+ */
+export function evaluateExpression(
+  source: string,
+  mode: CalculatorMode = 'checkbook',
+  angleUnit: AngleUnit = 'deg',
+  currency?: CurrencyInfo
+): CalculationResult {
+  try {
+    const closed = source + ')'.repeat(countOpenParentheses(source));
+    const result = CalculatorEngine.roundToMode(
+      evaluateNode(parseExpression(closed), angleUnit),
+      mode,
+      currency
+    );
+
+    if (CalculatorEngine.exceedsMaxValue(result)) {
+      return CalculatorEngine.overflow(result);
+    }
+
+    return { result: result.toNumber(), error: false, errorCode: null };
+  } catch (error) {
+    return CalculatorEngine.failure(error);
+  }
+}
+
+/**
+ * Get the number literal currently being typed at the end of the expression
+ */
+function trailingNumber(source: string): string {
+  return /[\d.]*$/.exec(source)?.[0] ?? '';
+}
+
+/**
+ * Get the binary operator symbol the expression currently ends with, if any
+ */
+function trailingOperator(source: string): string {
+  return OPERATOR_SYMBOLS.find(([symbol]) => source.endsWith(symbol))?.[0] ?? '';
+}
+
+/**
+ * Apply a keypad key to the editable expression source
+ * Returns the source unchanged when the key is not allowed at this position
+ */
+export function appendToExpression(
+  source: string,
+  key: string,
+  mode: CalculatorMode,
+  currency?: CurrencyInfo
+): string {
+  const last = source.slice(-1);
+  const endsWithValue = /[\d)%!²¹πe]$/.test(source);
+  const endsWithClosed = /[)%!²¹πe]$/.test(source);
+  const operatorText = SCIENTIFIC_OPERATOR_KEYS[key] ?? key;
+  const fn = SCIENTIFIC_FUNCTION_KEYS[key];
+
+  if (/^\d$/.test(key)) {
+    if (endsWithClosed) return source;
+    const current = trailingNumber(source);
+    const head = source.slice(0, source.length - current.length);
+    const next = current === '0' ? key : current + key;
+    return CalculatorEngine.isValidEntry(next, mode, currency) ? head + next : source;
+  }
+
+  if (key === '.') {
+    if (endsWithClosed) return source;
+    const current = trailingNumber(source);
+    if (current.includes('.')) return source;
+    return source + (current === '' ? '0.' : '.');
+  }
+
+  if (OPERATOR_SYMBOLS.some(([symbol]) => symbol === operatorText)) {
+    const pending = trailingOperator(source);
+    if (source === '' || last === '(') {
+      // Only minus can start an operand
+      return operatorText === '-' ? source + operatorText : source;
+    }
+    if (pending) {
+      const head = source.slice(0, -pending.length);
+      // "×-" is a unary minus after multiply/divide; replace the pair instead of stacking
+      if (trailingOperator(head)) {
+        return head.slice(0, -trailingOperator(head).length) + operatorText;
+      }
+      if (operatorText === '-' && pending !== '+' && pending !== '-') {
+        return source + operatorText;
+      }
+      return head === '' ? source : head + operatorText;
+    }
+    return last === '.' ? source : source + operatorText;
+  }
+
+  if (fn && FUNCTION_KEY_TEXT[fn].endsWith('(')) {
+    return last === '.' ? source : source + FUNCTION_KEY_TEXT[fn];
+  }
+
+  if (fn) {
+    // Postfix functions (x², n!, 1/x) need a value to apply to
+    return endsWithValue ? source + FUNCTION_KEY_TEXT[fn] : source;
+  }
+
+  if (key === 'π' || key === 'e') {
+    return last === '.' ? source : source + key;
+  }
+
+  if (key === '(') {
+    return last === '.' ? source : source + '(';
+  }
+
+  if (key === ')') {
+    return countOpenParentheses(source) > 0 && endsWithValue ? source + ')' : source;
+  }
+
+  if (key === '%') {
+    return endsWithValue && last !== '%' ? source + '%' : source;
+  }
+
+  return source;
+}
+
+/**
+ * Toggle the sign of the number being typed ("±" in algebraic entry)
+ */
+export function toggleExpressionSign(source: string): string {
+  const current = trailingNumber(source);
+  const head = source.slice(0, source.length - current.length);
+  const beforeMinus = head.slice(0, -1);
+
+  // A minus that starts an operand is unary and can be removed
+  if (head.endsWith('-') && (beforeMinus === '' || /[(+\-×÷^√]$/.test(beforeMinus))) {
+    return beforeMinus + current;
+  }
+  return head + '-' + current;
+}
+
+/**
+ * Remove the last token of the expression source (whole function names at once)
+ */
+export function backspaceExpression(source: string): string {
+  // "10^(" and "e^(" stay character-by-character since their digits may be the user's own
+  const functionText = Object.values(FUNCTION_KEY_TEXT).find(
+    (text) => text.length > 1 && !text.includes('^') && source.endsWith(text)
+  );
+  const operator = trailingOperator(source);
+  const removeLength = Math.max(functionText?.length ?? 1, operator.length, 1);
+  return source.slice(0, -removeLength);
+}
+
+/**
+ * Remove the number currently being typed (clear entry)
+ */
+export function clearExpressionEntry(source: string): string {
+  return source.slice(0, source.length - trailingNumber(source).length);
+}
+
+/**
+ * Put pasted values into the expression source, summed together
+ * The first value replaces the number being typed; after a closed term it is added on instead
+ */
+export function pasteIntoExpression(
+  source: string,
+  values: Decimal[],
+  mode: CalculatorMode,
+  currency?: CurrencyInfo
+): string {
+  const head = clearExpressionEntry(source);
+  const start = /[)%!²¹πe]$/.test(head) ? head + '+' : head;
+  const keys = [...values.map((value) => value.toString()).join('+')];
+  return keys.reduce((expression, key) => appendToExpression(expression, key, mode, currency), start);
+}
@@ -0,0 +1,68 @@
+/**
+ * Translation of user-facing strings: catalog lookup, {placeholder} interpolation and plurals
+ * The active language is app-wide; components re-render on change through useTranslation
+ */
+
+import { de as deDateLocale, enUS, Locale } from 'date-fns/locale';
+import { Language, Message } from '@/types/calculator';
+import { en, MessageKey } from '@/constants/i18n/en';
+import { de } from '@/constants/i18n/de';
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Record<MessageKey, Message>> = { en, de };
+
+const DATE_LOCALES: Record<Language, Locale> = { en: enUS, de: deDateLocale };
+
+// English and German both use "one" for exactly 1 and "other" for everything else, 0 included
+const PLURAL_RULES: Record<Language, (count: number) => 'one' | 'other'> = {
+  en: (count) => (count === 1 ? 'one' : 'other'),
+  de: (count) => (count === 1 ? 'one' : 'other'),
+};
+
+let language: Language = 'en';
+const listeners = new Set<() => void>();
+
+export function getLanguage(): Language {
+  return language;
+}
+
+/**
+ * Switch the interface language and notify subscribed components
+ */
+export function setLanguage(next: Language): void {
+  if (next === language || !(next in CATALOGS)) return;
+  language = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToLanguage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * date-fns locale for the active language (month and weekday names)
+ */
+export function getDateLocale(): Locale {
+  return DATE_LOCALES[language];
+}
+
+/**
+ * Look up a message in the active language, falling back to English
+ * Plural messages pick their form from params.count
+ */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[language][key] ?? en[key];
+  const text =
+    typeof message === 'string'
+      ? message
+      : message[PLURAL_RULES[language](Number(params.count ?? 0))];
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Hardware keyboard helpers: key combination names and binding lookup
+ * Combinations are written "Ctrl+Alt+key"; Cmd counts as Ctrl and Shift is ignored, since it only
+ * selects the character ("+" or "%") that the key reports anyway
+ */
+
+import { KeyBindings } from '@/types/calculator';
+import { KEYPAD_LABELS } from '@/constants/calculator';
+
+export interface KeyStroke {
+  key: string; // KeyboardEvent.key
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+}
+
+// Multi-character key names accepted in bindings, in KeyboardEvent.key spelling
+const NAMED_KEYS = [
+  'Enter',
+  'Escape',
+  'Backspace',
+  'Delete',
+  'Insert',
+  'Tab',
+  'Home',
+  'End',
+  'PageUp',
+  'PageDown',
+  'ArrowUp',
+  'ArrowDown',
+  'ArrowLeft',
+  'ArrowRight',
+  ...Array.from({ length: 12 }, (_, i) => `F${i + 1}`),
+];
+
+function normalizeKey(key: string): string | undefined {
+  if (key.length === 1) {
+    return key.toUpperCase();
+  }
+  return NAMED_KEYS.find((name) => name.toLowerCase() === key.toLowerCase());
+}
+
+/**
+ * Name of the combination a key press makes, as used in KeyBindings
+ */
+export function getKeyCombo({ key, ctrlKey, metaKey, altKey }: KeyStroke): string {
+  const name = key.length === 1 ? key.toUpperCase() : key;
+  return `${ctrlKey || metaKey ? 'Ctrl+' : ''}${altKey ? 'Alt+' : ''}${name}`;
+}
+
+/**
+ * Tidy a combination typed in settings ("ctrl+z" → "Ctrl+Z", "esc" is not accepted)
+ * Returns undefined when it names no key
+ */
+export function normalizeKeyCombo(text: string): string | undefined {
+  const trimmed = text.trim();
+  // The plus key itself is written "+" or, with modifiers, "Ctrl++"
+  const plusKey = trimmed === '+' || trimmed.endsWith('++');
+  const parts = (plusKey ? trimmed.slice(0, -1) : trimmed).split('+').map((part) => part.trim());
+  const last = parts.pop() ?? '';
+  const key = normalizeKey(plusKey ? '+' : last);
+  if (!key) return undefined;
+
+  const modifiers = parts.filter((part) => part !== '').map((part) => part.toLowerCase());
+  if (modifiers.some((part) => !['ctrl', 'cmd', 'alt'].includes(part))) return undefined;
+
+  return getKeyCombo({
+    key,
+    ctrlKey: modifiers.includes('ctrl') || modifiers.includes('cmd'),
+    altKey: modifiers.includes('alt'),
+  });
+}
+
+/**
+ * Keypad label a key press is bound to, if any
+ */
+export function findKeyBinding(bindings: KeyBindings, stroke: KeyStroke): string | undefined {
+  return bindings[getKeyCombo(stroke)];
+}
+
+/**
+ * Whether a label can be the target of a binding
+ */
+export function isKeypadLabel(label: string): boolean {
+  return KEYPAD_LABELS.includes(label);
+}
@@ -0,0 +1,104 @@
+/**
+ * Custom keypad layouts: validation, editing helpers and picking the keypad to show
+ * Each key appears at most once on a keypad; placing a key that is already there moves it
+ * A key's second function names another key, pressed by a long press or by SHIFT and then the key
+ */
+
+import { CalculatorMode, EntryMode, KeypadLayout, ModeKeypadLayouts } from '@/types/calculator';
+import {
+  BUTTON_LAYOUTS,
+  DEFAULT_SECONDARY_KEYS,
+  ENTRY_MODE_ONLY_KEYS,
+  ESSENTIAL_KEYS,
+  KEYPAD_PALETTES,
+  MAX_LAYOUT_COLUMNS,
+  MAX_LAYOUT_ROWS,
+} from '@/constants/calculator';
+
+/**
+ * Keypad to show: the active saved layout, or the built-in one for the entry style
+ */
+export function getKeypad(
+  layouts: ModeKeypadLayouts,
+  mode: CalculatorMode,
+  entryMode: EntryMode
+): KeypadLayout {
+  const active = layouts.active === null ? undefined : layouts.saved[layouts.active];
+  return active ?? { rows: BUTTON_LAYOUTS[mode][entryMode], secondary: DEFAULT_SECONDARY_KEYS };
+}
+
+/**
+ * Whether a key does anything in the given entry style
+ */
+export function isKeyAvailable(label: string, entryMode: EntryMode): boolean {
+  return !(Object.keys(ENTRY_MODE_ONLY_KEYS) as EntryMode[]).some(
+    (only) => only !== entryMode && ENTRY_MODE_ONLY_KEYS[only].includes(label)
+  );
+}
+
+/**
+ * Essential keys (digits, =, AC) the rows don't have
+ */
+export function findMissingKeys(rows: string[][]): string[] {
+  const labels = new Set(rows.flat());
+  return ESSENTIAL_KEYS.filter((label) => !labels.has(label));
+}
+
+/**
+ * Whether a key can be the second function of another
+ */
+export function isSecondaryKey(label: string, mode: CalculatorMode): boolean {
+  return label !== 'SHIFT' && KEYPAD_PALETTES[mode].includes(label);
+}
+
+/**
+ * Whether a stored value is a usable keypad for the mode: a grid within the size limits,
+ * holding only that mode's keys, each once, and every essential key, with second functions
+ * that are keys of the mode too
+ */
+export function isValidKeypadLayout(value: unknown, mode: CalculatorMode): value is KeypadLayout {
+  const rows = (value as KeypadLayout | null)?.rows;
+  if (!Array.isArray(rows) || rows.length === 0 || rows.length > MAX_LAYOUT_ROWS) return false;
+
+  const labels: string[] = [];
+  for (const row of rows) {
+    if (!Array.isArray(row) || row.length === 0 || row.length > MAX_LAYOUT_COLUMNS) return false;
+    for (const label of row) {
+      if (typeof label !== 'string') return false;
+      if (label !== '') labels.push(label);
+    }
+  }
+
+  const secondary = (value as KeypadLayout).secondary ?? {};
+  if (typeof secondary !== 'object') return false;
+
+  return (
+    Object.values(secondary).every(
+      (label) => typeof label === 'string' && isSecondaryKey(label, mode)
+    ) &&
+    labels.every((label) => KEYPAD_PALETTES[mode].includes(label)) &&
+    new Set(labels).size === labels.length &&
+    findMissingKeys(rows).length === 0
+  );
+}
+
+/**
+ * Grow or shrink the grid, filling new spaces with gaps; keys in removed spaces are dropped
+ */
+export function resizeKeypad(rows: string[][], rowCount: number, columnCount: number): string[][] {
+  return Array.from({ length: rowCount }, (_, rowIndex) =>
+    Array.from({ length: columnCount }, (_, colIndex) => rows[rowIndex]?.[colIndex] ?? '')
+  );
+}
+
+/**
+ * Put a key in a space (or clear it with ''), taking it off any space it was on before
+ */
+export function placeKey(rows: string[][], row: number, column: number, label: string): string[][] {
+  return rows.map((cells, rowIndex) =>
+    cells.map((cell, colIndex) => {
+      if (rowIndex === row && colIndex === column) return label;
+      return label !== '' && cell === label ? '' : cell;
+    })
+  );
+}
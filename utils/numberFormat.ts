@@ -0,0 +1,140 @@
+/**
+ * Locale number formatting for what the user sees, and reading amounts written in any locale
+ * Values stay in plain "1234.5" form everywhere else; these helpers only change how they are printed
+ */
+
+import { AppSettings, NumberFormat } from '@/types/calculator';
+import { CURRENCIES, NUMBER_LOCALES } from '@/constants/calculator';
+import { Decimal } from '@/utils/decimal';
+
+// Plain machine-readable numbers, as stored
+export const PLAIN_NUMBER_FORMAT: NumberFormat = { decimal: '.', group: '', grouping: 'none' };
+
+const NUMBER_TOKEN = /\d+(?:\.\d*)?|\.\d+/g;
+const WORD = /[A-Za-zÀ-ÖØ-öø-ɏ]+/g; // Latin letters, without × and ÷
+
+// Spaces and apostrophes only ever group digits ("1 234,56", "1'234.56")
+const GROUP_MARKS = /[\s'’]/g;
+// Currency symbols, codes and other words around an amount
+const SURROUNDING_WORDS = /^[\p{Sc}\p{L}\s]+|[\p{Sc}\p{L}\s]+$/gu;
+
+// Words a printed calculation can contain (function names, e, currency symbols); any other word
+// means the text is a label such as an imported payee, whose digits must be left alone
+const FORMULA_WORDS = new Set([
+  'sin',
+  'cos',
+  'tan',
+  'log',
+  'ln',
+  'e',
+  ...CURRENCIES.flatMap((currency) => currency.symbol.match(WORD) ?? []),
+]);
+
+/**
+ * Get the number format chosen in settings
+ */
+export function getNumberFormat(
+  settings: Pick<AppSettings, 'numberLocale' | 'digitGrouping'>
+): NumberFormat {
+  const { decimal, group } = NUMBER_LOCALES[settings.numberLocale] ?? NUMBER_LOCALES['en-US'];
+  return { decimal, group, grouping: settings.digitGrouping };
+}
+
+/**
+ * Insert group separators into a run of integer digits
+ * Indian grouping keeps the last three digits together, then groups by two (12,34,56,789)
+ */
+function groupDigits(digits: string, format: NumberFormat): string {
+  if (format.grouping === 'none' || !format.group) return digits;
+
+  const size = format.grouping === 'indian' ? 2 : 3;
+  let head = digits.slice(0, -3);
+  const groups = [digits.slice(-3)];
+  while (head.length > 0) {
+    groups.unshift(head.slice(-size));
+    head = head.slice(0, -size);
+  }
+  return groups.join(format.group);
+}
+
+function formatToken(token: string, format: NumberFormat): string {
+  const [integer, fraction] = token.split('.');
+  const grouped = groupDigits(integer, format);
+  return fraction === undefined ? grouped : `${grouped}${format.decimal}${fraction}`;
+}
+
+/**
+ * Format every number in a value such as "-1234.5", "$1234.50" or a partly typed "1234."
+ */
+export function formatNumberText(text: string, format: NumberFormat): string {
+  return text.replace(NUMBER_TOKEN, (token) => formatToken(token, format));
+}
+
+/**
+ * Format the numbers in a printed calculation ("1234.5 × 2 = 2469")
+ * Text with other words in it is returned unchanged
+ */
+export function formatExpressionText(text: string, format: NumberFormat): string {
+  const words = text.match(WORD) ?? [];
+  if (words.some((word) => !FORMULA_WORDS.has(word))) {
+    return text;
+  }
+  return formatNumberText(text, format);
+}
+
+/**
+ * Read an amount typed, pasted or imported in any common format ("$1,234.56", "1.234,56 €",
+ * "(12.00)", "1'234.50"); exponent notation is not accepted
+ * With both "." and "," present the later one is the decimal mark; a single mark followed by
+ * exactly three digits groups thousands unless it is the given decimal mark
+ */
+export function parseAmount(text: string, decimalMark: string = '.'): Decimal | null {
+  let cleaned = text.trim().replace(/[−–]/g, '-');
+  let negative = false;
+
+  // Accounting style negatives
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  // The sign may sit on either side of the currency symbol ("-$5", "$-5", "5 €-")
+  for (let pass = 0; pass < 2; pass++) {
+    cleaned = cleaned.replace(SURROUNDING_WORDS, '');
+    if (/^[-+]|-$/.test(cleaned)) {
+      negative = negative !== (cleaned.startsWith('-') || cleaned.endsWith('-'));
+      cleaned = cleaned.replace(/^[-+]|-$/, '');
+    }
+  }
+
+  const body = cleaned.replace(GROUP_MARKS, '');
+  if (!/^(\d[\d.,]*|[.,]\d+)$/.test(body)) return null;
+
+  const lastDot = body.lastIndexOf('.');
+  const lastComma = body.lastIndexOf(',');
+  let decimalIndex = Math.max(lastDot, lastComma);
+
+  if (lastDot === -1 || lastComma === -1) {
+    const mark = lastDot === -1 ? ',' : '.';
+    const single = body.indexOf(mark) === decimalIndex;
+    const digitsAfter = body.length - decimalIndex - 1;
+    if (!single || (mark !== decimalMark && digitsAfter === 3)) {
+      decimalIndex = -1;
+    }
+  }
+
+  const fraction = decimalIndex === -1 ? '' : body.slice(decimalIndex + 1);
+  if (/[.,]/.test(fraction)) return null;
+
+  // Thousands groups are three digits; Indian grouping has twos before the last three
+  const groups = (decimalIndex === -1 ? body : body.slice(0, decimalIndex)).split(/[.,]/);
+  const tail = groups.slice(1);
+  const thousands = tail.every((group) => group.length === 3);
+  const indian = tail.length > 1 && tail.slice(0, -1).every((group) => group.length === 2) &&
+    tail[tail.length - 1].length === 3;
+  if (!thousands && !indian) return null;
+  const integer = groups.join('');
+
+  const value = Decimal.parse(fraction ? `${integer || '0'}.${fraction}` : integer);
+  return value && negative ? value.negate() : value;
+}
@@ -0,0 +1,195 @@
+/**
+ * Checkbook register calculations
+ * Running balances are worked out in exact decimals from the stored transactions
+ */
+
+import { startOfDay } from 'date-fns';
+import {
+  NewReconciliationReport,
+  NewRegisterTransaction,
+  ReconciliationItem,
+  RegisterEntry,
+  RegisterTransaction,
+  TransactionType,
+} from '@/types/calculator';
+import { REGISTER_CATEGORIES, RegisterCategory } from '@/constants/calculator';
+import { Decimal } from '@/utils/decimal';
+import { t } from '@/utils/i18n';
+
+/**
+ * Signed effect of a transaction on the balance (withdrawals are negative)
+ */
+export function getSignedAmount(transaction: RegisterTransaction): Decimal {
+  const amount = Decimal.from(transaction.amount);
+  return transaction.type === 'withdrawal' ? amount.negate() : amount;
+}
+
+/**
+ * Order transactions by date, keeping entry order for transactions on the same date
+ */
+export function sortTransactions(transactions: RegisterTransaction[]): RegisterTransaction[] {
+  return transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => a.transaction.date - b.transaction.date || a.index - b.index)
+    .map(({ transaction }) => transaction);
+}
+
+/**
+ * Attach the running balance after each transaction, oldest first
+ */
+export function withRunningBalances(transactions: RegisterTransaction[]): RegisterEntry[] {
+  let balance = Decimal.ZERO;
+  return sortTransactions(transactions).map((transaction) => {
+    balance = balance.plus(getSignedAmount(transaction));
+    return { ...transaction, balance: balance.toNumber() };
+  });
+}
+
+/**
+ * Current register balance
+ */
+export function getRegisterBalance(transactions: RegisterTransaction[]): number {
+  return transactions
+    .reduce((total, transaction) => total.plus(getSignedAmount(transaction)), Decimal.ZERO)
+    .toNumber();
+}
+
+/**
+ * Category name in the current language; names not in the built-in list are shown as stored
+ */
+export function formatCategory(category: string): string {
+  return (REGISTER_CATEGORIES as readonly string[]).includes(category)
+    ? t(`register.category.${category as RegisterCategory}`)
+    : category;
+}
+
+/**
+ * Blank transaction dated today, optionally pre-filled with an amount from the keypad
+ */
+export function createTransactionDraft(
+  amount: number = 0,
+  type: TransactionType = 'withdrawal'
+): NewRegisterTransaction {
+  return {
+    date: startOfDay(new Date()).getTime(),
+    payee: '',
+    checkNumber: '',
+    memo: '',
+    category: REGISTER_CATEGORIES[0],
+    type,
+    amount,
+    status: 'uncleared',
+  };
+}
+
+/**
+ * Sum the signed amounts of the transactions that match a filter
+ */
+function sumWhere(
+  transactions: RegisterTransaction[],
+  predicate: (transaction: RegisterTransaction) => boolean
+): Decimal {
+  return transactions
+    .filter(predicate)
+    .reduce((total, transaction) => total.plus(getSignedAmount(transaction)), Decimal.ZERO);
+}
+
+/**
+ * Balance already agreed with earlier statements
+ */
+export function getReconciledBalance(transactions: RegisterTransaction[]): number {
+  return sumWhere(transactions, (item) => item.status === 'reconciled').toNumber();
+}
+
+/**
+ * Whether a transaction counts as cleared on a statement: reconciled earlier, or ticked and
+ * dated on or before the statement (ticks on later items wait for the next statement)
+ */
+function isClearedOn(transaction: RegisterTransaction, statementDate: number): boolean {
+  return (
+    transaction.status === 'reconciled' ||
+    (transaction.status === 'cleared' && transaction.date <= statementDate)
+  );
+}
+
+/**
+ * Reconciled balance plus the transactions ticked on the current statement
+ */
+export function getClearedBalance(
+  transactions: RegisterTransaction[],
+  statementDate: number
+): number {
+  return sumWhere(transactions, (item) => isClearedOn(item, statementDate)).toNumber();
+}
+
+/**
+ * Statement balance minus cleared balance; zero when the statement reconciles
+ */
+export function getReconciliationDifference(
+  statementBalance: number,
+  transactions: RegisterTransaction[],
+  statementDate: number
+): number {
+  return Decimal.from(statementBalance)
+    .minus(getClearedBalance(transactions, statementDate))
+    .toNumber();
+}
+
+/**
+ * IDs of the transactions ticked on a statement, which reconciling it locks
+ */
+export function getClearedIds(
+  transactions: RegisterTransaction[],
+  statementDate: number
+): string[] {
+  return getReconcilableTransactions(transactions, statementDate)
+    .filter((item) => item.status === 'cleared')
+    .map((item) => item.id);
+}
+
+/**
+ * Transactions that can be ticked against a statement: not yet reconciled and dated on or before it
+ */
+export function getReconcilableTransactions(
+  transactions: RegisterTransaction[],
+  statementDate: number
+): RegisterTransaction[] {
+  return sortTransactions(transactions).filter(
+    (item) => item.status !== 'reconciled' && item.date <= statementDate
+  );
+}
+
+const toReconciliationItem = (transaction: RegisterTransaction): ReconciliationItem => ({
+  id: transaction.id,
+  date: transaction.date,
+  payee: transaction.payee,
+  checkNumber: transaction.checkNumber,
+  amount: transaction.amount,
+});
+
+/**
+ * Build the report for a statement, listing what the bank has not seen yet
+ */
+export function buildReconciliationReport(
+  transactions: RegisterTransaction[],
+  statementDate: number,
+  statementBalance: number
+): NewReconciliationReport {
+  const outstanding = getReconcilableTransactions(transactions, statementDate).filter(
+    (item) => item.status === 'uncleared'
+  );
+
+  return {
+    statementDate,
+    statementBalance,
+    openingBalance: getReconciledBalance(transactions),
+    registerBalance: sumWhere(transactions, (item) => item.date <= statementDate).toNumber(),
+    clearedCount: getClearedIds(transactions, statementDate).length,
+    outstandingChecks: outstanding
+      .filter((item) => item.type === 'withdrawal')
+      .map(toReconciliationItem),
+    depositsInTransit: outstanding
+      .filter((item) => item.type === 'deposit')
+      .map(toReconciliationItem),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Scientific function library
+ * Exact where possible (powers, factorial, reciprocal), otherwise Math.* trimmed to clean decimals
+ */
+
+import { AngleUnit, ScientificConstant, ScientificFunction } from '@/types/calculator';
+import {
+  FUNCTION_SIGNIFICANT_DIGITS,
+  INTERMEDIATE_DECIMAL_PLACES,
+  MAX_FACTORIAL_INPUT,
+} from '@/constants/calculator';
+import { Decimal, DecimalInput } from '@/utils/decimal';
+import { CalculationError } from '@/utils/errors';
+
+// Largest integer exponent computed by exact repeated multiplication
+const MAX_EXACT_EXPONENT = 64;
+
+// Anything below this from Math.* is floating-point noise around zero (e.g. sin 180°)
+const FLOAT_ZERO_THRESHOLD = 1e-15;
+
+const HALF_TURN: Record<AngleUnit, number> = {
+  deg: 180,
+  rad: Math.PI,
+  grad: 200,
+};
+
+export const SCIENTIFIC_CONSTANTS: Record<ScientificConstant, Decimal> = {
+  'π': Decimal.from('3.14159265358979323846'),
+  'e': Decimal.from('2.71828182845904523536'),
+};
+
+/**
+ * Convert a Math.* result into a Decimal without binary artifacts
+ */
+function fromFloat(value: number): Decimal {
+  if (!Number.isFinite(value)) {
+    throw new CalculationError('overflow');
+  }
+  if (Math.abs(value) < FLOAT_ZERO_THRESHOLD) {
+    return Decimal.ZERO;
+  }
+  return Decimal.from(value.toPrecision(FUNCTION_SIGNIFICANT_DIGITS));
+}
+
+function isInteger(value: Decimal): boolean {
+  return value.round(0).equals(value);
+}
+
+function isOddInteger(value: Decimal): boolean {
+  return isInteger(value) && !value.dividedBy(2, 0, 'down').times(2).equals(value);
+}
+
+function toRadians(value: Decimal, unit: AngleUnit): number {
+  return unit === 'rad' ? value.toNumber() : (value.toNumber() * Math.PI) / HALF_TURN[unit];
+}
+
+function fromRadians(radians: number, unit: AngleUnit): number {
+  return unit === 'rad' ? radians : (radians * HALF_TURN[unit]) / Math.PI;
+}
+
+/**
+ * Check if an angle is an odd multiple of a quarter turn (where tan is undefined)
+ */
+function isTangentPole(value: Decimal, unit: AngleUnit): boolean {
+  if (unit === 'rad') {
+    return Math.abs(Math.cos(value.toNumber())) < FLOAT_ZERO_THRESHOLD;
+  }
+  return isOddInteger(value.dividedBy(HALF_TURN[unit] / 2, INTERMEDIATE_DECIMAL_PLACES));
+}
+
+/**
+ * Raise a value to a power
+ * Integer exponents are exact; fractional exponents go through Math.pow
+ */
+export function power(baseInput: DecimalInput, exponentInput: DecimalInput): Decimal {
+  const base = Decimal.from(baseInput);
+  const exponent = Decimal.from(exponentInput);
+
+  if (base.isZero() && exponent.isNegative()) {
+    throw new CalculationError('divideByZero');
+  }
+
+  if (isInteger(exponent) && exponent.abs().compare(MAX_EXACT_EXPONENT) <= 0) {
+    let remaining = Math.abs(exponent.toNumber());
+    let result = Decimal.from(1);
+    let factor = base;
+    while (remaining > 0) {
+      if (remaining % 2 === 1) result = result.times(factor);
+      factor = factor.times(factor);
+      remaining = Math.floor(remaining / 2);
+    }
+    return exponent.isNegative()
+      ? Decimal.from(1).dividedBy(result, INTERMEDIATE_DECIMAL_PLACES)
+      : result;
+  }
+
+  if (base.isNegative() && !isInteger(exponent)) {
+    throw new CalculationError('domain');
+  }
+
+  return fromFloat(Math.pow(base.toNumber(), exponent.toNumber()));
+}
+
+/**
+ * Take the degree-th root of a value (odd roots of negatives are allowed)
+ */
+export function root(valueInput: DecimalInput, degreeInput: DecimalInput): Decimal {
+  const value = Decimal.from(valueInput);
+  const degree = Decimal.from(degreeInput);
+
+  if (degree.isZero()) {
+    throw new CalculationError('domain');
+  }
+
+  if (value.isNegative()) {
+    if (!isOddInteger(degree)) {
+      throw new CalculationError('domain');
+    }
+    return root(value.negate(), degree).negate();
+  }
+
+  return fromFloat(Math.pow(value.toNumber(), 1 / degree.toNumber()));
+}
+
+/**
+ * Exact factorial for whole numbers up to MAX_FACTORIAL_INPUT
+ */
+export function factorial(valueInput: DecimalInput): Decimal {
+  const value = Decimal.from(valueInput);
+  if (value.isNegative() || !isInteger(value)) {
+    throw new CalculationError('domain');
+  }
+  if (value.compare(MAX_FACTORIAL_INPUT) > 0) {
+    throw new CalculationError('overflow');
+  }
+
+  let result = Decimal.from(1);
+  for (let n = 2; n <= value.toNumber(); n++) {
+    result = result.times(n);
+  }
+  return result;
+}
+
+/**
+ * Apply a single-argument scientific function
+ * Throws CalculationError for inputs outside the function's domain
+ */
+export function applyScientificFunction(
+  fn: ScientificFunction,
+  valueInput: DecimalInput,
+  angleUnit: AngleUnit = 'deg'
+): Decimal {
+  const value = Decimal.from(valueInput);
+  const x = value.toNumber();
+
+  switch (fn) {
+    case 'sin':
+      return fromFloat(Math.sin(toRadians(value, angleUnit)));
+    case 'cos':
+      return fromFloat(Math.cos(toRadians(value, angleUnit)));
+    case 'tan':
+      if (isTangentPole(value, angleUnit)) {
+        throw new CalculationError('domain');
+      }
+      return fromFloat(Math.tan(toRadians(value, angleUnit)));
+    case 'asin':
+    case 'acos':
+      if (value.abs().compare(1) > 0) {
+        throw new CalculationError('domain');
+      }
+      return fromFloat(fromRadians(fn === 'asin' ? Math.asin(x) : Math.acos(x), angleUnit));
+    case 'atan':
+      return fromFloat(fromRadians(Math.atan(x), angleUnit));
+    case 'log':
+    case 'ln':
+      if (value.isNegative() || value.isZero()) {
+        throw new CalculationError('domain');
+      }
+      return fromFloat(fn === 'log' ? Math.log10(x) : Math.log(x));
+    case 'exp10':
+      return power(10, value);
+    case 'exp':
+      return fromFloat(Math.exp(x));
+    case 'square':
+      return value.times(value);
+    case 'sqrt':
+      return root(value, 2);
+    case 'factorial':
+      return factorial(value);
+    case 'reciprocal':
+      if (value.isZero()) {
+        throw new CalculationError('divideByZero');
+      }
+      return Decimal.from(1).dividedBy(value, INTERMEDIATE_DECIMAL_PLACES);
+  }
+}
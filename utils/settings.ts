@@ -0,0 +1,268 @@
+/**
+ * Settings schema: defaults, per-field validation with coercion, and version migrations
+ * Used when loading stored settings, restoring backups and importing settings files
+ */
+
+import { format } from 'date-fns';
+import {
+  AppSettings,
+  CalculatorMode,
+  KeyBindings,
+  KeypadLayouts,
+  ModeKeypadLayouts,
+  SettingsRepair,
+} from '@/types/calculator';
+import {
+  DEFAULT_CURRENCY_CODE,
+  DEFAULT_KEY_BINDINGS,
+  DEFAULT_KEYPAD_LAYOUTS,
+  RETENTION_DAY_OPTIONS,
+  SETTINGS_SCHEMA_VERSION,
+} from '@/constants/calculator';
+import { findCurrency, findCurrencyBySymbol } from '@/utils/currency';
+import { isKeypadLabel, normalizeKeyCombo } from '@/utils/keyboard';
+import { isValidKeypadLayout } from '@/utils/keypadLayout';
+import { ExportFile } from '@/utils/export';
+import { t } from '@/utils/i18n';
+
+export const SETTINGS_FILE_FORMAT = 'retro-calculator-settings';
+
+type StoredSettings = Record<string, unknown>;
+
+// Returns the (possibly coerced) value, or undefined if it can't be used
+type FieldRule<T> = (value: unknown) => T | undefined;
+
+/**
+ * Get default app settings
+ */
+export function getDefaultSettings(): AppSettings {
+  return {
+    mode: 'checkbook',
+    lcdColor: 'amber',
+    soundEnabled: true,
+    retentionDays: 90,
+    currency: DEFAULT_CURRENCY_CODE,
+    numberLocale: 'en-US',
+    digitGrouping: 'thousands',
+    showModeWarning: true,
+    entryMode: 'immediate',
+    angleUnit: 'deg',
+    startupBehavior: 'resume',
+    language: 'en',
+    keyBindings: { ...DEFAULT_KEY_BINDINGS },
+    keypadLayouts: DEFAULT_KEYPAD_LAYOUTS,
+  };
+}
+
+function oneOf<T extends string>(...options: T[]): FieldRule<T> {
+  return (value) => {
+    const text = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+    return options.find((option) => option.toLowerCase() === text);
+  };
+}
+
+// Accepts true/false, 1/0 and their string forms
+const booleanRule: FieldRule<boolean> = (value) => {
+  if (typeof value === 'boolean') return value;
+  if (value === 1 || value === '1' || value === 'true') return true;
+  if (value === 0 || value === '0' || value === 'false') return false;
+  return undefined;
+};
+
+// Snaps any positive day count to the closest offered option, keeping more history on a tie
+const retentionRule: FieldRule<AppSettings['retentionDays']> = (value) => {
+  const days = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof days !== 'number' || !Number.isFinite(days) || days <= 0) return undefined;
+
+  return RETENTION_DAY_OPTIONS.reduce((best, option) =>
+    Math.abs(option - days) <= Math.abs(best - days) ? option : best
+  );
+};
+
+// Any ISO 4217 code in CURRENCIES, in any case
+const currencyRule: FieldRule<string> = (value) =>
+  typeof value === 'string' ? findCurrency(value)?.code : undefined;
+
+// Keeps the bindings whose key combination and keypad label are both recognised
+const keyBindingsRule: FieldRule<KeyBindings> = (value) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+
+  const entries = Object.entries(value);
+  const valid = entries.filter(
+    ([combo, label]) =>
+      normalizeKeyCombo(combo) === combo && typeof label === 'string' && isKeypadLabel(label)
+  );
+  // Unchanged bindings are returned as stored so they are not reported as a repair
+  return valid.length === entries.length ? (value as KeyBindings) : Object.fromEntries(valid);
+};
+
+// Keeps each mode's saved layouts that are complete keypads; an active layout that was dropped
+// falls back to the built-in keypad
+const keypadLayoutsRule: FieldRule<KeypadLayouts> = (value) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+
+  const stored = value as Partial<Record<CalculatorMode, Partial<ModeKeypadLayouts>>>;
+  let repaired = false;
+  const layouts = { ...DEFAULT_KEYPAD_LAYOUTS };
+
+  for (const mode of Object.keys(DEFAULT_KEYPAD_LAYOUTS) as CalculatorMode[]) {
+    const { active, saved } = stored[mode] ?? {};
+    const entries = typeof saved === 'object' && saved !== null ? Object.entries(saved) : [];
+    const valid = entries.filter(([, layout]) => isValidKeypadLayout(layout, mode));
+    const keptActive = valid.some(([name]) => name === active) ? (active as string) : null;
+
+    repaired ||= stored[mode] === undefined || valid.length !== entries.length || keptActive !== active;
+    layouts[mode] = { active: keptActive, saved: Object.fromEntries(valid) };
+  }
+
+  // Unchanged layouts are returned as stored so they are not reported as a repair
+  return repaired ? layouts : (value as KeypadLayouts);
+};
+
+const SETTINGS_SCHEMA: { [K in keyof AppSettings]: FieldRule<AppSettings[K]> } = {
+  mode: oneOf('checkbook', 'scientific'),
+  lcdColor: oneOf('amber', 'green'),
+  soundEnabled: booleanRule,
+  retentionDays: retentionRule,
+  currency: currencyRule,
+  numberLocale: oneOf('en-US', 'de-DE', 'fr-FR', 'de-CH'),
+  digitGrouping: oneOf('thousands', 'indian', 'none'),
+  showModeWarning: booleanRule,
+  entryMode: oneOf('immediate', 'algebraic'),
+  angleUnit: oneOf('deg', 'rad', 'grad'),
+  startupBehavior: oneOf('resume', 'lastBalance'),
+  language: oneOf('en', 'de'),
+  keyBindings: keyBindingsRule,
+  keypadLayouts: keypadLayoutsRule,
+};
+
+/**
+ * Steps that bring stored settings from one version to the next
+ * Add one (keyed by the version it upgrades from) when a field is renamed or removed, then bump
+ * SETTINGS_SCHEMA_VERSION; fields the schema no longer knows are dropped by validation either way
+ */
+const SETTINGS_MIGRATIONS: Record<number, (settings: StoredSettings) => StoredSettings> = {
+  // 1 → 2: currencySymbol became an ISO 4217 currency code
+  1: ({ currencySymbol, ...settings }) =>
+    currencySymbol === undefined
+      ? settings
+      : {
+          ...settings,
+          currency: findCurrencyBySymbol(String(currencySymbol))?.code ?? currencySymbol,
+        },
+};
+
+function describe(value: unknown): string | undefined {
+  return value === undefined ? undefined : JSON.stringify(value);
+}
+
+/**
+ * Text for a repair in the current language
+ */
+export function describeRepair(repair: SettingsRepair): string {
+  const value = (json?: string) => json ?? t('settings.repair.missing');
+  return t(`settings.repair.${repair.kind}`, { from: value(repair.from), to: value(repair.to) });
+}
+
+/**
+ * Migrate and validate settings read from storage or a file
+ * Every field that had to be filled in, coerced or dropped is reported as a repair
+ */
+export function validateSettings(
+  raw: unknown,
+  fromVersion: number = SETTINGS_SCHEMA_VERSION
+): { settings: AppSettings; repairs: SettingsRepair[] } {
+  const defaults = getDefaultSettings();
+  const repairs: SettingsRepair[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return {
+      settings: defaults,
+      repairs: [{ field: '*', kind: 'unreadable' }],
+    };
+  }
+
+  let stored = raw as StoredSettings;
+  for (let version = fromVersion; version < SETTINGS_SCHEMA_VERSION; version++) {
+    stored = SETTINGS_MIGRATIONS[version]?.(stored) ?? stored;
+  }
+
+  const settings: Record<string, unknown> = {};
+  for (const key of Object.keys(defaults) as (keyof AppSettings)[]) {
+    const value = SETTINGS_SCHEMA[key](stored[key]);
+    if (value === undefined) {
+      settings[key] = defaults[key];
+      // A field added since the settings were saved just takes its default
+      if (key in stored) {
+        repairs.push({
+          field: key,
+          kind: 'replaced',
+          from: describe(stored[key]),
+          to: describe(defaults[key]),
+        });
+      }
+    } else {
+      settings[key] = value;
+      if (value !== stored[key]) {
+        repairs.push({
+          field: key,
+          kind: 'adjusted',
+          from: describe(stored[key]),
+          to: describe(value),
+        });
+      }
+    }
+  }
+
+  for (const key of Object.keys(stored)) {
+    if (!(key in defaults)) {
+      repairs.push({ field: key, kind: 'removed' });
+    }
+  }
+
+  return { settings: settings as unknown as AppSettings, repairs };
+}
+
+/**
+ * Settings file for sharing between devices
+ * { "format": "retro-calculator-settings", "version": number, "exportedAt": ISO 8601, "settings": {...} }
+ */
+export function buildSettingsExport(settings: AppSettings): ExportFile {
+  return {
+    filename: `calculator-settings-${format(Date.now(), 'yyyy-MM-dd')}.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify(
+      {
+        format: SETTINGS_FILE_FORMAT,
+        version: SETTINGS_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings,
+      },
+      null,
+      2
+    ),
+  };
+}
+
+/**
+ * Read a settings file, migrating and validating it like stored settings
+ */
+export function parseSettingsFile(
+  text: string
+): { settings: AppSettings; repairs: SettingsRepair[]; error?: never } | { error: string } {
+  let file: { format?: unknown; version?: unknown; settings?: unknown };
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { error: t('file.invalidJson') };
+  }
+
+  if (typeof file !== 'object' || file === null || file.format !== SETTINGS_FILE_FORMAT) {
+    return { error: t('settingsImport.notSettings') };
+  }
+  if (typeof file.version !== 'number' || file.version > SETTINGS_SCHEMA_VERSION) {
+    return { error: t('settingsImport.newerVersion') };
+  }
+
+  return validateSettings(file.settings, file.version);
+}
@@ -1,47 +1,455 @@
 /**
- * AsyncStorage utilities for history and settings persistence
+ * Persistence utilities for history, settings, register and session
+ * Everything is read and written through the configured StorageBackend
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { CalculationHistory, AppSettings } from '@/types/calculator';
-import { STORAGE_KEYS } from '@/constants/calculator';
+import { format } from 'date-fns';
+import {
+  CalculationHistory,
+  AppSettings,
+  ChainStep,
+  CsvColumnMapping,
+  LoadedSettings,
+  MemoryState,
+  NewHistoryEntry,
+  NewReconciliationReport,
+  NewRegisterTransaction,
+  ReconciliationReport,
+  RegisterTransaction,
+  RestoreMode,
+  SessionSnapshot,
+  SettingsDiagnostics,
+} from '@/types/calculator';
+import {
+  STORAGE_KEYS,
+  EMPTY_MEMORY,
+  DECIMAL_PLACES_CHECKBOOK,
+  HISTORY_SCHEMA_VERSION,
+  HISTORY_PAGE_SIZE,
+  DEFAULT_CSV_MAPPING,
+  SETTINGS_SCHEMA_VERSION,
+} from '@/constants/calculator';
+import { Decimal } from '@/utils/decimal';
+import { reportStorageError } from '@/utils/errors';
+import { AsyncStorageBackend, StorageBackend } from '@/utils/storageBackends';
+import { getDefaultSettings, validateSettings } from '@/utils/settings';
+
+type StoredRecord = Record<string, unknown>;
+
+// One stored day of history and how many entries it holds
+interface HistoryIndexEntry {
+  day: string; // yyyy-MM-dd
+  count: number;
+}
+
+// Store every function below reads and writes; replaced at app start by setStorageBackend
+let backend: StorageBackend = new AsyncStorageBackend();
+
+/**
+ * Switch the store all persistence goes through
+ * Call before anything is loaded; stored history is re-checked for upgrades on the new store
+ */
+export function setStorageBackend(next: StorageBackend): void {
+  backend = next;
+  historyReady = null;
+}
+
+const HISTORY_KINDS = ['calculation', 'subtotal', 'total'];
+const OPERATIONS = ['+', '-', '×', '÷', '^', 'ʸ√'];
+const CALCULATOR_MODES = ['checkbook', 'scientific'];
+const TRANSACTION_TYPES = ['deposit', 'withdrawal'];
+const CLEAR_STATUSES = ['uncleared', 'cleared', 'reconciled'];
+
+// Operator between two operands in a v1 expression like "$100.00 + $20.00"
+const V1_OPERATOR_PATTERN = / (\+|-|×|÷|\^|ʸ√) /;
+
+let idCounter = 0;
+
+/**
+ * Generate a unique record ID
+ * Timestamp, per-session counter and random suffix, so entries saved in the same millisecond never collide
+ */
+export function generateId(): string {
+  idCounter = (idCounter + 1) % 1296;
+  const random = Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+  return `${Date.now().toString(36)}-${idCounter.toString(36).padStart(2, '0')}-${random}`;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOperation = (value: unknown): boolean =>
+  value === null || OPERATIONS.includes(value as string);
+
+function isChainStep(value: unknown): value is ChainStep {
+  const step = value as StoredRecord;
+  return (
+    typeof step === 'object' &&
+    step !== null &&
+    isOperation(step.operation) &&
+    isFiniteNumber(step.operand) &&
+    isFiniteNumber(step.result)
+  );
+}
+
+/**
+ * Check that a stored record matches the current history schema
+ */
+function isValidHistoryRecord(value: unknown): value is CalculationHistory {
+  const record = value as StoredRecord;
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    typeof record.id === 'string' &&
+    record.id !== '' &&
+    HISTORY_KINDS.includes(record.kind as string) &&
+    isOperation(record.operation) &&
+    Array.isArray(record.operands) &&
+    record.operands.every(isFiniteNumber) &&
+    typeof record.expression === 'string' &&
+    isFiniteNumber(record.result) &&
+    typeof record.displayResult === 'string' &&
+    CALCULATOR_MODES.includes(record.mode as string) &&
+    typeof record.currencySymbol === 'string' &&
+    Number.isInteger(record.precision) &&
+    isFiniteNumber(record.timestamp) &&
+    (record.steps === undefined || (Array.isArray(record.steps) && record.steps.every(isChainStep))) &&
+    (record.itemCount === undefined || Number.isInteger(record.itemCount))
+  );
+}
+
+/**
+ * Parse an amount printed in a v1 expression ("$1,234.50" → 1234.5)
+ */
+function parsePrintedAmount(text: string): number | null {
+  const parsed = Decimal.parse(text.replace(/[^\d.-]/g, ''));
+  return parsed ? parsed.toNumber() : null;
+}
+
+/**
+ * v1 → v2: v1 entries only had the printed expression and result,
+ * so the operator, operands, currency and precision are recovered from that text
+ */
+function migrateV1Record(record: StoredRecord): StoredRecord | null {
+  if (typeof record.expression !== 'string' || typeof record.displayResult !== 'string') {
+    return null;
+  }
+
+  const steps = Array.isArray(record.steps) ? record.steps.filter(isChainStep) : undefined;
+  const operatorMatch = V1_OPERATOR_PATTERN.exec(record.expression);
+
+  let operation: string | null = null;
+  let operands: (number | null)[] = [];
+  if (steps && steps.length > 0) {
+    operation = steps[steps.length - 1].operation;
+    operands = steps.map((step) => step.operand);
+  } else if (operatorMatch) {
+    operation = operatorMatch[1];
+    operands = record.expression.split(operatorMatch[0]).map(parsePrintedAmount);
+  } else {
+    operands = [parsePrintedAmount(record.expression)];
+  }
+
+  const precision = (record.displayResult.split('.')[1] ?? '').length;
+
+  return {
+    ...record,
+    kind: record.kind ?? 'calculation',
+    operation,
+    operands: operands.filter((operand): operand is number => operand !== null),
+    // v1 did not store the mode; more places than checkbook mode allows means scientific
+    mode: precision > DECIMAL_PLACES_CHECKBOOK ? 'scientific' : 'checkbook',
+    currencySymbol: /^[^\d\s.-]*/.exec(record.expression)?.[0] ?? '',
+    precision,
+    ...(steps && steps.length > 1 ? { steps } : { steps: undefined }),
+  };
+}
+
+// Each migration upgrades a record from the keyed version to the next; null rejects the record
+const HISTORY_MIGRATIONS: Record<number, (record: StoredRecord) => StoredRecord | null> = {
+  1: migrateV1Record,
+};
+
+/**
+ * Upgrade stored records to the current schema
+ * Corrupt records are dropped individually and duplicate IDs are reassigned
+ */
+function migrateHistory(
+  records: unknown[],
+  fromVersion: number
+): { history: CalculationHistory[]; changed: boolean } {
+  const history: CalculationHistory[] = [];
+  const seenIds = new Set<string>();
+  let changed = fromVersion < HISTORY_SCHEMA_VERSION;
+  let rejected = 0;
+
+  for (const raw of records) {
+    let record: StoredRecord | null =
+      typeof raw === 'object' && raw !== null ? (raw as StoredRecord) : null;
+
+    for (let version = fromVersion; record && version < HISTORY_SCHEMA_VERSION; version++) {
+      const migrate = HISTORY_MIGRATIONS[version];
+      record = migrate ? migrate(record) : null;
+    }
+
+    if (!isValidHistoryRecord(record)) {
+      rejected++;
+      continue;
+    }
+
+    const entry: CalculationHistory = seenIds.has(record.id)
+      ? { ...record, id: generateId() }
+      : record;
+    changed = changed || entry !== record;
+    seenIds.add(entry.id);
+    history.push(entry);
+  }
+
+  if (rejected > 0) {
+    console.warn(`Dropped ${rejected} corrupt history record(s)`);
+    changed = true;
+  }
+
+  return { history, changed };
+}
+
+// Writes still waiting for their turn; see enqueueHistoryWrite
+let historyWriteQueue: Promise<void> = Promise.resolve();
+
+// One-time upgrade of older history storage, shared by every caller in a session
+let historyReady: Promise<void> | null = null;
+
+/**
+ * Run history writes one at a time, so each read-modify-write sees the previous one's result
+ * (two quick "=" presses can no longer overwrite each other)
+ */
+function enqueueHistoryWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = historyWriteQueue.then(task);
+  historyWriteQueue = result.then(
+    () => undefined,
+    () => undefined
+  );
+  return result;
+}
+
+/**
+ * Day a history entry is filed under (local date)
+ */
+function getHistoryDay(timestamp: number): string {
+  return format(timestamp, 'yyyy-MM-dd');
+}
+
+function getChunkKey(day: string): string {
+  return STORAGE_KEYS.HISTORY_CHUNK_PREFIX + day;
+}
+
+/**
+ * Read the index of stored days (newest first)
+ */
+async function readHistoryIndex(): Promise<HistoryIndexEntry[]> {
+  const data = await backend.getItem(STORAGE_KEYS.HISTORY_INDEX);
+  const index: unknown = data ? JSON.parse(data) : [];
+  return Array.isArray(index)
+    ? index.filter((entry) => typeof entry?.day === 'string' && isFiniteNumber(entry?.count))
+    : [];
+}
+
+/**
+ * Read one day's entries in the order they were saved, skipping corrupt records
+ * A missing day is empty, but one that can't be read throws, like readRegister,
+ * so writers never replace a day they failed to load
+ */
+async function readHistoryChunk(day: string): Promise<CalculationHistory[]> {
+  const data = await backend.getItem(getChunkKey(day));
+  const records: unknown = data ? JSON.parse(data) : [];
+  if (!Array.isArray(records)) {
+    throw new Error(`Stored history for ${day} is not a list`);
+  }
+  return migrateHistory(records, HISTORY_SCHEMA_VERSION).history;
+}
+
+/**
+ * Read one day for display; a day that can't be read is reported and shown as empty
+ */
+async function loadHistoryChunk(day: string): Promise<CalculationHistory[]> {
+  try {
+    return await readHistoryChunk(day);
+  } catch (error) {
+    reportStorageError(`Error reading history for ${day}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Build the key/value pairs that store a set of day chunks and the updated index
+ * Days whose chunk is empty are removed from the index
+ */
+function buildHistoryWrite(
+  index: HistoryIndexEntry[],
+  chunks: Record<string, CalculationHistory[]>
+): { pairs: [string, string][]; removedKeys: string[] } {
+  const counts = new Map(index.map((entry) => [entry.day, entry.count]));
+  const pairs: [string, string][] = [];
+  const removedKeys: string[] = [];
+
+  for (const [day, entries] of Object.entries(chunks)) {
+    if (entries.length > 0) {
+      counts.set(day, entries.length);
+      pairs.push([getChunkKey(day), JSON.stringify(entries)]);
+    } else {
+      counts.delete(day);
+      removedKeys.push(getChunkKey(day));
+    }
+  }
+
+  const newIndex = [...counts.entries()]
+    .map(([day, count]) => ({ day, count }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+
+  pairs.push(
+    [STORAGE_KEYS.HISTORY_INDEX, JSON.stringify(newIndex)],
+    [STORAGE_KEYS.SCHEMA_VERSION, HISTORY_SCHEMA_VERSION.toString()]
+  );
+  return { pairs, removedKeys };
+}
+
+async function writeHistoryChunks(
+  index: HistoryIndexEntry[],
+  chunks: Record<string, CalculationHistory[]>
+): Promise<void> {
+  const { pairs, removedKeys } = buildHistoryWrite(index, chunks);
+  await backend.multiSet(pairs);
+  if (removedKeys.length > 0) {
+    await backend.multiRemove(removedKeys);
+  }
+}
+
+/**
+ * Bring stored history up to date: split the old single-array tape into day chunks
+ * and migrate records saved with an older schema
+ */
+async function upgradeHistoryStorage(): Promise<void> {
+  const [[, legacyData], [, storedVersion]] = await backend.multiGet([
+    STORAGE_KEYS.HISTORY,
+    STORAGE_KEYS.SCHEMA_VERSION,
+  ]);
+
+  // History saved before versioning has no version key
+  const fromVersion = storedVersion ? parseInt(storedVersion, 10) : 1;
+
+  // Don't rewrite history written by a newer version of the app
+  if (fromVersion > HISTORY_SCHEMA_VERSION) {
+    return;
+  }
+
+  const index = await readHistoryIndex();
+  const chunks: Record<string, CalculationHistory[]> = {};
+
+  if (fromVersion < HISTORY_SCHEMA_VERSION) {
+    for (const { day } of index) {
+      const data = await backend.getItem(getChunkKey(day));
+      const records: unknown = data ? JSON.parse(data) : [];
+      chunks[day] = Array.isArray(records) ? migrateHistory(records, fromVersion).history : [];
+    }
+  }
+
+  if (legacyData) {
+    const records: unknown = JSON.parse(legacyData);
+    const legacy = Array.isArray(records) ? migrateHistory(records, fromVersion).history : [];
+
+    // The old tape was newest first; chunks are kept in the order entries were saved
+    for (const entry of [...legacy].reverse()) {
+      const day = getHistoryDay(entry.timestamp);
+      chunks[day] ??= await readHistoryChunk(day);
+      chunks[day].push(entry);
+    }
+  }
+
+  if (Object.keys(chunks).length > 0 || fromVersion < HISTORY_SCHEMA_VERSION) {
+    await writeHistoryChunks(index, chunks);
+  }
+  if (legacyData) {
+    await backend.removeItem(STORAGE_KEYS.HISTORY);
+  }
+}
+
+function ensureHistoryReady(): Promise<void> {
+  historyReady ??= enqueueHistoryWrite(upgradeHistoryStorage).catch((error) => {
+    reportStorageError('Error upgrading history storage:', error);
+  });
+  return historyReady;
+}
 
 /**
  * Save calculation to history
+ * Appends to today's chunk only; the rest of the tape is never read or rewritten
  */
 export async function saveCalculationToHistory(
-  expression: string,
-  result: number,
-  displayResult: string
+  entry: NewHistoryEntry
 ): Promise<CalculationHistory | null> {
   try {
-    const history = await getHistory();
-    const newEntry: CalculationHistory = {
-      id: Date.now().toString(),
-      expression,
-      result,
-      timestamp: Date.now(),
-      displayResult,
-    };
+    await ensureHistoryReady();
+    return await enqueueHistoryWrite(async () => {
+      const { steps, ...fields } = entry;
+      const newEntry: CalculationHistory = {
+        id: generateId(),
+        timestamp: Date.now(),
+        ...fields,
+        ...(steps && steps.length > 1 && { steps }),
+      };
 
-    history.unshift(newEntry); // Add to beginning (newest first)
-    await AsyncStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(history));
-    return newEntry;
+      const day = getHistoryDay(newEntry.timestamp);
+      const [index, chunk] = await Promise.all([readHistoryIndex(), readHistoryChunk(day)]);
+      await writeHistoryChunks(index, { [day]: [...chunk, newEntry] });
+      return newEntry;
+    });
   } catch (error) {
-    console.error('Error saving calculation to history:', error);
+    reportStorageError('Error saving calculation to history:', error);
     return null;
   }
 }
 
 /**
- * Get all history items
+ * Get one page of history (newest first), loading whole days until the page is full
+ * Pass the previous page's nextCursor to continue with older days; null means there are no more
+ */
+export async function getHistoryPage(
+  cursor: string | null = null
+): Promise<{ entries: CalculationHistory[]; nextCursor: string | null }> {
+  try {
+    await ensureHistoryReady();
+    const index = await readHistoryIndex();
+    const days = index.filter((entry) => cursor === null || entry.day < cursor);
+
+    const entries: CalculationHistory[] = [];
+    let loaded = 0;
+    while (loaded < days.length && entries.length < HISTORY_PAGE_SIZE) {
+      const chunk = await loadHistoryChunk(days[loaded].day);
+      entries.push(...chunk.reverse());
+      loaded++;
+    }
+
+    return {
+      entries,
+      nextCursor: loaded < days.length ? days[loaded - 1]?.day ?? null : null,
+    };
+  } catch (error) {
+    reportStorageError('Error retrieving history page:', error);
+    return { entries: [], nextCursor: null };
+  }
+}
+
+/**
+ * Get all history items (newest first)
  */
 export async function getHistory(): Promise<CalculationHistory[]> {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.HISTORY);
-    return data ? JSON.parse(data) : [];
+    await ensureHistoryReady();
+    const index = await readHistoryIndex();
+    const chunks = await Promise.all(index.map(({ day }) => loadHistoryChunk(day)));
+    return chunks.flatMap((chunk) => chunk.reverse());
   } catch (error) {
-    console.error('Error retrieving history:', error);
+    reportStorageError('Error retrieving history:', error);
     return [];
   }
 }
@@ -51,86 +459,244 @@ export async function getHistory(): Promise<CalculationHistory[]> {
  */
 export async function clearHistory(): Promise<void> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify([]));
+    await ensureHistoryReady();
+    await enqueueHistoryWrite(async () => {
+      const index = await readHistoryIndex();
+      await backend.multiRemove([
+        STORAGE_KEYS.HISTORY_INDEX,
+        ...index.map(({ day }) => getChunkKey(day)),
+      ]);
+    });
   } catch (error) {
-    console.error('Error clearing history:', error);
+    reportStorageError('Error clearing history:', error);
   }
 }
 
 /**
  * Auto-cleanup old history based on retention days
+ * Whole days past the cutoff are dropped without being read; only the boundary day is filtered
  */
 export async function autoCleanupHistory(retentionDays: number): Promise<number> {
   try {
-    const history = await getHistory();
-    const now = Date.now();
-    const retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+    await ensureHistoryReady();
+    return await enqueueHistoryWrite(async () => {
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+      const cutoffDay = getHistoryDay(cutoff);
+      const index = await readHistoryIndex();
+      const chunks: Record<string, CalculationHistory[]> = {};
+      let removedCount = 0;
 
-    const filtered = history.filter((item) => now - item.timestamp < retentionMs);
-    const removedCount = history.length - filtered.length;
-
-    if (removedCount > 0) {
-      await AsyncStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(filtered));
-    }
+      for (const { day, count } of index) {
+        if (day < cutoffDay) {
+          chunks[day] = [];
+          removedCount += count;
+        } else if (day === cutoffDay) {
+          const chunk = await readHistoryChunk(day);
+          chunks[day] = chunk.filter((item) => item.timestamp >= cutoff);
+          removedCount += chunk.length - chunks[day].length;
+        }
+      }
 
-    return removedCount;
+      if (removedCount > 0) {
+        await writeHistoryChunks(index, chunks);
+      }
+      return removedCount;
+    });
   } catch (error) {
-    console.error('Error cleaning up history:', error);
+    reportStorageError('Error cleaning up history:', error);
     return 0;
   }
 }
 
 /**
- * Delete a specific history item
+ * Delete a specific history item (rewrites only the day it was saved on)
  */
 export async function deleteHistoryItem(id: string): Promise<void> {
   try {
-    const history = await getHistory();
-    const filtered = history.filter((item) => item.id !== id);
-    await AsyncStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(filtered));
+    await ensureHistoryReady();
+    await enqueueHistoryWrite(async () => {
+      const index = await readHistoryIndex();
+      for (const { day } of index) {
+        const chunk = await readHistoryChunk(day);
+        if (chunk.some((item) => item.id === id)) {
+          await writeHistoryChunks(index, { [day]: chunk.filter((item) => item.id !== id) });
+          return;
+        }
+      }
+    });
   } catch (error) {
-    console.error('Error deleting history item:', error);
+    reportStorageError('Error deleting history item:', error);
   }
 }
 
 /**
- * Get default app settings
+ * Add entries dated in the past (e.g. imported bank lines) to the tape
+ * Each entry is filed under its own day; all affected days are written together
  */
-export function getDefaultSettings(): AppSettings {
-  return {
-    mode: 'checkbook',
-    lcdColor: 'amber',
-    soundEnabled: true,
-    retentionDays: 90,
-    currencySymbol: '$',
-    showModeWarning: true,
-  };
+export async function importHistoryEntries(
+  entries: (NewHistoryEntry & { timestamp: number })[]
+): Promise<number> {
+  try {
+    await ensureHistoryReady();
+    return await enqueueHistoryWrite(async () => {
+      const index = await readHistoryIndex();
+      const chunks: Record<string, CalculationHistory[]> = {};
+
+      for (const { steps, ...fields } of entries) {
+        const day = getHistoryDay(fields.timestamp);
+        chunks[day] ??= await readHistoryChunk(day);
+        chunks[day].push({
+          id: generateId(),
+          ...fields,
+          ...(steps && steps.length > 1 && { steps }),
+        });
+      }
+
+      // Keep each day in time order so the tape reads correctly when reversed
+      Object.values(chunks).forEach((chunk) => chunk.sort((a, b) => a.timestamp - b.timestamp));
+      await writeHistoryChunks(index, chunks);
+      return entries.length;
+    });
+  } catch (error) {
+    reportStorageError('Error importing history entries:', error);
+    return 0;
+  }
 }
 
 /**
- * Load app settings
+ * Put backed-up history entries back, running the same migrations as normal loading
+ * Overwrite replaces the whole tape; merge adds only entries whose ids aren't stored yet
+ * Returns the number of entries added, or null if they couldn't be saved
  */
-export async function loadSettings(): Promise<AppSettings> {
+export async function restoreHistory(
+  records: unknown[],
+  fromVersion: number,
+  mode: RestoreMode
+): Promise<number | null> {
+  try {
+    await ensureHistoryReady();
+    const { history } = migrateHistory(records, fromVersion);
+
+    return await enqueueHistoryWrite(async () => {
+      let index = await readHistoryIndex();
+      const chunks: Record<string, CalculationHistory[]> = {};
+
+      // Overwrite drops the stored days only once the backed-up ones are written, so a failed
+      // write leaves the old tape in place
+      const replacedDays = mode === 'overwrite' ? index.map(({ day }) => day) : [];
+      if (mode === 'overwrite') {
+        index = [];
+      } else {
+        for (const { day } of index) {
+          chunks[day] = await readHistoryChunk(day);
+        }
+      }
+
+      const storedIds = new Set(Object.values(chunks).flatMap((chunk) => chunk.map((item) => item.id)));
+      let added = 0;
+      for (const entry of history) {
+        if (storedIds.has(entry.id)) continue;
+
+        const day = getHistoryDay(entry.timestamp);
+        (chunks[day] ??= []).push(entry);
+        storedIds.add(entry.id);
+        added++;
+      }
+
+      Object.values(chunks).forEach((chunk) => chunk.sort((a, b) => a.timestamp - b.timestamp));
+      await writeHistoryChunks(index, chunks);
+
+      const staleKeys = replacedDays.filter((day) => !chunks[day]).map(getChunkKey);
+      if (staleKeys.length > 0) {
+        await backend.multiRemove(staleKeys);
+      }
+      return added;
+    });
+  } catch (error) {
+    reportStorageError('Error restoring history:', error);
+    return null;
+  }
+}
+
+export { getDefaultSettings };
+
+/**
+ * Load app settings, reporting whether they may be saved back
+ * Stored settings are migrated and validated; anything repaired is saved back and
+ * recorded for the diagnostics report
+ * Defaults stand in when the store can't be read, and settings from a newer version are used
+ * as far as they validate; neither should be written over what is stored
+ */
+export async function loadStoredSettings(): Promise<LoadedSettings> {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
-    if (data) {
-      return { ...getDefaultSettings(), ...JSON.parse(data) };
+    const [[, data], [, storedVersion]] = await backend.multiGet([
+      STORAGE_KEYS.SETTINGS,
+      STORAGE_KEYS.SETTINGS_VERSION,
+    ]);
+    if (!data) {
+      return { settings: getDefaultSettings(), status: 'loaded' };
+    }
+
+    // Settings saved before versioning have no version key
+    const fromVersion = storedVersion ? parseInt(storedVersion, 10) : 1;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      raw = null;
+    }
+
+    const { settings, repairs } = validateSettings(raw, fromVersion);
+
+    // Don't rewrite settings saved by a newer version of the app
+    if (fromVersion <= SETTINGS_SCHEMA_VERSION && (repairs.length > 0 || fromVersion < SETTINGS_SCHEMA_VERSION)) {
+      await saveSettings(settings);
+    }
+    if (repairs.length > 0) {
+      console.warn(`Repaired ${repairs.length} stored setting(s)`);
+      const diagnostics: SettingsDiagnostics = { checkedAt: Date.now(), fromVersion, repairs };
+      await backend.setItem(STORAGE_KEYS.SETTINGS_DIAGNOSTICS, JSON.stringify(diagnostics));
     }
-    return getDefaultSettings();
+    return { settings, status: fromVersion > SETTINGS_SCHEMA_VERSION ? 'newer' : 'loaded' };
   } catch (error) {
-    console.error('Error loading settings:', error);
-    return getDefaultSettings();
+    reportStorageError('Error loading settings:', error);
+    return { settings: getDefaultSettings(), status: 'unreadable' };
   }
 }
 
 /**
- * Save app settings
+ * Load app settings for reading (see loadStoredSettings)
  */
-export async function saveSettings(settings: AppSettings): Promise<void> {
+export async function loadSettings(): Promise<AppSettings> {
+  return (await loadStoredSettings()).settings;
+}
+
+/**
+ * Save app settings; returns false if they couldn't be saved
+ */
+export async function saveSettings(settings: AppSettings): Promise<boolean> {
+  try {
+    await backend.multiSet([
+      [STORAGE_KEYS.SETTINGS, JSON.stringify(settings)],
+      [STORAGE_KEYS.SETTINGS_VERSION, SETTINGS_SCHEMA_VERSION.toString()],
+    ]);
+    return true;
+  } catch (error) {
+    reportStorageError('Error saving settings:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the report from the last settings load that repaired something, if any
+ */
+export async function getSettingsDiagnostics(): Promise<SettingsDiagnostics | null> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+    const data = await backend.getItem(STORAGE_KEYS.SETTINGS_DIAGNOSTICS);
+    return data ? JSON.parse(data) : null;
   } catch (error) {
-    console.error('Error saving settings:', error);
+    reportStorageError('Error loading settings diagnostics:', error);
+    return null;
   }
 }
 
@@ -139,21 +705,399 @@ export async function saveSettings(settings: AppSettings): Promise<void> {
  */
 export async function getLastBalance(): Promise<number> {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.LAST_BALANCE);
+    const data = await backend.getItem(STORAGE_KEYS.LAST_BALANCE);
     return data ? parseFloat(data) : 0;
   } catch (error) {
-    console.error('Error getting last balance:', error);
+    reportStorageError('Error getting last balance:', error);
     return 0;
   }
 }
 
 /**
- * Save last balance (for checkbook mode)
+ * Save last balance (for checkbook mode); returns false if it couldn't be saved
+ */
+export async function saveLastBalance(balance: number): Promise<boolean> {
+  try {
+    await backend.setItem(STORAGE_KEYS.LAST_BALANCE, balance.toString());
+    return true;
+  } catch (error) {
+    reportStorageError('Error saving last balance:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the CSV column mapping last used for an import
+ */
+export async function getCsvMapping(): Promise<CsvColumnMapping> {
+  try {
+    const data = await backend.getItem(STORAGE_KEYS.CSV_MAPPING);
+    return data ? { ...DEFAULT_CSV_MAPPING, ...JSON.parse(data) } : DEFAULT_CSV_MAPPING;
+  } catch (error) {
+    reportStorageError('Error loading CSV mapping:', error);
+    return DEFAULT_CSV_MAPPING;
+  }
+}
+
+/**
+ * Save the CSV column mapping for the next import
+ */
+export async function saveCsvMapping(mapping: CsvColumnMapping): Promise<void> {
+  try {
+    await backend.setItem(STORAGE_KEYS.CSV_MAPPING, JSON.stringify(mapping));
+  } catch (error) {
+    reportStorageError('Error saving CSV mapping:', error);
+  }
+}
+
+/**
+ * Get the saved calculator session, or null if there is none or it is unreadable
+ */
+export async function getSession(): Promise<SessionSnapshot | null> {
+  try {
+    const data = await backend.getItem(STORAGE_KEYS.SESSION);
+    if (!data) {
+      return null;
+    }
+
+    const session = JSON.parse(data) as Partial<SessionSnapshot>;
+    const { calculatorState, undoStack, undoIndex } = session;
+    const isValid =
+      typeof calculatorState?.display === 'string' &&
+      Array.isArray(undoStack) &&
+      typeof undoIndex === 'number' &&
+      Number.isInteger(undoIndex) &&
+      undoIndex >= 0 &&
+      undoIndex < undoStack.length;
+
+    return isValid ? (session as SessionSnapshot) : null;
+  } catch (error) {
+    reportStorageError('Error getting session:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the calculator session
+ */
+export async function saveSession(session: SessionSnapshot): Promise<void> {
+  try {
+    await backend.setItem(STORAGE_KEYS.SESSION, JSON.stringify(session));
+  } catch (error) {
+    reportStorageError('Error saving session:', error);
+  }
+}
+
+/**
+ * Get memory accumulator and named registers
+ */
+export async function getMemory(): Promise<MemoryState> {
+  try {
+    const data = await backend.getItem(STORAGE_KEYS.MEMORY);
+    return data ? { ...EMPTY_MEMORY, ...JSON.parse(data) } : EMPTY_MEMORY;
+  } catch (error) {
+    reportStorageError('Error getting memory:', error);
+    return EMPTY_MEMORY;
+  }
+}
+
+/**
+ * Save memory accumulator and named registers; returns false if they couldn't be saved
+ */
+export async function saveMemory(memory: MemoryState): Promise<boolean> {
+  try {
+    await backend.setItem(STORAGE_KEYS.MEMORY, JSON.stringify(memory));
+    return true;
+  } catch (error) {
+    reportStorageError('Error saving memory:', error);
+    return false;
+  }
+}
+
+/**
+ * Check that a stored register record is a complete transaction
+ */
+function isValidRegisterTransaction(value: unknown): value is RegisterTransaction {
+  const record = value as StoredRecord;
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    typeof record.id === 'string' &&
+    isFiniteNumber(record.date) &&
+    typeof record.payee === 'string' &&
+    typeof record.checkNumber === 'string' &&
+    typeof record.memo === 'string' &&
+    typeof record.category === 'string' &&
+    TRANSACTION_TYPES.includes(record.type as string) &&
+    isFiniteNumber(record.amount) &&
+    record.amount >= 0 &&
+    CLEAR_STATUSES.includes(record.status as string)
+  );
+}
+
+function isValidReconciliationReport(value: unknown): value is ReconciliationReport {
+  const record = value as StoredRecord;
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    typeof record.id === 'string' &&
+    isFiniteNumber(record.statementDate) &&
+    isFiniteNumber(record.statementBalance) &&
+    Array.isArray(record.outstandingChecks) &&
+    Array.isArray(record.depositsInTransit)
+  );
+}
+
+/**
+ * Keep the valid transactions from a stored or backed-up list
+ */
+function parseRegisterRecords(records: unknown[]): RegisterTransaction[] {
+  // Transactions saved before reconciliation existed have no status yet
+  const transactions = records
+    .map((record) => ({ status: 'uncleared', ...(record as StoredRecord) }))
+    .filter(isValidRegisterTransaction);
+  if (transactions.length < records.length) {
+    console.warn(`Skipped ${records.length - transactions.length} corrupt register record(s)`);
+  }
+  return transactions;
+}
+
+// Register writes still waiting for their turn; see enqueueRegisterWrite
+let registerWriteQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Run register writes one at a time, like enqueueHistoryWrite, so quick edits and ticks
+ * each see the previous one's result
+ */
+function enqueueRegisterWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = registerWriteQueue.then(task);
+  registerWriteQueue = result.then(
+    () => undefined,
+    () => undefined
+  );
+  return result;
+}
+
+/**
+ * Read the stored register; a missing register is empty, but one that can't be read throws,
+ * so writers never replace transactions they failed to load
+ */
+async function readRegister(): Promise<RegisterTransaction[]> {
+  const data = await backend.getItem(STORAGE_KEYS.REGISTER);
+  const records: unknown = data ? JSON.parse(data) : [];
+  if (!Array.isArray(records)) {
+    throw new Error('Stored register is not a list');
+  }
+  return parseRegisterRecords(records);
+}
+
+/**
+ * Get all checkbook register transactions (in entry order)
+ * Corrupt records are skipped rather than discarding the whole register
+ */
+export async function getRegister(): Promise<RegisterTransaction[]> {
+  try {
+    return await readRegister();
+  } catch (error) {
+    reportStorageError('Error retrieving register:', error);
+    return [];
+  }
+}
+
+/**
+ * Read the register, change it and store the result, after any earlier register writes
+ */
+function updateRegister<T>(
+  update: (transactions: RegisterTransaction[]) => { transactions: RegisterTransaction[]; result: T }
+): Promise<T> {
+  return enqueueRegisterWrite(async () => {
+    const { transactions, result } = update(await readRegister());
+    await backend.setItem(STORAGE_KEYS.REGISTER, JSON.stringify(transactions));
+    return result;
+  });
+}
+
+/**
+ * Add several transactions to the checkbook register in one write
+ */
+export async function saveRegisterTransactions(
+  transactions: NewRegisterTransaction[]
+): Promise<RegisterTransaction[]> {
+  try {
+    return await updateRegister((existing) => {
+      const added = transactions.map(
+        (transaction): RegisterTransaction => ({ id: generateId(), ...transaction })
+      );
+      return { transactions: [...existing, ...added], result: added };
+    });
+  } catch (error) {
+    reportStorageError('Error saving register transactions:', error);
+    return [];
+  }
+}
+
+/**
+ * Add a transaction to the checkbook register
+ */
+export async function saveRegisterTransaction(
+  transaction: NewRegisterTransaction
+): Promise<RegisterTransaction | null> {
+  try {
+    return await updateRegister((transactions) => {
+      const newTransaction: RegisterTransaction = { id: generateId(), ...transaction };
+      return { transactions: [...transactions, newTransaction], result: newTransaction };
+    });
+  } catch (error) {
+    reportStorageError('Error saving register transaction:', error);
+    return null;
+  }
+}
+
+/**
+ * Replace an existing register transaction (matched by id)
+ */
+export async function updateRegisterTransaction(transaction: RegisterTransaction): Promise<void> {
+  try {
+    await updateRegister((transactions) => ({
+      transactions: transactions.map((item) => (item.id === transaction.id ? transaction : item)),
+      result: undefined,
+    }));
+  } catch (error) {
+    reportStorageError('Error updating register transaction:', error);
+  }
+}
+
+/**
+ * Delete a register transaction
+ */
+export async function deleteRegisterTransaction(id: string): Promise<void> {
+  try {
+    await updateRegister((transactions) => ({
+      transactions: transactions.filter((item) => item.id !== id),
+      result: undefined,
+    }));
+  } catch (error) {
+    reportStorageError('Error deleting register transaction:', error);
+  }
+}
+
+/**
+ * Mark register transactions as cleared or uncleared while ticking off a statement
+ * Reconciled transactions are locked and left unchanged; returns false if the mark wasn't saved
+ */
+export async function setTransactionsCleared(ids: string[], cleared: boolean): Promise<boolean> {
+  try {
+    return await updateRegister((transactions) => ({
+      transactions: transactions.map((item) =>
+        ids.includes(item.id) && item.status !== 'reconciled'
+          ? { ...item, status: cleared ? 'cleared' : 'uncleared' }
+          : item
+      ),
+      result: true,
+    }));
+  } catch (error) {
+    reportStorageError('Error updating cleared transactions:', error);
+    return false;
+  }
+}
+
+/**
+ * Read the stored reconciliation reports, throwing when they can't be read (see readRegister)
+ */
+async function readReconciliationReports(): Promise<ReconciliationReport[]> {
+  const data = await backend.getItem(STORAGE_KEYS.RECONCILIATIONS);
+  const records: unknown = data ? JSON.parse(data) : [];
+  if (!Array.isArray(records)) {
+    throw new Error('Stored reconciliation reports are not a list');
+  }
+  return records.filter(isValidReconciliationReport);
+}
+
+/**
+ * Get saved reconciliation reports (newest first)
+ */
+export async function getReconciliationReports(): Promise<ReconciliationReport[]> {
+  try {
+    return await readReconciliationReports();
+  } catch (error) {
+    reportStorageError('Error retrieving reconciliation reports:', error);
+    return [];
+  }
+}
+
+/**
+ * Put a backed-up register and its reconciliation reports back
+ * Overwrite replaces both; merge adds only records whose ids aren't stored yet
+ * Returns the number of transactions added, or null if they couldn't be saved
+ */
+export async function restoreRegister(
+  transactionRecords: unknown[],
+  reportRecords: unknown[],
+  mode: RestoreMode
+): Promise<number | null> {
+  try {
+    return await enqueueRegisterWrite(async () => {
+      const transactions = parseRegisterRecords(transactionRecords);
+      const reports = reportRecords.filter(isValidReconciliationReport);
+      const [storedTransactions, storedReports] =
+        mode === 'overwrite'
+          ? [[], []]
+          : await Promise.all([readRegister(), readReconciliationReports()]);
+
+      const storedIds = new Set(storedTransactions.map((item) => item.id));
+      const addedTransactions = transactions.filter((item) => !storedIds.has(item.id));
+      const storedReportIds = new Set(storedReports.map((report) => report.id));
+      const mergedReports = [
+        ...storedReports,
+        ...reports.filter((report) => !storedReportIds.has(report.id)),
+      ].sort((a, b) => b.reconciledAt - a.reconciledAt);
+
+      await backend.multiSet([
+        [STORAGE_KEYS.REGISTER, JSON.stringify([...storedTransactions, ...addedTransactions])],
+        [STORAGE_KEYS.RECONCILIATIONS, JSON.stringify(mergedReports)],
+      ]);
+      return addedTransactions.length;
+    });
+  } catch (error) {
+    reportStorageError('Error restoring register:', error);
+    return null;
+  }
+}
+
+/**
+ * Lock the transactions ticked on the statement as reconciled and save the statement's report
+ * The ids are the ones the report was built from, so the locked rows always match it
  */
-export async function saveLastBalance(balance: number): Promise<void> {
+export async function completeReconciliation(
+  newReport: NewReconciliationReport,
+  clearedIds: string[]
+): Promise<ReconciliationReport | null> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.LAST_BALANCE, balance.toString());
+    return await enqueueRegisterWrite(async () => {
+      const [transactions, reports] = await Promise.all([
+        readRegister(),
+        readReconciliationReports(),
+      ]);
+      const report: ReconciliationReport = {
+        id: generateId(),
+        reconciledAt: Date.now(),
+        ...newReport,
+      };
+      await backend.multiSet([
+        [
+          STORAGE_KEYS.REGISTER,
+          JSON.stringify(
+            transactions.map((item) =>
+              clearedIds.includes(item.id) ? { ...item, status: 'reconciled' } : item
+            )
+          ),
+        ],
+        [STORAGE_KEYS.RECONCILIATIONS, JSON.stringify([report, ...reports])],
+      ]);
+      return report;
+    });
   } catch (error) {
-    console.error('Error saving last balance:', error);
+    reportStorageError('Error completing reconciliation:', error);
+    return null;
   }
 }
@@ -0,0 +1,156 @@
+/**
+ * Key/value stores that persistence in utils/storage.ts can run on
+ * AsyncStorage on device, in-memory for running storage logic off-device, files for larger data
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { StorageBackendKind } from '@/types/calculator';
+
+/**
+ * The subset of the AsyncStorage API the app relies on
+ * Values are always strings; a missing key reads as null
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  multiGet(keys: readonly string[]): Promise<[string, string | null][]>;
+  multiSet(pairs: readonly [string, string][]): Promise<void>;
+  multiRemove(keys: readonly string[]): Promise<void>;
+}
+
+/**
+ * Device storage through @react-native-async-storage (the default)
+ */
+export class AsyncStorageBackend implements StorageBackend {
+  getItem(key: string) {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string) {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string) {
+    return AsyncStorage.removeItem(key);
+  }
+
+  async multiGet(keys: readonly string[]) {
+    const pairs = await AsyncStorage.multiGet(keys);
+    return pairs.map(([key, value]): [string, string | null] => [key, value]);
+  }
+
+  multiSet(pairs: readonly [string, string][]) {
+    return AsyncStorage.multiSet(pairs);
+  }
+
+  multiRemove(keys: readonly string[]) {
+    return AsyncStorage.multiRemove(keys);
+  }
+}
+
+/**
+ * Values held in a Map for the lifetime of the process
+ * Nothing survives a restart; seed it with initial values to start from a known state
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private readonly items: Map<string, string>;
+
+  constructor(initial: Record<string, string> = {}) {
+    this.items = new Map(Object.entries(initial));
+  }
+
+  async getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  async multiGet(keys: readonly string[]) {
+    return keys.map((key): [string, string | null] => [key, this.items.get(key) ?? null]);
+  }
+
+  async multiSet(pairs: readonly [string, string][]) {
+    pairs.forEach(([key, value]) => this.items.set(key, value));
+  }
+
+  async multiRemove(keys: readonly string[]) {
+    keys.forEach((key) => this.items.delete(key));
+  }
+}
+
+/**
+ * One file per key in a directory under the app's document storage
+ * Not available on web
+ */
+export class FileSystemStorageBackend implements StorageBackend {
+  private readonly directory: Directory;
+
+  constructor(directoryName = 'storage') {
+    this.directory = new Directory(Paths.document, directoryName);
+  }
+
+  // Keys become file names, so anything outside a safe set is escaped
+  private fileFor(key: string): File {
+    return new File(this.directory, encodeURIComponent(key));
+  }
+
+  async getItem(key: string) {
+    const file = this.fileFor(key);
+    return file.exists ? file.text() : null;
+  }
+
+  async setItem(key: string, value: string) {
+    if (!this.directory.exists) {
+      this.directory.create({ intermediates: true });
+    }
+    this.fileFor(key).write(value);
+  }
+
+  async removeItem(key: string) {
+    const file = this.fileFor(key);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+
+  async multiGet(keys: readonly string[]) {
+    return Promise.all(
+      keys.map(async (key): Promise<[string, string | null]> => [key, await this.getItem(key)])
+    );
+  }
+
+  async multiSet(pairs: readonly [string, string][]) {
+    for (const [key, value] of pairs) {
+      await this.setItem(key, value);
+    }
+  }
+
+  async multiRemove(keys: readonly string[]) {
+    for (const key of keys) {
+      await this.removeItem(key);
+    }
+  }
+}
+
+/**
+ * Create the backend for a configured kind
+ */
+export function createStorageBackend(kind: StorageBackendKind): StorageBackend {
+  switch (kind) {
+    case 'memory':
+      return new MemoryStorageBackend();
+    case 'fileSystem':
+      return new FileSystemStorageBackend();
+    case 'asyncStorage':
+    default:
+      return new AsyncStorageBackend();
+  }
+}